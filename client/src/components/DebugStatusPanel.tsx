@@ -116,6 +116,21 @@ const DebugStatusPanel: React.FC<DebugStatusPanelProps> = ({ socket, selectedMod
       addEvent('message_complete', data);
     };
 
+    // An MCP server changed its tool list; keep counters for tools that are still there
+    const handleToolsUpdated = (data: { tools: Array<{ name: string }>; count: number }) => {
+      updateSystemStatus({
+        availableTools: data.count,
+        toolExecutions: data.tools.map(tool =>
+          systemStatus.toolExecutions.find(existing => existing.name === tool.name) || {
+            name: tool.name,
+            status: 'idle',
+            executionCount: 0
+          }
+        )
+      });
+      addEvent('tools_updated', { count: data.count });
+    };
+
     // Register event listeners
     socket.on('connect', handleConnect);
     socket.on('disconnect', handleDisconnect);
@@ -124,6 +139,7 @@ const DebugStatusPanel: React.FC<DebugStatusPanelProps> = ({ socket, selectedMod
     socket.on('chat:tool_error', handleToolError);
     socket.on('chat:stream_start', handleStreamStart);
     socket.on('chat:stream_complete', handleStreamComplete);
+    socket.on('tools:updated', handleToolsUpdated);
 
     return () => {
       socket.off('connect', handleConnect);
@@ -133,6 +149,7 @@ const DebugStatusPanel: React.FC<DebugStatusPanelProps> = ({ socket, selectedMod
       socket.off('chat:tool_error', handleToolError);
       socket.off('chat:stream_start', handleStreamStart);
       socket.off('chat:stream_complete', handleStreamComplete);
+      socket.off('tools:updated', handleToolsUpdated);
     };
   }, [socket, systemStatus]);
 
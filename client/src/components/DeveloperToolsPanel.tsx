@@ -11,8 +11,26 @@ import {
   Server,
   Eye,
   EyeOff,
-  RefreshCw
+  RefreshCw,
+  ScrollText
 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { MCPLogLevel, MCPServerLogEntry } from '../../../shared/src/types/mcp';
+
+// Syslog order, least to most severe
+const LOG_LEVELS: MCPLogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+const MAX_SERVER_LOGS = 500;
+
+const LOG_LEVEL_COLORS: Record<MCPLogLevel, string> = {
+  debug: 'bg-gray-100 text-gray-700',
+  info: 'bg-blue-100 text-blue-800',
+  notice: 'bg-blue-100 text-blue-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800',
+  critical: 'bg-red-100 text-red-800',
+  alert: 'bg-red-100 text-red-800',
+  emergency: 'bg-red-100 text-red-800'
+};
 
 interface ConnectionStatus {
   websocket: {
@@ -51,6 +69,11 @@ interface ToolExecution {
   error?: string;
 }
 
+interface AvailableTool {
+  name: string;
+  description?: string;
+}
+
 interface QueueJob {
   id: string;
   name: string;
@@ -73,7 +96,9 @@ interface DeveloperToolsPanelProps {
 }
 
 const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'status' | 'tools' | 'queue' | 'limits'>('status');
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'ADMIN';
+  const [activeTab, setActiveTab] = useState<'status' | 'tools' | 'queue' | 'limits' | 'logs'>('status');
   const [isVisible, setIsVisible] = useState(true);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({
     websocket: { connected: false },
@@ -82,6 +107,8 @@ const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClo
     redis: { connected: false }
   });
   const [toolExecutions, setToolExecutions] = useState<ToolExecution[]>([]);
+  const [availableTools, setAvailableTools] = useState<AvailableTool[]>([]);
+  const [toolsUpdatedAt, setToolsUpdatedAt] = useState<Date | null>(null);
   const [queueJobs, setQueueJobs] = useState<QueueJob[]>([]);
   const [rateLimitStatus, setRateLimitStatus] = useState<RateLimitStatus>({
     remaining: 100,
@@ -90,6 +117,10 @@ const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClo
     blocked: false
   });
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [serverLogs, setServerLogs] = useState<MCPServerLogEntry[]>([]);
+  const [serverLogLevel, setServerLogLevel] = useState<MCPLogLevel>('info');
+  const [logFilter, setLogFilter] = useState<MCPLogLevel>('debug');
+  const [serverLogError, setServerLogError] = useState<string | null>(null);
 
   useEffect(() => {
     // Request initial status
@@ -100,6 +131,8 @@ const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClo
     socket.on('dev:tool-execution', handleToolExecution);
     socket.on('dev:queue-update', handleQueueUpdate);
     socket.on('dev:rate-limit-update', handleRateLimitUpdate);
+    socket.on('test:tool-discovery-result', handleToolDiscovery);
+    socket.on('tools:updated', handleToolsUpdated);
 
     // Auto-refresh timer
     const refreshInterval = setInterval(() => {
@@ -113,6 +146,8 @@ const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClo
       socket.off('dev:tool-execution', handleToolExecution);
       socket.off('dev:queue-update', handleQueueUpdate);
       socket.off('dev:rate-limit-update', handleRateLimitUpdate);
+      socket.off('test:tool-discovery-result', handleToolDiscovery);
+      socket.off('tools:updated', handleToolsUpdated);
       clearInterval(refreshInterval);
     };
   }, [socket, autoRefresh]);
@@ -124,10 +159,60 @@ const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClo
     socket.emit('dev:get-rate-limits');
   };
 
+  // Tool list is fetched once; afterwards the server pushes tools:updated when it changes
+  useEffect(() => {
+    socket.emit('test:tool-discovery');
+  }, [socket]);
+
+  // MCP server logs are admin-only; the server refuses the subscription for anyone else
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const handleServerLogs = (data: { entries: MCPServerLogEntry[]; level: MCPLogLevel }) => {
+      setServerLogs(data.entries.slice(-MAX_SERVER_LOGS).reverse());
+      setServerLogLevel(data.level);
+    };
+    const handleServerLog = (entry: MCPServerLogEntry) => {
+      setServerLogs(prev => [entry, ...prev.slice(0, MAX_SERVER_LOGS - 1)]);
+    };
+    const handleServerLogLevel = (data: { level: MCPLogLevel }) => {
+      setServerLogLevel(data.level);
+      setServerLogError(null);
+    };
+    const handleServerLogsError = (data: { error: string }) => {
+      setServerLogError(data.error);
+    };
+
+    socket.on('dev:server-logs', handleServerLogs);
+    socket.on('dev:server-log', handleServerLog);
+    socket.on('dev:server-log-level', handleServerLogLevel);
+    socket.on('dev:server-logs-error', handleServerLogsError);
+    socket.emit('dev:subscribe-server-logs');
+
+    return () => {
+      socket.emit('dev:unsubscribe-server-logs');
+      socket.off('dev:server-logs', handleServerLogs);
+      socket.off('dev:server-log', handleServerLog);
+      socket.off('dev:server-log-level', handleServerLogLevel);
+      socket.off('dev:server-logs-error', handleServerLogsError);
+    };
+  }, [socket, isAdmin]);
+
   const handleStatusUpdate = (status: ConnectionStatus) => {
     setConnectionStatus(status);
   };
 
+  const handleToolDiscovery = (result: { success: boolean; tools?: AvailableTool[] }) => {
+    if (result.success && result.tools) {
+      setAvailableTools(result.tools);
+    }
+  };
+
+  const handleToolsUpdated = (data: { tools: AvailableTool[]; updatedAt: string }) => {
+    setAvailableTools(data.tools);
+    setToolsUpdatedAt(new Date(data.updatedAt));
+  };
+
   const handleToolExecution = (execution: ToolExecution) => {
     setToolExecutions(prev => [execution, ...prev.slice(0, 49)]); // Keep last 50
   };
@@ -155,6 +240,14 @@ const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClo
     return `${(ms / 1000).toFixed(1)}s`;
   };
 
+  const formatLogData = (data: unknown) => {
+    return typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+  };
+
+  const visibleServerLogs = serverLogs.filter(
+    entry => LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(logFilter)
+  );
+
   const formatTimeAgo = (date: Date) => {
     const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
     if (seconds < 60) return `${seconds}s ago`;
@@ -217,7 +310,8 @@ const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClo
           { id: 'status', label: 'Status', icon: Server },
           { id: 'tools', label: 'Tools', icon: Zap },
           { id: 'queue', label: 'Queue', icon: Clock },
-          { id: 'limits', label: 'Limits', icon: AlertCircle }
+          { id: 'limits', label: 'Limits', icon: AlertCircle },
+          ...(isAdmin ? [{ id: 'logs', label: 'Server logs', icon: ScrollText }] : [])
         ].map(({ id, label, icon: Icon }) => (
           <button
             key={id}
@@ -325,6 +419,24 @@ const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClo
 
         {activeTab === 'tools' && (
           <div className="space-y-2">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-sm font-medium">Available Tools</span>
+              <span className="text-xs text-gray-500">
+                {availableTools.length} tools
+                {toolsUpdatedAt && ` · updated ${formatTimeAgo(toolsUpdatedAt)}`}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1 mb-3 max-h-24 overflow-y-auto">
+              {availableTools.map((tool) => (
+                <span
+                  key={tool.name}
+                  title={tool.description}
+                  className="px-2 py-0.5 bg-gray-50 rounded text-xs border"
+                >
+                  {tool.name}
+                </span>
+              ))}
+            </div>
             <div className="flex items-center justify-between mb-3">
               <span className="text-sm font-medium">Recent Tool Executions</span>
               <span className="text-xs text-gray-500">{toolExecutions.length} executions</span>
@@ -450,6 +562,74 @@ const DeveloperToolsPanel: React.FC<DeveloperToolsPanelProps> = ({ socket, onClo
             </div>
           </div>
         )}
+
+        {activeTab === 'logs' && isAdmin && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between mb-3 text-xs">
+              <label className="flex items-center space-x-1">
+                <span className="text-gray-500">Show</span>
+                <select
+                  value={logFilter}
+                  onChange={(e) => setLogFilter(e.target.value as MCPLogLevel)}
+                  className="border border-gray-200 rounded px-1 py-0.5"
+                >
+                  {LOG_LEVELS.map(level => (
+                    <option key={level} value={level}>{level}+</option>
+                  ))}
+                </select>
+              </label>
+              <label
+                className="flex items-center space-x-1"
+                title="Minimum level the MCP servers send, applied to every session with logging/setLevel"
+              >
+                <span className="text-gray-500">Server level</span>
+                <select
+                  value={serverLogLevel}
+                  onChange={(e) => socket.emit('dev:set-server-log-level', { level: e.target.value })}
+                  className="border border-gray-200 rounded px-1 py-0.5"
+                >
+                  {LOG_LEVELS.map(level => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {serverLogError && (
+              <div className="p-2 bg-red-50 text-red-700 rounded text-xs">{serverLogError}</div>
+            )}
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {visibleServerLogs.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="p-2 bg-gray-50 rounded text-xs border"
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <div className="flex items-center space-x-2">
+                      <span className={`px-1.5 py-0.5 rounded ${LOG_LEVEL_COLORS[entry.level]}`}>
+                        {entry.level}
+                      </span>
+                      <span className="font-medium">{entry.logger || entry.server}</span>
+                    </div>
+                    <span className="text-gray-500">{formatTimeAgo(new Date(entry.timestamp))}</span>
+                  </div>
+                  {entry.toolExecution && (
+                    <div className="text-gray-500 mb-1">
+                      during <span className="font-mono">{entry.toolExecution.toolName}</span>
+                    </div>
+                  )}
+                  <pre className="whitespace-pre-wrap break-words text-gray-700 font-mono">
+                    {formatLogData(entry.data)}
+                  </pre>
+                </div>
+              ))}
+              {visibleServerLogs.length === 0 && (
+                <div className="text-center text-gray-500 py-4">
+                  No server log messages
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
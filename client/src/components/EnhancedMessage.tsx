@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { User, Bot, Clock, Loader2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { User, Bot, Clock, Loader2, FileText } from 'lucide-react';
 import EnhancedToolInvocationWithPrism from './EnhancedToolInvocationWithPrism';
+import { MessageSource } from '../types/websocket-types';
 
 interface ToolCall {
   id?: string;
@@ -24,6 +26,7 @@ interface ChatMessage {
   isStreaming?: boolean;
   isThinking?: boolean;
   currentTool?: string;
+  sources?: MessageSource[];
 }
 
 interface EnhancedMessageProps {
@@ -123,6 +126,7 @@ const EnhancedMessage: React.FC<EnhancedMessageProps> = ({ message, onRetryTool
   };
 
   const hasToolCalls = message.toolCalls && message.toolCalls.length > 0;
+  const hasSources = message.sources && message.sources.length > 0;
   const pendingTools = message.toolCalls?.filter(t => t.status === 'pending').length || 0;
   const executingTools = message.toolCalls?.filter(t => t.status === 'executing').length || 0;
   const completedTools = message.toolCalls?.filter(t => t.status === 'completed').length || 0;
@@ -178,6 +182,28 @@ const EnhancedMessage: React.FC<EnhancedMessageProps> = ({ message, onRetryTool
           </div>
         )}
 
+        {/* Project document sources */}
+        {hasSources && message.role === 'assistant' && !message.isStreaming && (
+          <div className="w-full mt-3">
+            <div className="text-xs text-gray-500 mb-1.5">Sources</div>
+            <div className="flex flex-wrap gap-2">
+              {message.sources!.map(source => (
+                <Link
+                  key={source.chunkId}
+                  to={`/project/${source.projectId}/document/${source.documentId}`}
+                  title={source.excerpt}
+                  className="flex items-center gap-1.5 px-2 py-1 bg-gray-800/50 border border-gray-700/50 rounded-md text-xs text-gray-300 hover:text-white hover:border-blue-500 transition-colors"
+                >
+                  <span className="text-blue-400">[{source.index}]</span>
+                  <FileText className="w-3 h-3" />
+                  <span className="truncate max-w-[200px]">{source.documentName}</span>
+                  {source.page && <span className="text-gray-500">p. {source.page}</span>}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Tool execution summary */}
         {hasToolCalls && message.role === 'assistant' && !message.isStreaming && (
           <div className="mt-2 flex items-center gap-3 text-xs text-gray-500">
@@ -15,10 +15,12 @@ import {
   Clock,
   Copy,
   Check,
+  Database,
   Code2,
   AlertCircle
 } from 'lucide-react';
 import { clsx } from 'clsx';
+import ToolProgressBar from './tools/ToolProgressBar';
 
 // Version stamp for deployment verification
 const COMPONENT_VERSION = 'EnhancedToolInvocationWithPrism-2.1.0-FIXED';
@@ -35,6 +37,8 @@ interface ToolCall {
   status: 'pending' | 'executing' | 'completed' | 'error';
   executionTime?: number;
   error?: string;
+  progress?: number;
+  progressMessage?: string;
 }
 
 interface EnhancedToolInvocationProps {
@@ -284,9 +288,20 @@ const EnhancedToolInvocationWithPrism: React.FC<EnhancedToolInvocationProps> = (
                   {(toolCall.executionTime / 1000).toFixed(2)}s
                 </span>
               )}
+              {toolCall?.result?.cached && (
+                <span
+                  className="flex items-center gap-1 text-xs bg-purple-500/20 text-purple-300 px-1.5 py-0.5 rounded"
+                  title={toolCall.result.cachedAt ? `Cached result from ${new Date(toolCall.result.cachedAt).toLocaleTimeString()}` : 'Cached result'}
+                >
+                  <Database className="w-3 h-3" />
+                  cached
+                </span>
+              )}
             </div>
             
-            {!isExpanded && (
+            {toolCall?.status === 'executing' && (toolCall.progress !== undefined || toolCall.progressMessage) ? (
+              <ToolProgressBar progress={toolCall.progress} message={toolCall.progressMessage} />
+            ) : !isExpanded && (
               <div className="text-xs text-gray-400 truncate pr-4">
                 {getResultPreview()}
               </div>
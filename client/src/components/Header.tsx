@@ -1,9 +1,10 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Socket } from 'socket.io-client';
 import { ChevronDown, User, LogOut, Settings, MessageCircle, FolderOpen, History } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { models, getCleanModelName } from '../utils/modelUtils';
+import { ModelInfo, setKnownModels, getModelDisplayName, formatTokenCount } from '../utils/modelUtils';
+import { modelService } from '../services/models';
 
 interface HeaderProps {
   selectedModel: string;
@@ -13,11 +14,11 @@ interface HeaderProps {
   onViewChange: (view: 'chat' | 'projects') => void;
 }
 
-// Models are now imported from utils
-
 const Header: React.FC<HeaderProps> = ({ selectedModel, onModelChange, socket, view, onViewChange }) => {
   const { user, logout } = useAuth();
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [modelsError, setModelsError] = useState<string | null>(null);
   const navigate = useNavigate();
   const location = useLocation();
   
@@ -28,12 +29,40 @@ const Header: React.FC<HeaderProps> = ({ selectedModel, onModelChange, socket, v
     }
   };
 
+  // Load the models the server can actually serve, including discovered local ones
+  useEffect(() => {
+    if (!user) return;
+
+    modelService.getModels()
+      .then(serverModels => {
+        setModelsError(null);
+        if (serverModels.length === 0) return;
+        setKnownModels(serverModels);
+        setModels(serverModels);
+        if (!serverModels.some(m => m.id === selectedModel)) {
+          handleModelChange(serverModels[0].id);
+        }
+      })
+      .catch(err => setModelsError(err instanceof Error ? err.message : 'Failed to load models'));
+  }, [user]);
+
+  const providers = Array.from(new Set(models.map(m => m.provider)));
+
   const handleLogout = () => {
     logout();
     setShowUserMenu(false);
   };
 
   const currentModel = models.find(m => m.id === selectedModel);
+  const currentModelSummary = currentModel?.contextWindow
+    ? [
+        `${formatTokenCount(currentModel.contextWindow)} context`,
+        `${formatTokenCount(currentModel.maxOutputTokens || 0)} max output`,
+        currentModel.supportsTools ? 'tools' : 'no tools',
+        currentModel.supportsVision ? 'vision' : null,
+        currentModel.pricing ? `$${currentModel.pricing.inputPerMillion}/$${currentModel.pricing.outputPerMillion} per 1M tokens` : null
+      ].filter(Boolean).join(' · ')
+    : undefined;
 
   return (
     <header className="bg-surface border-b border-gray-700 px-6 py-4">
@@ -95,17 +124,30 @@ const Header: React.FC<HeaderProps> = ({ selectedModel, onModelChange, socket, v
               <select
                 value={selectedModel}
                 onChange={(e) => handleModelChange(e.target.value)}
+                title={currentModelSummary}
                 className="appearance-none bg-surface-light border border-gray-600 rounded-lg px-4 py-2 pr-8 text-white text-sm focus:outline-none focus:border-primary"
               >
-                {models.map((model) => (
-                  <option key={model.id} value={model.id}>
-                    {model.name}
-                  </option>
+                {models.length === 0 && (
+                  <option value={selectedModel}>{getModelDisplayName(selectedModel)}</option>
+                )}
+                {providers.map((provider) => (
+                  <optgroup key={provider} label={provider}>
+                    {models.filter(m => m.provider === provider).map((model) => (
+                      <option key={model.id} value={model.id}>
+                        {model.name}{model.contextWindow ? ` (${formatTokenCount(model.contextWindow)})` : ''}
+                      </option>
+                    ))}
+                  </optgroup>
                 ))}
               </select>
               <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
             </div>
           </div>
+          {modelsError && (
+            <p className="absolute right-0 mt-1 text-xs text-red-400 whitespace-nowrap">
+              Error: {modelsError}
+            </p>
+          )}
         </div>
 
         {/* Right side - Connection Status and User Menu */}
@@ -1,14 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Socket } from 'socket.io-client';
-import { Send, Loader2, Bot } from 'lucide-react';
+import { Send, Loader2, Bot, ListChecks, Paperclip, X, Square } from 'lucide-react';
 import EnhancedMessage from './EnhancedMessage';
 import StreamingMessageRenderer from './StreamingMessageRenderer';
 import DevToolsIntegration from './DevToolsIntegration';
 import ErrorBoundary from './ErrorBoundary';
 import ToolApprovalDialog from './ToolApprovalDialog';
+import PlanPreview from './tools/PlanPreview';
 import chatService, { ChatSession as ChatSessionType } from '../services/chat';
 import { useAuth } from '../contexts/AuthContext';
-import { ToolApprovalRequest, ToolApprovalResponse } from '../../../shared/src/types/mcp';
+import { ToolApprovalRequest, ToolApprovalResponse, ExecutionPlan, PlanResponse, ResourceReference } from '../../../shared/src/types/mcp';
+import { MessageSource } from '../types/websocket-types';
 
 interface ToolCall {
   id?: string;
@@ -20,6 +22,8 @@ interface ToolCall {
   error?: string;
   startTime?: Date;
   endTime?: Date;
+  progress?: number;
+  progressMessage?: string;
 }
 
 interface ChatMessage {
@@ -32,6 +36,7 @@ interface ChatMessage {
   isStreaming?: boolean;
   isThinking?: boolean;
   currentTool?: string;
+  sources?: MessageSource[];
 }
 
 interface StreamingMessage {
@@ -43,12 +48,19 @@ interface EnhancedChatInterfaceProps {
   socket: Socket | null;
   selectedModel: string;
   chatId?: string;
+  projectId?: string;
+  // MCP resources picked in the sidebar, sent with the next message
+  attachedResources?: ResourceReference[];
+  onAttachedResourcesChange?: (resources: ResourceReference[]) => void;
 }
 
 const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({ 
   socket, 
   selectedModel, 
-  chatId 
+  chatId,
+  projectId,
+  attachedResources = [],
+  onAttachedResourcesChange
 }) => {
   const { isAuthenticated } = useAuth();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -59,6 +71,8 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
   const [currentSession, setCurrentSession] = useState<ChatSessionType | null>(null);
   const [isLoadingSession, setIsLoadingSession] = useState(false);
   const [pendingApproval, setPendingApproval] = useState<ToolApprovalRequest | null>(null);
+  const [planMode, setPlanMode] = useState(false);
+  const [pendingPlan, setPendingPlan] = useState<ExecutionPlan | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -86,7 +100,8 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
         
         if (chatId) {
           session = await chatService.getSession(chatId);
-        } else {
+        } else if (!projectId) {
+          // Project chats start a new project-scoped session on the first message
           session = await chatService.getCurrentSession();
         }
 
@@ -102,7 +117,8 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
               content: msg.content,
               timestamp: new Date(msg.timestamp),
               model: msg.model || undefined,
-              toolCalls: [] // TODO: Load tool calls from database
+              toolCalls: [], // TODO: Load tool calls from database
+              sources: msg.sources || undefined
             }));
             setMessages(formattedMessages);
           } else {
@@ -119,7 +135,7 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
     };
 
     loadSession();
-  }, [isAuthenticated, chatId]);
+  }, [isAuthenticated, chatId, projectId]);
 
   // Handle tool approval response (component level scope)
   const handleToolApproval = (response: ToolApprovalResponse) => {
@@ -130,6 +146,13 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
     setPendingApproval(null);
   };
 
+  const handlePlanResponse = (response: PlanResponse) => {
+    if (socket) {
+      socket.emit('chat:plan_response', response);
+    }
+    setPendingPlan(null);
+  };
+
   // Enhanced WebSocket event handlers
   useEffect(() => {
     if (!socket) return;
@@ -232,14 +255,29 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
     const handleToolProgress = ({ 
       messageId, 
       toolName, 
-      progress 
+      progress,
+      message
     }: { 
       messageId: string; 
       toolName: string; 
-      progress: number 
+      progress?: number;
+      message?: string;
     }) => {
-      console.log('📊 Tool progress:', { messageId, toolName, progress });
-      // Update progress if needed (could add progress bar to tool invocation)
+      console.log('📊 Tool progress:', { messageId, toolName, progress, message });
+
+      setMessages(prev => prev.map(msg => {
+        if (msg.id === messageId) {
+          return {
+            ...msg,
+            toolCalls: msg.toolCalls?.map(tc => 
+              tc.name === toolName && tc.status === 'executing'
+                ? { ...tc, progress, progressMessage: message ?? tc.progressMessage }
+                : tc
+            )
+          };
+        }
+        return msg;
+      }));
     };
 
     const handleToolComplete = ({ 
@@ -289,13 +327,15 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
     const handleToolError = ({ 
       messageId, 
       toolName, 
-      error 
+      error,
+      status
     }: { 
       messageId: string; 
       toolName: string; 
-      error: string 
+      error: string;
+      status?: 'cancelled' | 'timeout';
     }) => {
-      console.error('❌ Tool failed:', { messageId, toolName, error });
+      console.error('❌ Tool failed:', { messageId, toolName, error, status });
       
       // CRITICAL: Reset loading states to allow new messages
       setIsLoading(false);
@@ -310,7 +350,7 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
                 ? { 
                     ...tc, 
                     status: 'error' as const, 
-                    error,
+                    error: status === 'cancelled' ? 'Cancelled' : status === 'timeout' ? `Timed out: ${error}` : error,
                     endTime: new Date()
                   }
                 : tc
@@ -429,6 +469,17 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
       console.log('🔐 [FRONTEND] Pending approval set!');
     };
 
+    const handlePlanProposed = (plan: ExecutionPlan) => {
+      setPendingPlan(plan);
+    };
+
+    // Cancelling a response (or an approval timeout) withdraws its open approval request
+    const handleToolDenied = ({ messageId, toolName }: { messageId: string; toolName: string }) => {
+      setPendingApproval(prev =>
+        prev && prev.messageId === messageId && prev.toolName === toolName ? null : prev
+      );
+    };
+
     // Register all event handlers
     socket.on('chat:stream_start', handleStreamStart);
     socket.on('chat:thinking', handleThinking);
@@ -456,6 +507,8 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
     });
     
     socket.on('tool:approval_required', handleToolApprovalRequired);
+    socket.on('chat:plan_proposed', handlePlanProposed);
+    socket.on('chat:tool_denied', handleToolDenied);
 
     return () => {
       socket.off('chat:stream_start', handleStreamStart);
@@ -468,6 +521,8 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
       socket.off('chat:stream_complete');
       socket.off('chat:error', handleError);
       socket.off('tool:approval_required', handleToolApprovalRequired);
+      socket.off('chat:plan_proposed', handlePlanProposed);
+      socket.off('chat:tool_denied', handleToolDenied);
     };
   }, [socket, streamingMessages]);
 
@@ -485,12 +540,17 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
     setMessages(prev => [...prev, userMessage]);
     setIsLoading(true);
     setInputValue('');
+    setPendingPlan(null);
 
     socket.emit('chat:message', {
       message: inputValue.trim(),
       model: selectedModel,
-      sessionId: currentSession?.id
+      sessionId: currentSession?.id,
+      projectId,
+      planMode,
+      resources: attachedResources.length > 0 ? attachedResources : undefined
     });
+    onAttachedResourcesChange?.([]);
 
     // Reset textarea height
     if (textareaRef.current) {
@@ -523,6 +583,15 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
     });
   };
 
+  // The server finishes the message with whatever it has, which resets the loading state
+  const handleCancel = () => {
+    if (!socket) return;
+
+    socket.emit('chat:cancel', {
+      messageId: streamingMessageId || undefined
+    });
+  };
+
   const handleRetryMessage = () => {
     if (!socket || !streamingMessageId) return;
     
@@ -566,6 +635,11 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
           ))
         )}
         
+        {/* Proposed plan awaiting review */}
+        {pendingPlan && (
+          <PlanPreview plan={pendingPlan} onRespond={handlePlanResponse} />
+        )}
+
         {/* Loading state */}
         {isLoading && !streamingMessageId && (
           <div className="flex items-center space-x-3 text-gray-400 bg-gray-800 rounded-lg p-4 border border-gray-700">
@@ -587,6 +661,28 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
 
       {/* Input */}
       <div className="border-t border-gray-700 p-6 bg-gray-800">
+        {attachedResources.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {attachedResources.map(resource => (
+              <span
+                key={`${resource.server}:${resource.uri}`}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-gray-700 border border-gray-600 text-xs text-gray-200"
+                title={`${resource.server}: ${resource.uri}`}
+              >
+                <Paperclip className="w-3 h-3 text-gray-400" />
+                {resource.name || resource.uri}
+                <button
+                  type="button"
+                  onClick={() => onAttachedResourcesChange?.(attachedResources.filter(r => r !== resource))}
+                  className="text-gray-400 hover:text-white"
+                  title="Remove attachment"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="flex space-x-4">
           <div className="flex-1 relative">
             <textarea
@@ -600,22 +696,43 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
               rows={1}
             />
           </div>
-          <button
-            type="submit"
-            disabled={!inputValue.trim() || isLoading || !!streamingMessageId || !socket?.connected}
-            className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center min-w-[60px]"
-          >
-            {isLoading || streamingMessageId ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
+          {isLoading || streamingMessageId ? (
+            <button
+              type="button"
+              onClick={handleCancel}
+              disabled={!socket?.connected}
+              className="px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center min-w-[60px]"
+              title="Stop the response and cancel running tools"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!inputValue.trim() || !socket?.connected}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center min-w-[60px]"
+            >
               <Send className="w-5 h-5" />
-            )}
-          </button>
+            </button>
+          )}
         </form>
         
         <div className="flex justify-between items-center mt-2 text-xs text-gray-500">
           <span>Press Enter to send, Shift+Enter for new line</span>
           <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={() => setPlanMode(prev => !prev)}
+              className={`flex items-center px-2 py-0.5 rounded border transition-colors ${
+                planMode
+                  ? 'bg-blue-900/40 text-blue-300 border-blue-700'
+                  : 'text-gray-400 border-gray-600 hover:text-gray-200'
+              }`}
+              title="Preview tool calls as a plan before anything runs in ServiceNow"
+            >
+              <ListChecks className="w-3 h-3 mr-1" />
+              Plan mode {planMode ? 'on' : 'off'}
+            </button>
             <span>Model: {selectedModel}</span>
             {socket?.connected ? (
               <span className="flex items-center">
@@ -649,6 +766,18 @@ const EnhancedChatInterface: React.FC<EnhancedChatInterfaceProps> = ({
             approved: false,
             reason: 'User denied'
           })}
+          // Sampling requests are one-off, there is no policy to remember them by
+          onAlwaysAllow={pendingApproval.kind !== 'sampling' ? () => handleToolApproval({
+            id: pendingApproval.id,
+            approved: true,
+            remember: 'user'
+          }) : undefined}
+          onAlwaysAllowForProject={pendingApproval.projectId && pendingApproval.kind !== 'sampling' ? () => handleToolApproval({
+            id: pendingApproval.id,
+            approved: true,
+            remember: 'project'
+          }) : undefined}
+          policyReason={pendingApproval.policyReason}
         />
       )}
 
@@ -8,6 +8,9 @@ import {
   FileText,
   Plus
 } from 'lucide-react';
+import { ResourceReference } from '../../../shared/src/types/mcp';
+import PromptActions from './mcp/PromptActions';
+import ResourceBrowser from './mcp/ResourceBrowser';
 
 const quickActions = [
   {
@@ -71,9 +74,23 @@ const templates = [
 interface SidebarProps {
   socket: Socket | null;
   onSendMessage?: (message: string) => void;
+  attachedResources?: ResourceReference[];
+  onAttachResource?: (resource: ResourceReference) => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ socket, onSendMessage }) => {
+const Sidebar: React.FC<SidebarProps> = ({ socket, onSendMessage, attachedResources = [], onAttachResource }) => {
+  const sendMessage = (message: string) => {
+    if (onSendMessage) {
+      onSendMessage(message);
+    } else if (socket) {
+      // Fallback to socket emission for backward compatibility
+      socket.emit('chat:message', {
+        message,
+        model: 'claude-sonnet-4-20250514'
+      });
+    }
+  };
+
   const handleQuickAction = (action: typeof quickActions[0]) => {
     if (onSendMessage) {
       // Send natural language message to chat instead of direct action
@@ -101,7 +118,7 @@ const Sidebar: React.FC<SidebarProps> = ({ socket, onSendMessage }) => {
   };
 
   return (
-    <div className="h-full flex flex-col">
+    <div className="h-full flex flex-col overflow-y-auto">
       {/* Quick Actions Section */}
       <div className="p-6">
         <h2 className="text-lg font-semibold text-white mb-4">Quick Actions</h2>
@@ -119,9 +136,17 @@ const Sidebar: React.FC<SidebarProps> = ({ socket, onSendMessage }) => {
               </div>
             </button>
           ))}
+          <PromptActions onSendMessage={sendMessage} />
         </div>
       </div>
 
+      {/* Resources Section */}
+      {onAttachResource && (
+        <div className="px-6 pb-6">
+          <ResourceBrowser attachedResources={attachedResources} onAttach={onAttachResource} />
+        </div>
+      )}
+
       {/* Templates Section */}
       <div className="px-6 pb-6 flex-1">
         <div className="flex items-center justify-between mb-4">
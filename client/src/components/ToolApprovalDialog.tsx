@@ -9,6 +9,8 @@ interface ToolApprovalDialogProps {
   onApprove: () => void;
   onDeny: () => void;
   onAlwaysAllow?: () => void;
+  onAlwaysAllowForProject?: () => void;
+  policyReason?: string;
 }
 
 const ToolApprovalDialog: React.FC<ToolApprovalDialogProps> = ({
@@ -18,7 +20,9 @@ const ToolApprovalDialog: React.FC<ToolApprovalDialogProps> = ({
   toolArguments,
   onApprove,
   onDeny,
-  onAlwaysAllow
+  onAlwaysAllow,
+  onAlwaysAllowForProject,
+  policyReason
 }) => {
   if (!isOpen) return null;
 
@@ -126,6 +130,10 @@ const ToolApprovalDialog: React.FC<ToolApprovalDialogProps> = ({
             )}
             
             <p className="text-sm text-gray-400">{getActionDescription()}</p>
+
+            {policyReason && (
+              <p className="text-xs text-gray-500 mt-2">Approval required by policy: {policyReason}</p>
+            )}
           </div>
 
           {/* Parameters */}
@@ -166,6 +174,15 @@ const ToolApprovalDialog: React.FC<ToolApprovalDialogProps> = ({
             </button>
             
             <div className="flex gap-2">
+              {onAlwaysAllowForProject && risk.level !== 'high' && (
+                <button
+                  onClick={onAlwaysAllowForProject}
+                  className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-700 hover:bg-gray-600 border border-gray-600 rounded-md transition-colors"
+                >
+                  Always Allow for This Project
+                </button>
+              )}
+
               {onAlwaysAllow && risk.level !== 'high' && (
                 <button
                   onClick={onAlwaysAllow}
@@ -179,7 +196,7 @@ const ToolApprovalDialog: React.FC<ToolApprovalDialogProps> = ({
                 onClick={onApprove}
                 className="px-4 py-2 text-sm font-medium text-white bg-primary hover:bg-primary-light border border-primary rounded-md transition-colors"
               >
-                Allow for This Chat
+                Allow Once
               </button>
             </div>
           </div>
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles, Loader2 } from 'lucide-react';
+import { MCPPrompt } from '../../../../shared/src/types/mcp';
+import { mcpServerService } from '../../services/mcpServers';
+
+interface PromptActionsProps {
+  onSendMessage: (message: string) => void;
+}
+
+// Prompts published by the MCP servers, shown as quick actions that ask for their arguments first
+const PromptActions: React.FC<PromptActionsProps> = ({ onSendMessage }) => {
+  const [prompts, setPrompts] = useState<MCPPrompt[]>([]);
+  const [activePrompt, setActivePrompt] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    mcpServerService.getPrompts()
+      .then(setPrompts)
+      .catch(() => setPrompts([]));
+  }, []);
+
+  const runPrompt = async (prompt: MCPPrompt, args: Record<string, string>) => {
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await mcpServerService.getPrompt(prompt.name, args);
+      // The user turns become the chat message; assistant turns are examples for the model
+      const userTexts = result.messages.filter(message => message.role === 'user').map(message => message.text);
+      const text = (userTexts.length > 0 ? userTexts : result.messages.map(message => message.text)).join('\n\n').trim();
+      if (text) {
+        onSendMessage(text);
+      }
+      setActivePrompt(null);
+      setValues({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run prompt');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleClick = (prompt: MCPPrompt) => {
+    if (!prompt.arguments || prompt.arguments.length === 0) {
+      runPrompt(prompt, {});
+      return;
+    }
+    setActivePrompt(activePrompt === prompt.name ? null : prompt.name);
+    setValues({});
+    setError(null);
+  };
+
+  if (prompts.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {prompts.map(prompt => {
+        const isActive = activePrompt === prompt.name;
+        const missingRequired = (prompt.arguments || []).some(arg => arg.required && !values[arg.name]?.trim());
+
+        return (
+          <div key={prompt.name} className="rounded-lg bg-surface-light">
+            <button
+              onClick={() => handleClick(prompt)}
+              disabled={running}
+              className="w-full flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-600 transition-colors text-left disabled:opacity-50"
+              title={prompt.name}
+            >
+              <Sparkles className="w-5 h-5 text-primary flex-shrink-0" />
+              <div className="min-w-0">
+                <div className="text-white text-sm font-medium truncate">
+                  {prompt.title || prompt.name.split(':').pop()}
+                </div>
+                <div className="text-gray-400 text-xs truncate">
+                  {prompt.description || `Prompt from ${prompt.server}`}
+                </div>
+              </div>
+            </button>
+
+            {isActive && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  runPrompt(prompt, values);
+                }}
+                className="px-3 pb-3 space-y-2"
+              >
+                {(prompt.arguments || []).map(arg => (
+                  <div key={arg.name}>
+                    <label className="block text-xs text-gray-400 mb-1">
+                      {arg.name}{arg.required && <span className="text-red-400"> *</span>}
+                    </label>
+                    <input
+                      type="text"
+                      value={values[arg.name] || ''}
+                      onChange={(e) => setValues(prev => ({ ...prev, [arg.name]: e.target.value }))}
+                      placeholder={arg.description}
+                      className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+                    />
+                  </div>
+                ))}
+                {error && <div className="text-xs text-red-400">{error}</div>}
+                <button
+                  type="submit"
+                  disabled={running || missingRequired}
+                  className="w-full flex items-center justify-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {running && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Send
+                </button>
+              </form>
+            )}
+          </div>
+        );
+      })}
+      {error && !activePrompt && <div className="text-xs text-red-400">{error}</div>}
+    </>
+  );
+};
+
+export default PromptActions;
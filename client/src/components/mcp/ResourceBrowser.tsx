@@ -0,0 +1,133 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Database, Eye, EyeOff, Paperclip, RefreshCw, Loader2 } from 'lucide-react';
+import { MCPResource, ResourceReference } from '../../../../shared/src/types/mcp';
+import { mcpServerService } from '../../services/mcpServers';
+
+interface ResourceBrowserProps {
+  attachedResources: ResourceReference[];
+  onAttach: (resource: ResourceReference) => void;
+}
+
+const PREVIEW_LIMIT = 2000;
+
+const resourceKey = (resource: { server: string; uri: string }) => `${resource.server}:${resource.uri}`;
+
+// Browse the resources the MCP servers expose and attach them to the next chat message
+const ResourceBrowser: React.FC<ResourceBrowserProps> = ({ attachedResources, onAttach }) => {
+  const [resources, setResources] = useState<MCPResource[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const [previewText, setPreviewText] = useState<string>('');
+
+  const loadResources = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setResources(await mcpServerService.getResources());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load resources');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadResources();
+  }, [loadResources]);
+
+  const togglePreview = async (resource: MCPResource) => {
+    const key = resourceKey(resource);
+    if (previewKey === key) {
+      setPreviewKey(null);
+      return;
+    }
+
+    setPreviewKey(key);
+    setPreviewText('Loading...');
+    try {
+      const contents = await mcpServerService.readResource(resource.server, resource.uri);
+      const text = contents
+        .map(content => content.text ?? `[binary ${content.mimeType || 'content'}]`)
+        .join('\n\n');
+      setPreviewText(text.length > PREVIEW_LIMIT ? `${text.substring(0, PREVIEW_LIMIT)}\n...` : text);
+    } catch (err) {
+      setPreviewText(err instanceof Error ? err.message : 'Failed to read resource');
+    }
+  };
+
+  const attachedKeys = new Set(attachedResources.map(resourceKey));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">Resources</h2>
+        <button
+          onClick={loadResources}
+          className="p-1 rounded hover:bg-surface-light"
+          title="Refresh resources"
+        >
+          {loading ? (
+            <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 text-gray-400" />
+          )}
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-red-400 mb-2">{error}</div>}
+
+      {!loading && resources.length === 0 && !error && (
+        <div className="text-xs text-gray-500">No resources offered by the connected MCP servers</div>
+      )}
+
+      <div className="space-y-2">
+        {resources.map(resource => {
+          const key = resourceKey(resource);
+          const attached = attachedKeys.has(key);
+
+          return (
+            <div key={key} className="p-3 rounded-lg bg-surface-light">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex items-start space-x-2 min-w-0">
+                  <Database className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+                  <div className="min-w-0">
+                    <div className="text-white text-sm font-medium truncate">{resource.name}</div>
+                    <div className="text-gray-400 text-xs truncate" title={resource.uri}>
+                      {resource.description || resource.uri}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => togglePreview(resource)}
+                    className="p-1 text-gray-400 hover:text-white rounded"
+                    title={previewKey === key ? 'Hide preview' : 'Preview'}
+                  >
+                    {previewKey === key ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => onAttach({ server: resource.server, uri: resource.uri, name: resource.name })}
+                    disabled={attached}
+                    className="p-1 text-gray-400 hover:text-white rounded disabled:text-blue-400 disabled:cursor-default"
+                    title={attached ? 'Attached to the next message' : 'Attach to the next message'}
+                  >
+                    <Paperclip className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {previewKey === key && (
+                <pre className="mt-2 bg-gray-800 rounded px-2 py-1 font-mono text-xs text-gray-300 overflow-auto max-h-48 whitespace-pre-wrap">
+                  {previewText}
+                </pre>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ResourceBrowser;
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { useProjects } from '../../contexts/ProjectContext';
-import { projectService, Document } from '../../services/projects';
+import { projectService, Document, ChunkingStrategy } from '../../services/projects';
 import { Upload, FileText, Loader, AlertCircle, Trash2, Download } from 'lucide-react';
 
 export const DocumentPanel: React.FC = () => {
@@ -10,8 +10,29 @@ export const DocumentPanel: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dragOver, setDragOver] = useState(false);
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategy>('auto');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  React.useEffect(() => {
+    setChunkingStrategy(currentProject?.settings?.chunking?.strategy || 'auto');
+  }, [currentProject]);
+
+  const handleChunkingChange = async (strategy: ChunkingStrategy) => {
+    if (!currentProject) return;
+
+    const previous = chunkingStrategy;
+    setChunkingStrategy(strategy);
+    try {
+      await projectService.updateProject(currentProject.id, {
+        settings: { chunking: { ...currentProject.settings?.chunking, strategy } },
+      });
+      await refreshProjects();
+    } catch (err) {
+      setChunkingStrategy(previous);
+      setError(err instanceof Error ? err.message : 'Failed to update chunking strategy');
+    }
+  };
+
   const loadDocuments = useCallback(async () => {
     if (!currentProject) return;
 
@@ -154,6 +175,24 @@ export const DocumentPanel: React.FC = () => {
           </button>
         </div>
 
+        <div className="flex items-center space-x-2 mb-4 text-sm">
+          <label htmlFor="chunking-strategy" className="text-gray-400">Chunking</label>
+          <select
+            id="chunking-strategy"
+            value={chunkingStrategy}
+            onChange={(e) => handleChunkingChange(e.target.value as ChunkingStrategy)}
+            className="bg-gray-800 text-gray-200 border border-gray-600 rounded px-2 py-1 focus:border-blue-500 focus:outline-none"
+            title="Applies to documents uploaded after the change"
+          >
+            <option value="auto">Auto (by file type)</option>
+            <option value="fixed">Fixed size</option>
+            <option value="markdown">Markdown headings</option>
+            <option value="json">JSON paths</option>
+            <option value="code">Preserve code blocks</option>
+            <option value="token">Token count</option>
+          </select>
+        </div>
+
         {error && (
           <div className="text-red-400 text-sm p-3 bg-red-900/20 rounded-lg flex items-center space-x-2">
             <AlertCircle className="w-4 h-4" />
@@ -165,7 +204,7 @@ export const DocumentPanel: React.FC = () => {
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".txt,.md,.json"
+          accept=".txt,.md,.json,.pdf,.docx,.csv,.html,.htm"
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -193,7 +232,7 @@ export const DocumentPanel: React.FC = () => {
               Drag and drop files here, or click the upload button
             </p>
             <p className="text-xs text-gray-500">
-              Supported formats: .txt, .md, .json
+              Supported formats: .txt, .md, .json, .pdf, .docx, .csv, .html
             </p>
           </div>
         ) : (
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Server } from 'lucide-react';
+import { useProjects } from '../../contexts/ProjectContext';
+import { projectService } from '../../services/projects';
+import { mcpServerService, McpServerInfo } from '../../services/mcpServers';
+
+// Lets a project choose which MCP servers its chats may call
+export const McpServerToggles: React.FC = () => {
+  const { currentProject, selectProject } = useProjects();
+  const [servers, setServers] = useState<McpServerInfo[]>([]);
+  const [disabled, setDisabled] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    mcpServerService.getServers()
+      .then(setServers)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load MCP servers'));
+  }, []);
+
+  useEffect(() => {
+    setDisabled(currentProject?.settings?.disabledMcpServers || []);
+  }, [currentProject]);
+
+  const toggleServer = async (name: string) => {
+    if (!currentProject || saving) return;
+
+    const previous = disabled;
+    const next = disabled.includes(name)
+      ? disabled.filter(server => server !== name)
+      : [...disabled, name];
+
+    setDisabled(next);
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await projectService.updateProject(currentProject.id, {
+        settings: { disabledMcpServers: next },
+      });
+      selectProject(updated);
+    } catch (err) {
+      setDisabled(previous);
+      setError(err instanceof Error ? err.message : 'Failed to update MCP servers');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (servers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <Server className="w-4 h-4 text-gray-400" />
+      {servers.map(server => {
+        const active = server.enabled && !disabled.includes(server.name);
+        return (
+          <button
+            key={server.name}
+            onClick={() => toggleServer(server.name)}
+            disabled={!server.enabled || saving}
+            title={!server.enabled
+              ? `${server.name} is disabled in the server configuration`
+              : `${server.description || server.name} (${server.transport}) - click to ${active ? 'disable' : 'enable'} for this project`}
+            className={`px-2 py-0.5 rounded text-xs border transition-colors disabled:cursor-not-allowed ${
+              active
+                ? 'bg-blue-900/30 text-blue-300 border-blue-800/50 hover:bg-blue-900/50'
+                : 'bg-gray-800 text-gray-500 border-gray-700 line-through hover:text-gray-300'
+            }`}
+          >
+            {server.name}
+          </button>
+        );
+      })}
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, Eye, PenLine, Trash2, Undo2, Play, X, ListChecks } from 'lucide-react';
+import { ExecutionPlan, PlanResponse } from '../../../../shared/src/types/mcp';
+
+interface PlanPreviewProps {
+  plan: ExecutionPlan;
+  onRespond: (response: PlanResponse) => void;
+}
+
+interface StepDraft {
+  argumentsText: string;
+  dropped: boolean;
+  parseError?: string;
+}
+
+const formatArguments = (args: any) => JSON.stringify(args ?? {}, null, 2);
+
+const PlanPreview: React.FC<PlanPreviewProps> = ({ plan, onRespond }) => {
+  const [drafts, setDrafts] = useState<Record<string, StepDraft>>({});
+  const [editingStepId, setEditingStepId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(plan.steps.map(step => [
+      step.id,
+      { argumentsText: formatArguments(step.arguments), dropped: false }
+    ])));
+    setEditingStepId(null);
+  }, [plan]);
+
+  const updateDraft = (stepId: string, changes: Partial<StepDraft>) => {
+    setDrafts(prev => ({ ...prev, [stepId]: { ...prev[stepId], ...changes } }));
+  };
+
+  const handleArgumentsChange = (stepId: string, text: string) => {
+    let parseError: string | undefined;
+    try {
+      const parsed = JSON.parse(text);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        parseError = 'Arguments must be a JSON object';
+      }
+    } catch (error) {
+      parseError = error instanceof Error ? error.message : 'Invalid JSON';
+    }
+    updateDraft(stepId, { argumentsText: text, parseError });
+  };
+
+  const keptSteps = plan.steps.filter(step => !drafts[step.id]?.dropped);
+  const writeCount = keptSteps.filter(step => step.operation === 'write').length;
+  const hasErrors = keptSteps.some(step => drafts[step.id]?.parseError);
+  const isEdited = plan.steps.some(step =>
+    drafts[step.id]?.dropped || drafts[step.id]?.argumentsText !== formatArguments(step.arguments)
+  );
+
+  const handleExecute = () => {
+    onRespond({
+      planId: plan.id,
+      approved: true,
+      steps: keptSteps.map(step => ({
+        id: step.id,
+        arguments: JSON.parse(drafts[step.id].argumentsText)
+      }))
+    });
+  };
+
+  return (
+    <div className="bg-gray-800 border border-blue-800/60 rounded-lg p-4 space-y-3">
+      {/* Plan Header */}
+      <div className="flex items-center gap-2 text-sm">
+        <ListChecks className="w-4 h-4 text-blue-400" />
+        <span className="font-medium text-blue-300">
+          Proposed plan ({plan.steps.length} operation{plan.steps.length === 1 ? '' : 's'})
+        </span>
+        <span className="text-gray-500 text-xs">
+          {writeCount} change{writeCount === 1 ? '' : 's'} to ServiceNow, nothing has run yet
+        </span>
+      </div>
+
+      {/* Plan Steps */}
+      <div className="space-y-2">
+        {plan.steps.map((step, index) => {
+          const draft = drafts[step.id];
+          if (!draft) return null;
+          const isEditing = editingStepId === step.id;
+
+          return (
+            <div key={step.id}>
+              <div className={`rounded-md border p-3 transition-opacity ${
+                draft.dropped ? 'border-gray-700 bg-gray-900/40 opacity-50' : 'border-gray-700 bg-gray-900'
+              }`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-xs text-gray-500">{index + 1}.</span>
+                    <span className={`font-mono text-sm truncate ${draft.dropped ? 'line-through text-gray-500' : 'text-white'}`}>
+                      {step.toolName}
+                    </span>
+                    <span className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-xs border ${
+                      step.operation === 'write'
+                        ? 'bg-orange-900/30 text-orange-300 border-orange-800/50'
+                        : 'bg-green-900/30 text-green-300 border-green-800/50'
+                    }`}>
+                      {step.operation === 'write' ? <PenLine className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                      {step.operation}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {!draft.dropped && (
+                      <button
+                        onClick={() => setEditingStepId(isEditing ? null : step.id)}
+                        className="px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                      >
+                        {isEditing ? 'Done' : 'Edit'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => updateDraft(step.id, { dropped: !draft.dropped })}
+                      className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                      title={draft.dropped ? 'Restore step' : 'Drop step'}
+                    >
+                      {draft.dropped ? <Undo2 className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+
+                {!draft.dropped && (
+                  isEditing ? (
+                    <div className="mt-2">
+                      <textarea
+                        value={draft.argumentsText}
+                        onChange={(e) => handleArgumentsChange(step.id, e.target.value)}
+                        className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 font-mono text-xs text-gray-200 focus:outline-none focus:border-blue-500 min-h-[120px]"
+                        spellCheck={false}
+                      />
+                      {draft.parseError && (
+                        <div className="text-xs text-red-400 mt-1">{draft.parseError}</div>
+                      )}
+                    </div>
+                  ) : (
+                    <pre className="mt-2 bg-gray-800 rounded px-2 py-1 font-mono text-xs text-gray-300 overflow-x-auto max-h-48">
+                      {draft.argumentsText}
+                    </pre>
+                  )
+                )}
+              </div>
+
+              {/* Connector */}
+              {index < plan.steps.length - 1 && (
+                <div className="flex items-center justify-center my-1">
+                  <ArrowDown className="w-4 h-4 text-gray-500" />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Plan Actions */}
+      <div className="flex items-center justify-end gap-2 pt-1">
+        <button
+          onClick={() => onRespond({ planId: plan.id, approved: false })}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          onClick={isEdited ? handleExecute : () => onRespond({ planId: plan.id, approved: true })}
+          disabled={hasErrors || keptSteps.length === 0}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Play className="w-4 h-4" />
+          {isEdited ? `Execute ${keptSteps.length} step${keptSteps.length === 1 ? '' : 's'}` : 'Approve all'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlanPreview;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { clsx } from 'clsx';
+
+interface ToolProgressBarProps {
+  // 0-100; undefined when the MCP server reports progress without a total
+  progress?: number;
+  message?: string;
+}
+
+const ToolProgressBar: React.FC<ToolProgressBarProps> = ({ progress, message }) => {
+  const indeterminate = progress === undefined;
+
+  return (
+    <div className="mt-1.5 pr-4">
+      <div className="h-1.5 w-full rounded-full bg-gray-800 overflow-hidden">
+        <div
+          className={clsx(
+            'h-full rounded-full bg-blue-500 transition-all duration-300',
+            indeterminate && 'w-1/3 animate-pulse'
+          )}
+          style={indeterminate ? undefined : { width: `${progress}%` }}
+        />
+      </div>
+      <div className="mt-1 flex items-center justify-between gap-2 text-xs text-gray-400">
+        <span className="truncate">{message || 'Working…'}</span>
+        {!indeterminate && <span className="shrink-0 tabular-nums">{progress}%</span>}
+      </div>
+    </div>
+  );
+};
+
+export default ToolProgressBar;
@@ -1,3 +1,5 @@
+import { MessageSource } from '../types/websocket-types';
+
 const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:3001';
 
 export interface ChatMessage {
@@ -7,6 +9,7 @@ export interface ChatMessage {
   timestamp: Date;
   toolCalls?: any[];
   model?: string;
+  sources?: MessageSource[];
 }
 
 export interface ChatSession {
@@ -0,0 +1,79 @@
+import { authFetch } from './auth';
+import { MCPResource, MCPResourceContent, MCPPrompt, MCPPromptResult } from '../../../shared/src/types/mcp';
+
+export interface McpServerInfo {
+  name: string;
+  description?: string;
+  transport: 'stdio' | 'sse' | 'streamable-http';
+  // False when switched off for every project in the server config
+  enabled: boolean;
+}
+
+export class McpServerService {
+  async getServers(): Promise<McpServerInfo[]> {
+    const response = await authFetch('/api/mcp-servers');
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch MCP servers');
+    }
+
+    return response.json();
+  }
+
+  async getResources(projectId?: string): Promise<MCPResource[]> {
+    const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+    const response = await authFetch(`/api/mcp-servers/resources${query}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch MCP resources');
+    }
+
+    return response.json();
+  }
+
+  async readResource(server: string, uri: string, projectId?: string): Promise<MCPResourceContent[]> {
+    const params = new URLSearchParams({ server, uri, ...(projectId && { projectId }) });
+    const response = await authFetch(`/api/mcp-servers/resources/read?${params}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to read MCP resource');
+    }
+
+    const data = await response.json();
+    return data.contents;
+  }
+
+  async getPrompts(projectId?: string): Promise<MCPPrompt[]> {
+    const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+    const response = await authFetch(`/api/mcp-servers/prompts${query}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch MCP prompts');
+    }
+
+    return response.json();
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}, projectId?: string): Promise<MCPPromptResult> {
+    const response = await authFetch('/api/mcp-servers/prompts/get', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name, arguments: args, projectId }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to get MCP prompt');
+    }
+
+    return response.json();
+  }
+}
+
+export const mcpServerService = new McpServerService();
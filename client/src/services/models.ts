@@ -0,0 +1,17 @@
+import { authFetch } from './auth';
+import { ModelInfo } from '../utils/modelUtils';
+
+export class ModelService {
+  async getModels(refresh = false): Promise<ModelInfo[]> {
+    const response = await authFetch(`/api/models${refresh ? '?refresh=true' : ''}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch models');
+    }
+
+    return response.json();
+  }
+}
+
+export const modelService = new ModelService();
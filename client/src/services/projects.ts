@@ -5,6 +5,7 @@ export interface Project {
   userId: string;
   name: string;
   description?: string;
+  settings?: ProjectSettings;
   createdAt: string;
   updatedAt: string;
   documents?: Document[];
@@ -15,6 +16,18 @@ export interface Project {
   };
 }
 
+export type ChunkingStrategy = 'auto' | 'fixed' | 'markdown' | 'json' | 'code' | 'token';
+
+export interface ProjectSettings {
+  chunking?: {
+    strategy?: ChunkingStrategy;
+    chunkSize?: number;
+    overlap?: number;
+  };
+  // MCP servers whose tools this project's chats can't use
+  disabledMcpServers?: string[];
+}
+
 export interface Document {
   id: string;
   projectId: string;
@@ -47,6 +60,7 @@ export interface CreateProjectData {
 export interface UpdateProjectData {
   name?: string;
   description?: string;
+  settings?: ProjectSettings;
 }
 
 export interface DocumentChunk {
@@ -54,7 +68,8 @@ export interface DocumentChunk {
   documentId: string;
   content: string;
   chunkIndex: number;
-  embedding?: string;
+  metadata?: Record<string, any>;
+  score: number;
   createdAt: string;
   document: {
     originalName: string;
@@ -185,6 +200,19 @@ export class ProjectService {
 
     return response.json();
   }
+
+  async backfillEmbeddings(projectId: string): Promise<{ updated: number }> {
+    const response = await authFetch(`/api/documents/${projectId}/embeddings/backfill`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to backfill embeddings');
+    }
+
+    return response.json();
+  }
 }
 
 export const projectService = new ProjectService();
\ No newline at end of file
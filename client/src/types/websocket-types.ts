@@ -1,5 +1,5 @@
 // Shared WebSocket event types for ServiceNow MCP WebApp
-import { ToolApprovalRequest, ToolApprovalResponse, ToolExecutionStatus } from '../../../shared/src/types/mcp';
+import { ToolApprovalRequest, ToolApprovalResponse, ToolExecutionStatus, ExecutionPlan, PlanResponse } from '../../../shared/src/types/mcp';
 
 export interface ToolCall {
   id?: string;
@@ -11,6 +11,9 @@ export interface ToolCall {
   error?: string;
   startTime?: Date;
   endTime?: Date;
+  // Latest notifications/progress from the MCP server while executing
+  progress?: number;
+  progressMessage?: string;
 }
 
 export interface ChatMessage {
@@ -23,6 +26,21 @@ export interface ChatMessage {
   isStreaming?: boolean;
   isThinking?: boolean;
   currentTool?: string;
+  sources?: MessageSource[];
+}
+
+// Project document excerpt the assistant was grounded on
+export interface MessageSource {
+  index: number;
+  projectId: string;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  chunkIndex: number;
+  page?: number;
+  section?: string;
+  score: number;
+  excerpt: string;
 }
 
 // Client to Server Events
@@ -32,11 +50,17 @@ export interface ClientToServerEvents {
     message: string;
     model: string;
     sessionId?: string;
+    projectId?: string;
+    planMode?: boolean; // Propose tool calls as a plan instead of running them
+    resources?: Array<{ server: string; uri: string; name?: string }>; // MCP resources attached as context
   }) => void;
 
   // Tool approval events
   'tool:approval_response': (data: ToolApprovalResponse) => void;
 
+  // Plan mode events
+  'chat:plan_response': (data: PlanResponse) => void;
+
   // Tool retry events
   'chat:retry_tool': (data: {
     toolCall: {
@@ -51,6 +75,11 @@ export interface ClientToServerEvents {
     messageId: string;
   }) => void;
 
+  // Stop the response in progress: the LLM stream, running tools and pending approvals
+  'chat:cancel': (data: {
+    messageId?: string; // Every response in progress on this socket when omitted
+  }) => void;
+
   // Connection events
   'disconnect': () => void;
   'connect': () => void;
@@ -75,6 +104,17 @@ export interface ServerToClientEvents {
   // Tool approval events
   'tool:approval_required': (data: ToolApprovalRequest) => void;
 
+  // Plan mode events
+  'chat:plan_proposed': (data: ExecutionPlan) => void;
+
+  'chat:plan_complete': (data: {
+    planId: string;
+    messageId: string;
+    executed: number;
+    dropped: number;
+    failed: number;
+  }) => void;
+
   // Tool execution events
   'chat:tool_start': (data: {
     messageId: string;
@@ -85,7 +125,8 @@ export interface ServerToClientEvents {
   'chat:tool_progress': (data: {
     messageId: string;
     toolName: string;
-    progress: number; // 0-100
+    progress?: number; // 0-100, absent when the MCP server doesn't report a total
+    message?: string;
   }) => void;
 
   'chat:tool_complete': (data: {
@@ -99,6 +140,7 @@ export interface ServerToClientEvents {
     messageId: string;
     toolName: string;
     error: string;
+    status?: 'cancelled' | 'timeout'; // Set when the tool was stopped rather than failing
   }) => void;
 
   'chat:tool_denied': (data: {
@@ -113,11 +155,21 @@ export interface ServerToClientEvents {
     chunk: string;
   }) => void;
 
+  // An MCP server changed its tool list (notifications/tools/list_changed)
+  'tools:updated': (data: {
+    tools: Array<{ name: string; description?: string }>;
+    count: number;
+    updatedAt: string;
+  }) => void;
+
   // Error events
   'chat:error': (data: {
     message: string;
     error: string;
     messageId?: string;
+    // e.g. TOKEN_QUOTA_EXCEEDED, with quota: { period, limit, used, resetsAt }
+    code?: string;
+    quota?: { period: string; limit: number; used: number; resetsAt: string };
   }) => void;
 
   // Legacy events (for backward compatibility)
@@ -1,39 +1,60 @@
+// Mirrors the server's model registry (GET /api/models)
 export interface ModelInfo {
   id: string;
   name: string;
   provider: string;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  supportsTools?: boolean;
+  supportsVision?: boolean;
+  pricing?: {
+    inputPerMillion: number;
+    outputPerMillion: number;
+  };
 }
 
-export const models: ModelInfo[] = [
-  { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', provider: 'Anthropic' },
-  { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', provider: 'Anthropic' },
-  { id: 'claude-3-7-sonnet-20250219', name: 'Claude Sonnet 3.7', provider: 'Anthropic' },
-  { id: 'claude-3-5-haiku-20241022', name: 'Claude Haiku 3.5', provider: 'Anthropic' },
-  // Add more models as needed
-  { id: 'gpt-4', name: 'GPT-4', provider: 'OpenAI' },
-  { id: 'gpt-3.5-turbo', name: 'GPT-3.5', provider: 'OpenAI' },
-  { id: 'o4-mini', name: 'O4-Mini', provider: 'OpenAI' },
-];
+let knownModels: ModelInfo[] = [];
+
+/**
+ * Remember the models reported by the server so lookups work anywhere in the app
+ */
+export function setKnownModels(serverModels: ModelInfo[]): void {
+  knownModels = serverModels;
+}
+
+/**
+ * Format a token count for display, e.g. 200000 -> "200K"
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1000000) return `${Math.round(tokens / 100000) / 10}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}K`;
+  return String(tokens);
+}
+
+function findModel(modelId: string): ModelInfo | undefined {
+  return knownModels.find(m => m.id === modelId);
+}
 
 /**
  * Get human-readable name for a model ID
  */
 export function getModelDisplayName(modelId: string): string {
-  const model = models.find(m => m.id === modelId);
-  return model ? model.name : modelId;
+  const model = findModel(modelId);
+  if (model) return model.name;
+  return modelId.startsWith('local:') ? `${modelId.slice('local:'.length)} (local)` : modelId;
 }
 
 /**
  * Get model info including provider
  */
 export function getModelInfo(modelId: string): ModelInfo | null {
-  return models.find(m => m.id === modelId) || null;
+  return findModel(modelId) || null;
 }
 
 /**
  * Get clean model name without provider suffix for dropdowns
  */
 export function getCleanModelName(modelId: string): string {
-  const model = models.find(m => m.id === modelId);
+  const model = findModel(modelId);
   return model ? model.name : modelId;
 }
\ No newline at end of file
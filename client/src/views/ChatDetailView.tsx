@@ -1,9 +1,10 @@
-import React, { useEffect } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useParams, useOutletContext } from 'react-router-dom';
 import Sidebar from '../components/Sidebar';
 import EnhancedChatInterface from '../components/NewEnhancedChatInterface';
 import ActivityPanel from '../components/ActivityPanel';
 import { Socket } from 'socket.io-client';
+import { ResourceReference } from '../../../shared/src/types/mcp';
 
 interface OutletContext {
   socket: Socket | null;
@@ -13,6 +14,13 @@ interface OutletContext {
 function ChatDetailView() {
   const { chatId } = useParams();
   const { socket, selectedModel } = useOutletContext<OutletContext>();
+  const [attachedResources, setAttachedResources] = useState<ResourceReference[]>([]);
+
+  const handleAttachResource = (resource: ResourceReference) => {
+    setAttachedResources(current =>
+      current.some(r => r.server === resource.server && r.uri === resource.uri) ? current : [...current, resource]
+    );
+  };
 
   useEffect(() => {
     // TODO: Load chat history for this chatId
@@ -23,7 +31,11 @@ function ChatDetailView() {
     <>
       {/* Left sidebar - Quick Actions */}
       <div className="w-80 bg-surface border-r border-gray-700 flex-shrink-0">
-        <Sidebar socket={socket} />
+        <Sidebar
+          socket={socket}
+          attachedResources={attachedResources}
+          onAttachResource={handleAttachResource}
+        />
       </div>
       
       {/* Center - Enhanced Chat Interface */}
@@ -31,6 +43,8 @@ function ChatDetailView() {
         <EnhancedChatInterface 
           socket={socket}
           selectedModel={selectedModel}
+          attachedResources={attachedResources}
+          onAttachedResourcesChange={setAttachedResources}
           chatId={chatId}
         />
       </div>
@@ -1,10 +1,11 @@
-import React, { useRef } from 'react';
+import React, { useState, useRef } from 'react';
 import { useOutletContext } from 'react-router-dom';
 import Sidebar from '../components/Sidebar';
 import EnhancedChatInterface from '../components/NewEnhancedChatInterface';
 import ActivityPanel from '../components/ActivityPanel';
 import DebugStatusPanel from '../components/DebugStatusPanel';
 import { Socket } from 'socket.io-client';
+import { ResourceReference } from '../../../shared/src/types/mcp';
 
 interface OutletContext {
   socket: Socket | null;
@@ -14,6 +15,13 @@ interface OutletContext {
 function ChatView() {
   const { socket, selectedModel } = useOutletContext<OutletContext>();
   const chatInterfaceRef = useRef<any>(null);
+  const [attachedResources, setAttachedResources] = useState<ResourceReference[]>([]);
+
+  const handleAttachResource = (resource: ResourceReference) => {
+    setAttachedResources(current =>
+      current.some(r => r.server === resource.server && r.uri === resource.uri) ? current : [...current, resource]
+    );
+  };
 
   const handleSidebarMessage = (message: string) => {
     if (socket) {
@@ -28,7 +36,12 @@ function ChatView() {
     <>
       {/* Left sidebar - Quick Actions */}
       <div className="w-80 bg-surface border-r border-gray-700 flex-shrink-0">
-        <Sidebar socket={socket} onSendMessage={handleSidebarMessage} />
+        <Sidebar
+          socket={socket}
+          onSendMessage={handleSidebarMessage}
+          attachedResources={attachedResources}
+          onAttachResource={handleAttachResource}
+        />
       </div>
       
       {/* Center - Enhanced Chat Interface */}
@@ -36,6 +49,8 @@ function ChatView() {
         <EnhancedChatInterface 
           socket={socket}
           selectedModel={selectedModel}
+          attachedResources={attachedResources}
+          onAttachedResourcesChange={setAttachedResources}
         />
       </div>
       
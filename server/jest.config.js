@@ -0,0 +1,11 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    // Type errors are the tsc gate's job; tests only need the code transpiled
+    '^.+\\.ts$': ['ts-jest', { isolatedModules: true }]
+  }
+};
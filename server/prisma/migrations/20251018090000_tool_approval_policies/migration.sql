@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."ApprovalAction" AS ENUM ('ALLOW', 'DENY', 'ASK');
+
+-- CreateTable
+CREATE TABLE "public"."tool_approval_policies" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "toolPattern" TEXT NOT NULL,
+    "action" "public"."ApprovalAction" NOT NULL,
+    "conditions" JSONB,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "description" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tool_approval_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tool_approval_policies_userId_projectId_idx" ON "public"."tool_approval_policies"("userId", "projectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."tool_approval_policies" ADD CONSTRAINT "tool_approval_policies_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."tool_approval_policies" ADD CONSTRAINT "tool_approval_policies_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."mcp_sampling_usage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chatSessionId" TEXT,
+    "messageId" TEXT,
+    "server" TEXT NOT NULL,
+    "toolName" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mcp_sampling_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "mcp_sampling_usage_userId_createdAt_idx" ON "public"."mcp_sampling_usage"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."mcp_sampling_usage" ADD CONSTRAINT "mcp_sampling_usage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "public"."TokenUsageSource" AS ENUM ('CHAT', 'SAMPLING');
+
+-- CreateEnum
+CREATE TYPE "public"."QuotaPeriod" AS ENUM ('DAILY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "cachedTokens" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "completionTokens" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "promptTokens" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."token_usage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "chatSessionId" TEXT,
+    "messageId" TEXT,
+    "source" "public"."TokenUsageSource" NOT NULL DEFAULT 'CHAT',
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "cachedTokens" INTEGER NOT NULL DEFAULT 0,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "token_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."token_quotas" (
+    "id" TEXT NOT NULL,
+    "role" "public"."Role" NOT NULL,
+    "period" "public"."QuotaPeriod" NOT NULL,
+    "limit" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "token_quotas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "token_usage_userId_createdAt_idx" ON "public"."token_usage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "token_usage_projectId_createdAt_idx" ON "public"."token_usage"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "token_quotas_role_period_key" ON "public"."token_quotas"("role", "period");
+
+-- AddForeignKey
+ALTER TABLE "public"."token_usage" ADD CONSTRAINT "token_usage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
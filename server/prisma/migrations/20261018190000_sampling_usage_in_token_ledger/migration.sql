@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "public"."token_usage" ADD COLUMN     "server" TEXT,
+ADD COLUMN     "toolName" TEXT;
+
+-- Sampling calls were booked in both tables; keep which server and tool asked
+UPDATE "public"."token_usage" AS t
+SET "server" = s."server", "toolName" = s."toolName"
+FROM "public"."mcp_sampling_usage" AS s
+WHERE t."source" = 'SAMPLING'
+  AND t."userId" = s."userId"
+  AND t."messageId" IS NOT DISTINCT FROM s."messageId"
+  AND t."model" = s."model"
+  AND t."totalTokens" = s."totalTokens";
+
+-- DropForeignKey
+ALTER TABLE "public"."mcp_sampling_usage" DROP CONSTRAINT "mcp_sampling_usage_userId_fkey";
+
+-- DropTable
+DROP TABLE "public"."mcp_sampling_usage";
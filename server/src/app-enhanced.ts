@@ -18,10 +18,12 @@ import {
 } from './middleware/rate-limiter';
 
 // Import services
-import { getEnhancedMCPClient } from './mcp/enhanced-mcp-client';
+import { getEnhancedMCPClient, MCPTool } from './mcp/enhanced-mcp-client';
 import { initializeQueues, shutdownQueues } from './queues';
 import { createLogger } from './utils/logger';
 import { MCPParameterTransformer } from './mcp/mcp-parameter-transformer';
+import { parameterRules } from './mcp/parameter-rules';
+import { toolResultCache } from './mcp/tool-result-cache';
 import { DeploymentVerifier } from './utils/deployment-verification';
 
 // Import routes
@@ -30,10 +32,16 @@ import chatRoutes from './routes/chats';
 import projectRoutes from './routes/projects';
 import activityRoutes from './routes/activity';
 import documentRoutes from './routes/documents';
+import toolPolicyRoutes from './routes/tool-policies';
+import modelRoutes from './routes/models';
+import usageRoutes from './routes/usage';
+import { createMcpServerRoutes } from './routes/mcp-servers';
+import parameterRuleRoutes from './routes/parameter-rules';
 import testMcpDirectRoutes from './routes/test-mcp-direct';
 
 // Import WebSocket handlers
-import { setupEnhancedChatHandlers } from './websocket/enhanced-chat-handler';
+import { setupEnhancedChatHandlers, SocketWithUser } from './websocket/enhanced-chat-handler';
+import { forwardServerLogs, setupServerLogHandlers } from './websocket/server-log-handlers';
 import { setupEnhancedStreamHandlers } from './websocket/enhanced-stream-handler';
 
 // Load environment variables
@@ -158,6 +166,11 @@ app.use('/api/chats', authenticate, apiRateLimiter, chatRoutes);
 app.use('/api/projects', authenticate, apiRateLimiter, projectRoutes);
 app.use('/api/activity', authenticate, apiRateLimiter, activityRoutes);
 app.use('/api/documents', authenticate, apiRateLimiter, documentRoutes);
+app.use('/api/tool-policies', authenticate, apiRateLimiter, toolPolicyRoutes);
+app.use('/api/models', authenticate, apiRateLimiter, modelRoutes);
+app.use('/api/usage', authenticate, apiRateLimiter, usageRoutes);
+app.use('/api/mcp-servers', authenticate, apiRateLimiter, createMcpServerRoutes(getEnhancedMCPClient()));
+app.use('/api/admin/parameter-rules', authenticate, authorize('ADMIN'), parameterRuleRoutes);
 
 // Test routes (no auth required for debugging)
 app.use('/api/test', testMcpDirectRoutes);
@@ -181,6 +194,7 @@ app.get('/api/admin/stats', authenticate, authorize('ADMIN'), async (req, res) =
       messages: messageCount,
       toolExecutions: toolExecutionCount,
       mcpPool: poolStats,
+      toolCache: toolResultCache.getStats(),
     });
   } catch (error) {
     logger.error('Failed to get admin stats:', error);
@@ -227,9 +241,13 @@ io.use(async (socket, next) => {
   }
 });
 
+// MCP server logs for the developer tools panel
+forwardServerLogs(io);
+
 // Socket.IO connection handling
-io.on('connection', (socket) => {
-  const userId = (socket as any).userId;
+io.on('connection', (connectedSocket) => {
+  const socket = connectedSocket as SocketWithUser;
+  const userId = socket.userId;
   logger.info(`User ${userId} connected via WebSocket`);
 
   // Join user-specific room
@@ -238,6 +256,7 @@ io.on('connection', (socket) => {
   // Setup handlers
   setupEnhancedChatHandlers(io, socket);
   setupEnhancedStreamHandlers(io, socket);
+  setupServerLogHandlers(socket, socket.userRole === 'ADMIN');
 
   socket.on('disconnect', () => {
     logger.info(`User ${userId} disconnected`);
@@ -284,6 +303,7 @@ async function gracefulShutdown() {
 
     // Close Redis connections
     await redisClient.quit();
+    await toolResultCache.close();
 
     // Disconnect Prisma
     await prisma.$disconnect();
@@ -328,8 +348,19 @@ async function startServer() {
       console.log('❌ [CRITICAL] Deployment verification failed - check logs for details');
     }
     
+    // A broken rules file should stop startup, not the first tool call
+    parameterRules.initialize();
+
     // Initialize MCP client with connection pool
     const mcpClient = getEnhancedMCPClient();
+    // MCP servers can add or remove tools at runtime
+    mcpClient.on('toolsUpdated', (tools: MCPTool[]) => {
+      io.emit('tools:updated', {
+        tools: tools.map(tool => ({ name: tool.name, description: tool.description })),
+        count: tools.length,
+        updatedAt: new Date().toISOString()
+      });
+    });
     await mcpClient.initialize();
 
     // Add startup diagnostics
@@ -3,18 +3,26 @@ import { createServer } from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { MCPClientManager } from './mcp/mcp-client';
+import { MCPClientManager, MCPTool } from './mcp/mcp-client';
 import { ChatHandler } from './websocket/chat-handler';
 import { EnhancedChatHandlerWithApproval } from './websocket/enhanced-chat-handler-with-approval';
 import { StreamHandler } from './websocket/stream-handler';
 import { TestHandlers } from './websocket/test-handlers';
+import { forwardServerLogs, setupServerLogHandlers } from './websocket/server-log-handlers';
 import { authenticateSocket, AuthenticatedSocket } from './middleware/socketAuth';
+import { authenticateToken, requireRole } from './middleware/auth';
+import { parameterRules } from './mcp/parameter-rules';
 import { createLogger } from './utils/logger';
 import authRoutes from './routes/auth';
 import projectRoutes from './routes/projects';
 import documentRoutes from './routes/documents';
 import activityRoutes from './routes/activity';
 import chatRoutes from './routes/chats';
+import toolPolicyRoutes from './routes/tool-policies';
+import modelRoutes from './routes/models';
+import usageRoutes from './routes/usage';
+import { createMcpServerRoutes } from './routes/mcp-servers';
+import parameterRuleRoutes from './routes/parameter-rules';
 import healthRoutes from './routes/health';
 import testMcpRoutes from './routes/test-mcp';
 
@@ -46,6 +54,10 @@ app.use('/api/projects', projectRoutes);
 app.use('/api/documents', documentRoutes);
 app.use('/api/activity', activityRoutes);
 app.use('/api/chats', chatRoutes);
+app.use('/api/tool-policies', toolPolicyRoutes);
+app.use('/api/models', modelRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/admin/parameter-rules', authenticateToken, requireRole(['ADMIN']), parameterRuleRoutes);
 
 // Health check routes
 app.use('/health', healthRoutes);
@@ -67,17 +79,34 @@ const mcpClientManager = new MCPClientManager();
 const chatHandler = new ChatHandler(mcpClientManager);
 const enhancedChatHandler = new EnhancedChatHandlerWithApproval(mcpClientManager);
 const testHandlers = new TestHandlers(mcpClientManager);
+
+// Resources and prompts are served by the same MCP client the chat uses
+app.use('/api/mcp-servers', createMcpServerRoutes(mcpClientManager));
+
+// MCP servers can add or remove tools at runtime
+mcpClientManager.on('toolsUpdated', (tools: MCPTool[]) => {
+  chatHandler.refreshSessionTools();
+  io.emit('tools:updated', {
+    tools: tools.map(tool => ({ name: tool.name, description: tool.description })),
+    count: tools.length,
+    updatedAt: new Date().toISOString()
+  });
+});
 const streamHandler = new StreamHandler();
 
 // Socket.io authentication middleware
 io.use(authenticateSocket);
 
+// MCP server logs for the developer tools panel
+forwardServerLogs(io);
+
 // Socket.io connection handling
 io.on('connection', (socket: AuthenticatedSocket) => {
   logger.info(`Client connected: ${socket.id} (User: ${socket.user?.email})`);
 
   // Setup test handlers for development tools
   testHandlers.setupTestHandlers(socket);
+  setupServerLogHandlers(socket, socket.user?.role === 'ADMIN');
 
   // Handle chat messages with enhanced approval flow
   socket.on('chat:message', async (data) => {
@@ -118,6 +147,32 @@ io.on('connection', (socket: AuthenticatedSocket) => {
     }
   });
 
+  // Handle plan mode responses
+  socket.on('chat:plan_response', async (data) => {
+    try {
+      if (!socket.user) {
+        return socket.emit('error', { message: 'Authentication required' });
+      }
+      await enhancedChatHandler.handlePlanResponse(socket, data);
+    } catch (error) {
+      logger.error('Error handling plan response:', error);
+      socket.emit('error', { message: 'Failed to process plan response' });
+    }
+  });
+
+  // Stop button: abort the response in progress
+  socket.on('chat:cancel', async (data) => {
+    try {
+      if (!socket.user) {
+        return socket.emit('error', { message: 'Authentication required' });
+      }
+      await enhancedChatHandler.handleCancel(socket, data || {});
+    } catch (error) {
+      logger.error('Error cancelling response:', error);
+      socket.emit('error', { message: 'Failed to cancel response' });
+    }
+  });
+
   // Handle model selection
   socket.on('chat:select_model', async (data) => {
     if (!socket.user) {
@@ -138,6 +193,7 @@ io.on('connection', (socket: AuthenticatedSocket) => {
 // Initialize MCP connection on startup
 async function initialize() {
   try {
+    parameterRules.initialize();
     await mcpClientManager.initialize();
     logger.info('MCP client initialized successfully');
   } catch (error) {
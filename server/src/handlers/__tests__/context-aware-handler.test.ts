@@ -0,0 +1,110 @@
+// Every model method resolves; creates echo their data back with an id
+jest.mock('@prisma/client', () => {
+  let nextId = 0;
+  const model = () => ({
+    create: jest.fn(async (args: any) => ({ id: `row-${++nextId}`, createdAt: new Date(), ...args?.data })),
+    update: jest.fn(async (args: any) => ({ ...args?.data })),
+    updateMany: jest.fn(async () => ({ count: 0 })),
+    findMany: jest.fn(async () => []),
+    findUnique: jest.fn(async () => null),
+    findFirst: jest.fn(async () => null)
+  });
+  class PrismaClient {
+    [key: string]: any;
+    constructor() {
+      return new Proxy(this, {
+        get: (target, prop: string) => {
+          if (!(prop in target)) {
+            target[prop] = model();
+          }
+          return target[prop];
+        }
+      });
+    }
+  }
+  return {
+    PrismaClient,
+    ToolExecutionStatus: { EXECUTING: 'EXECUTING', COMPLETED: 'COMPLETED', FAILED: 'FAILED' }
+  };
+});
+
+import { ContextAwareMessageHandler } from '../context-aware-handler';
+import { LLMService } from '../../llm/llm-interface';
+import { MCPClientManager } from '../../mcp/mcp-client';
+import { AuthenticatedSocket } from '../../middleware/socketAuth';
+import { tokenUsageService } from '../../services/token-usage';
+import { TokenQuotaExceededError } from '../../utils/error-handler';
+
+type TestSocket = AuthenticatedSocket & { emit: jest.Mock };
+
+function createSocket(): TestSocket {
+  const socket = {
+    id: 'socket-1',
+    user: { userId: 'user-1', email: 'user@example.com', role: 'USER' },
+    emit: jest.fn()
+  };
+  return socket as unknown as TestSocket;
+}
+
+function emitted(socket: TestSocket, event: string): any[] {
+  return socket.emit.mock.calls.filter(([name]) => name === event).map(([, data]) => data);
+}
+
+describe('ContextAwareMessageHandler token usage', () => {
+  const usage = { promptTokens: 20, completionTokens: 5, totalTokens: 25 };
+  let generateResponse: jest.Mock;
+  let llmService: LLMService;
+  let recordUsage: jest.SpyInstance;
+  let assertWithinQuota: jest.SpyInstance;
+
+  beforeEach(() => {
+    generateResponse = jest.fn();
+    llmService = { generateResponse, setAvailableTools: jest.fn() } as unknown as LLMService;
+    recordUsage = jest.spyOn(tokenUsageService, 'recordUsage').mockResolvedValue();
+    assertWithinQuota = jest.spyOn(tokenUsageService, 'assertWithinQuota').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    recordUsage.mockRestore();
+    assertWithinQuota.mockRestore();
+  });
+
+  function createHandler() {
+    const mcpClientManager = {
+      getAvailableTools: () => [{ name: 'servicenow-mcp:query-records', description: 'Query', inputSchema: {} }],
+      executeTool: jest.fn(async () => ({ content: [{ type: 'text', text: '3 incidents found' }] }))
+    };
+    return new ContextAwareMessageHandler(mcpClientManager as unknown as MCPClientManager, 'https://example.service-now.com');
+  }
+
+  it('refuses a message over quota before calling the model', async () => {
+    assertWithinQuota.mockRejectedValueOnce(new TokenQuotaExceededError('DAILY', 1000, 1000, new Date()));
+    const socket = createSocket();
+
+    await createHandler().processMessage(socket, 'message-1', 'Hello', llmService, 'gpt-4o');
+
+    expect(generateResponse).not.toHaveBeenCalled();
+    expect(emitted(socket, 'chat:error')).toEqual([expect.objectContaining({ error: 'Token quota exceeded' })]);
+  });
+
+  it('records every round and stops the tool loop when the quota runs out', async () => {
+    generateResponse.mockResolvedValue({
+      message: 'Let me look.',
+      toolCalls: [{ id: 'call-1', name: 'servicenow-mcp:query-records', arguments: { table: 'incident' } }],
+      usage
+    });
+    assertWithinQuota
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new TokenQuotaExceededError('DAILY', 1000, 1000, new Date()));
+    const socket = createSocket();
+
+    await createHandler().processMessage(socket, 'message-1', 'Query all incidents', llmService, 'gpt-4o');
+
+    expect(generateResponse).toHaveBeenCalledTimes(2);
+    expect(recordUsage).toHaveBeenCalledTimes(2);
+    expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1', model: 'gpt-4o' }), usage);
+    expect(emitted(socket, 'chat:error')).toEqual([expect.objectContaining({ error: 'Token quota exceeded' })]);
+    expect(emitted(socket, 'chat:stream_complete')).toHaveLength(1);
+  });
+});
@@ -1,4 +1,4 @@
-import { LLMService, LLMMessage } from '../llm/llm-interface';
+import { LLMService, LLMMessage, LLMToolCall } from '../llm/llm-interface';
 import { MCPClientManager } from '../mcp/mcp-client';
 import { EnhancedToolExecutor } from '../mcp/enhanced-tool-executor';
 import { buildSystemPrompt } from '../llm/system-prompt';
@@ -9,6 +9,11 @@ import { createLogger } from '../utils/logger';
 import { PrismaClient, ToolExecutionStatus } from '@prisma/client';
 import { ChatService } from '../services/chat';
 import { ConversationFlowValidator } from '../validators/conversation-flow-validator';
+import { retrievalService, RetrievalResult } from '../services/retrieval';
+import { modelRegistry, fitMessagesToBudget } from '../llm/model-registry';
+import { estimateTokens } from '../utils/token-estimate';
+import { tokenUsageService } from '../services/token-usage';
+import { TokenQuotaExceededError } from '../utils/error-handler';
 
 const logger = createLogger();
 const prisma = new PrismaClient();
@@ -46,6 +51,18 @@ interface ConversationContext {
     workflowSteps: WorkflowStep[];
   };
   dbSessionId?: string;
+  projectId?: string;
+}
+
+// Same payload the approval handler sends, so the client shows the quota either way
+function emitQuotaExceeded(socket: AuthenticatedSocket, messageId: string, error: TokenQuotaExceededError): void {
+  socket.emit('chat:error', {
+    messageId,
+    message: error.message,
+    error: 'Token quota exceeded',
+    code: error.code,
+    quota: error.details
+  });
 }
 
 export class ContextAwareMessageHandler {
@@ -58,7 +75,8 @@ export class ContextAwareMessageHandler {
   
   constructor(
     private mcpClientManager: MCPClientManager,
-    private instanceUrl: string = process.env.SERVICENOW_INSTANCE_URL || ''
+    private instanceUrl: string = process.env.SERVICENOW_INSTANCE_URL || '',
+    private maxToolIterations: number = parseInt(process.env.AGENT_MAX_TOOL_ITERATIONS || '8')
   ) {
     this.streamHandler = new EnhancedStreamHandler(mcpClientManager);
     this.resultFormatter = new ResultFormatter(this.instanceUrl);
@@ -72,15 +90,19 @@ export class ContextAwareMessageHandler {
     messageId: string,
     message: string,
     llmService: LLMService,
-    model: string
+    model: string,
+    projectId?: string
   ): Promise<void> {
     const userId = socket.user!.userId;
     
     try {
-      logger.info(`Processing message for user ${userId}:`, { message, model });
+      logger.info(`Processing message for user ${userId}:`, { message, model, projectId });
+
+      // Over quota: refuse before anything is stored or sent to the model
+      await tokenUsageService.assertWithinQuota(userId, socket.user!.role);
       
-      // Get or create conversation context
-      const context = this.getOrCreateContext(userId);
+      // Get or create conversation context (project chats keep their own history)
+      const context = this.getOrCreateContext(userId, projectId);
       
       // Get or create database session
       let dbSessionId = context.dbSessionId;
@@ -89,8 +111,9 @@ export class ContextAwareMessageHandler {
           data: {
             userId,
             model,
-            contextLimit: this.getContextLimit(model),
-            title: 'New Chat'
+            contextLimit: modelRegistry.getContextLimit(model),
+            title: 'New Chat',
+            projectId
           }
         });
         dbSessionId = dbSession.id;
@@ -129,8 +152,13 @@ export class ContextAwareMessageHandler {
       const needsTools = this.analyzeMessageIntent(message, context);
       logger.info(`Intent analysis: userIntent=${userIntent}, needsTools=${needsTools}`);
       
+      // Ground project chats in the project's uploaded documents
+      const retrieval = context.projectId
+        ? await this.retrieveProjectContext(context.projectId, userId, message)
+        : null;
+
       // Build conversation messages for LLM
-      const llmMessages = this.buildLLMMessages(context, needsTools);
+      const llmMessages = this.buildLLMMessages(context, needsTools, model, retrieval);
       
       // Configure LLM service with all available tools
       if (needsTools) {
@@ -175,41 +203,91 @@ export class ContextAwareMessageHandler {
       // Start streaming response
       socket.emit('chat:stream_start', { messageId: assistantDbMessage.id });
 
-      // Generate streaming response
-      const response = await llmService.generateResponse(
-        llmMessages,
-        (chunk) => {
-          // Stream text chunks to client
-          if (chunk.type === 'text') {
-            socket.emit('chat:text_stream', {
-              messageId: assistantDbMessage.id,
-              chunk: chunk.content
-            });
+      // Agentic loop: tool results go back to the LLM until it stops calling tools
+      let finalContent = '';
+      const toolInvocations: any[] = [];
+      let iteration = 0;
+      // Rounds whose tool calls were actually run
+      let toolRounds = 0;
+      let reachedIterationLimit = false;
+
+      while (true) {
+        iteration++;
+
+        if (iteration > 1) {
+          // The first round was checked above, each later one spends more
+          try {
+            await tokenUsageService.assertWithinQuota(userId, socket.user!.role);
+          } catch (error) {
+            if (!(error instanceof TokenQuotaExceededError)) {
+              throw error;
+            }
+            emitQuotaExceeded(socket, assistantDbMessage.id, error);
+            break;
           }
+          socket.emit('chat:thinking', { messageId: assistantDbMessage.id });
         }
-      );
-      
-      logger.info('🤖 LLM response received:', { 
-        hasToolCalls: !!response.toolCalls?.length,
-        toolCallsCount: response.toolCalls?.length || 0,
-        messageLength: response.message?.length || 0,
-        fullResponse: JSON.stringify(response, null, 2)
-      });
-      
-      // Handle tool calls if present
-      let finalContent = response.message;
-      const toolInvocations: any[] = [];
-      
-      if (response.toolCalls && response.toolCalls.length > 0) {
-        logger.info(`🔧 Processing ${response.toolCalls.length} tool calls:`, response.toolCalls.map(t => t.name));
-        
+
+        let roundHasText = false;
+        const response = await llmService.generateResponse(
+          llmMessages,
+          (chunk) => {
+            // Stream text chunks to client
+            if (chunk.type === 'text') {
+              // Separate this round's text from the previous round's
+              if (!roundHasText && finalContent) {
+                socket.emit('chat:text_stream', {
+                  messageId: assistantDbMessage.id,
+                  chunk: '\n\n'
+                });
+              }
+              roundHasText = true;
+              socket.emit('chat:text_stream', {
+                messageId: assistantDbMessage.id,
+                chunk: chunk.content
+              });
+            }
+          }
+        );
+
+        logger.info('🤖 LLM response received:', {
+          iteration,
+          hasToolCalls: !!response.toolCalls?.length,
+          toolCallsCount: response.toolCalls?.length || 0,
+          messageLength: response.message?.length || 0,
+          stopReason: response.stopReason
+        });
+        await tokenUsageService.recordUsage({
+          userId,
+          model,
+          projectId: context.projectId,
+          chatSessionId: dbSessionId,
+          messageId: assistantDbMessage.id
+        }, response.usage);
+
+        if (response.message) {
+          finalContent = finalContent ? `${finalContent}\n\n${response.message}` : response.message;
+        }
+
+        if (!response.toolCalls || response.toolCalls.length === 0) {
+          break;
+        }
+
+        if (toolRounds >= this.maxToolIterations) {
+          reachedIterationLimit = true;
+          logger.warn(`⚠️ Tool loop reached ${toolRounds} rounds, dropping ${response.toolCalls.length} tool calls`);
+          break;
+        }
+
+        logger.info(`🔧 Processing ${response.toolCalls.length} tool calls (round ${iteration}):`, response.toolCalls.map(t => t.name));
+
         // Validate tool selection before execution
         const validation = this.flowValidator.validateToolSelection(
           response.toolCalls.map(tc => ({ name: tc.name, arguments: tc.arguments })),
           context,
           message
         );
-        
+
         if (!validation.valid) {
           logger.warn('⚠️ Tool selection validation failed:', validation);
           // Log the validation issue but continue - let the LLM decide
@@ -218,156 +296,63 @@ export class ContextAwareMessageHandler {
             warning: validation.suggestion
           });
         }
-        
-        for (const toolCall of response.toolCalls) {
-          let toolExecution;
-          let executionStartTime: number;
-          try {
-            logger.info(`🚀 Starting tool execution: ${toolCall.name}`, { arguments: toolCall.arguments });
-            
-            // Emit tool start event for UI
-            socket.emit('chat:tool_start', {
-              messageId: assistantDbMessage.id,
-              toolName: toolCall.name,
-              arguments: toolCall.arguments
-            });
-            logger.info(`Executing tool: ${toolCall.name}`, { arguments: toolCall.arguments });
-            
-            // Record execution start time
-            executionStartTime = Date.now();
-            
-            // Create tool execution record
-            toolExecution = await prisma.toolExecution.create({
-              data: {
-                messageId: assistantDbMessage.id,
-                toolName: toolCall.name,
-                arguments: JSON.stringify(toolCall.arguments),
-                status: ToolExecutionStatus.EXECUTING
-              }
-            });
-
-            // Notify client of tool start
-            socket.emit('chat:tool_start', {
-              messageId: assistantDbMessage.id,
-              toolName: toolCall.name,
-              arguments: toolCall.arguments
-            });
-            
-            // Execute the tool using enhanced executor
-            const enhancedToolCall = {
-              id: toolCall.id || Date.now().toString(),
-              name: toolCall.name,
-              arguments: toolCall.arguments,
-              type: this.enhancedToolExecutor.getToolType(toolCall.name)
-            };
-            const toolResult = await this.enhancedToolExecutor.executeTool(enhancedToolCall);
-            
-            // Calculate execution time
-            const executionTime = Date.now() - executionStartTime!;
-            
-            // Format the result for user display
-            const formattedResult = this.resultFormatter.formatToolResult(
-              toolCall.name, 
-              toolResult
-            );
-            
-            // Update conversation context with ServiceNow data
-            this.updateServiceNowContext(context, toolCall.name, toolResult);
-            
-            // Persist updated context to database
-            await this.persistConversationContext(dbSessionId, context);
-            
-            // Add to tool invocations for context (but don't add to finalContent to avoid duplication)
-            toolInvocations.push({
-              name: toolCall.name,
-              arguments: toolCall.arguments,
-              result: toolResult,
-              formattedResult,
-              executionTime
-            });
-            
-            // Update tool execution with result
-            await prisma.toolExecution.update({
-              where: { id: toolExecution.id },
-              data: {
-                result: JSON.stringify(toolResult),
-                status: toolResult.isError ? ToolExecutionStatus.FAILED : ToolExecutionStatus.COMPLETED,
-                executionTime
-              }
-            });
-
-            logger.info(`✅ Tool execution completed: ${toolCall.name}`, { 
-              success: !toolResult.isError, 
-              executionTime,
-              resultType: typeof toolResult 
-            });
-
-            // Emit proper tool completion event for UI
-            socket.emit('chat:tool_complete', {
-              messageId: assistantDbMessage.id,
-              toolName: toolCall.name,
-              arguments: toolCall.arguments,
-              result: toolResult,
-              executionTime,
-              status: toolResult.isError ? 'error' : 'completed'
-            });
-            
-            // Store for final message composition
-            toolInvocations.push({
-              name: toolCall.name,
-              arguments: toolCall.arguments,
-              result: toolResult,
-              executionTime,
-              status: toolResult.isError ? 'error' : 'completed'
-            });
-            
-          } catch (error) {
-            logger.error(`❌ Tool execution failed: ${toolCall.name}`, error);
-            
-            // Update tool execution with error if it was created
-            if (toolExecution) {
-              await prisma.toolExecution.update({
-                where: { id: toolExecution.id },
-                data: {
-                  status: ToolExecutionStatus.FAILED,
-                  error: error instanceof Error ? error.message : 'Unknown error'
-                }
-              });
-            }
-            
-            // Emit tool error event for UI
-            socket.emit('chat:tool_error', {
-              messageId: assistantDbMessage.id,
-              toolName: toolCall.name,
-              arguments: toolCall.arguments,
-              error: error instanceof Error ? error.message : 'Unknown error'
-            });
-            
-            // Store error for final message composition
-            toolInvocations.push({
-              name: toolCall.name,
-              arguments: toolCall.arguments,
-              result: { isError: true, content: error instanceof Error ? error.message : 'Unknown error' },
-              status: 'error'
-            });
-            
-            socket.emit('chat:tool_result', {
-              messageId: assistantDbMessage.id,
-              toolName: toolCall.name,
-              result: { error: error instanceof Error ? error.message : 'Unknown error' },
-              success: false
-            });
-          }
+
+        const roundToolCalls = response.toolCalls.map((toolCall, index) => ({
+          ...toolCall,
+          id: toolCall.id || `tool-${Date.now()}-${index}`
+        }));
+
+        // Record the assistant turn so the provider can pair results with calls
+        llmMessages.push({
+          role: 'assistant',
+          content: response.message,
+          toolCalls: roundToolCalls
+        });
+
+        for (const toolCall of roundToolCalls) {
+          const invocation = await this.executeToolCall(
+            socket,
+            assistantDbMessage.id,
+            dbSessionId,
+            toolCall,
+            context
+          );
+          toolInvocations.push(invocation);
+
+          llmMessages.push({
+            role: 'tool',
+            toolCallId: toolCall.id,
+            toolName: toolCall.name,
+            content: this.formatToolResultForLLM(invocation.result),
+            isError: invocation.status === 'error'
+          });
         }
-        
+
         context.lastToolUse = new Date();
+        toolRounds++;
+      }
+
+      if (reachedIterationLimit) {
+        const notice = `I stopped after ${toolRounds} rounds of tool calls. Let me know if you'd like me to continue.`;
+        socket.emit('chat:warning', {
+          messageId: assistantDbMessage.id,
+          warning: `Tool loop stopped after ${toolRounds} rounds`
+        });
+        socket.emit('chat:text_stream', {
+          messageId: assistantDbMessage.id,
+          chunk: finalContent ? `\n\n${notice}` : notice
+        });
+        finalContent = finalContent ? `${finalContent}\n\n${notice}` : notice;
       }
       
+      const sources = retrieval?.sources || [];
+
       // Update assistant message content in database
       await prisma.message.update({
         where: { id: assistantDbMessage.id },
         data: {
-          content: finalContent
+          content: finalContent,
+          ...(sources.length > 0 && { sources })
         }
       });
 
@@ -391,10 +376,11 @@ export class ContextAwareMessageHandler {
           toolCalls: toolInvocations.map(inv => ({
             name: inv.name,
             arguments: inv.arguments,
-            status: 'completed',
+            status: inv.status === 'error' ? 'error' : 'completed',
             result: inv.result,
             executionTime: inv.executionTime
           })),
+          sources,
           model
         }
       });
@@ -406,7 +392,7 @@ export class ContextAwareMessageHandler {
           operations: toolInvocations.map(inv => ({
             tool: inv.name,
             arguments: inv.arguments,
-            success: !inv.result.isError
+            success: inv.status !== 'error'
           }))
         });
       }
@@ -417,6 +403,12 @@ export class ContextAwareMessageHandler {
       logger.info(`Message processing completed for user ${userId}`);
       
     } catch (error) {
+      if (error instanceof TokenQuotaExceededError) {
+        logger.info(`Token quota reached for user ${userId}`, error.details);
+        emitQuotaExceeded(socket, messageId, error);
+        return;
+      }
+
       logger.error('Error processing message:', error);
       socket.emit('chat:error', {
         messageId,
@@ -425,11 +417,149 @@ export class ContextAwareMessageHandler {
     }
   }
   
-  private getOrCreateContext(userId: string): ConversationContext {
-    if (!this.conversationHistory.has(userId)) {
-      this.conversationHistory.set(userId, {
+  private async executeToolCall(
+    socket: AuthenticatedSocket,
+    messageId: string,
+    dbSessionId: string,
+    toolCall: LLMToolCall,
+    context: ConversationContext
+  ): Promise<any> {
+    let toolExecution;
+    const executionStartTime = Date.now();
+
+    try {
+      logger.info(`🚀 Starting tool execution: ${toolCall.name}`, { arguments: toolCall.arguments });
+
+      // Create tool execution record
+      toolExecution = await prisma.toolExecution.create({
+        data: {
+          messageId,
+          toolName: toolCall.name,
+          arguments: JSON.stringify(toolCall.arguments),
+          status: ToolExecutionStatus.EXECUTING
+        }
+      });
+
+      // Notify client of tool start
+      socket.emit('chat:tool_start', {
+        messageId,
+        toolName: toolCall.name,
+        arguments: toolCall.arguments
+      });
+
+      // Execute the tool using enhanced executor
+      const enhancedToolCall = {
+        id: toolCall.id,
+        name: toolCall.name,
+        arguments: toolCall.arguments,
+        type: this.enhancedToolExecutor.getToolType(toolCall.name)
+      };
+      const toolResult = await this.enhancedToolExecutor.executeTool(enhancedToolCall);
+
+      const executionTime = Date.now() - executionStartTime;
+
+      // Format the result for user display
+      const formattedResult = this.resultFormatter.formatToolResult(
+        toolCall.name,
+        toolResult
+      );
+
+      // Update conversation context with ServiceNow data
+      this.updateServiceNowContext(context, toolCall.name, toolResult);
+
+      // Persist updated context to database
+      await this.persistConversationContext(dbSessionId, context);
+
+      // Update tool execution with result
+      await prisma.toolExecution.update({
+        where: { id: toolExecution.id },
+        data: {
+          result: JSON.stringify(toolResult),
+          status: toolResult.isError ? ToolExecutionStatus.FAILED : ToolExecutionStatus.COMPLETED,
+          executionTime
+        }
+      });
+
+      logger.info(`✅ Tool execution completed: ${toolCall.name}`, {
+        success: !toolResult.isError,
+        executionTime
+      });
+
+      // Emit proper tool completion event for UI
+      socket.emit('chat:tool_complete', {
+        messageId,
+        toolName: toolCall.name,
+        arguments: toolCall.arguments,
+        result: toolResult,
+        executionTime,
+        status: toolResult.isError ? 'error' : 'completed'
+      });
+
+      return {
+        id: toolCall.id,
+        name: toolCall.name,
+        arguments: toolCall.arguments,
+        result: toolResult,
+        formattedResult,
+        executionTime,
+        status: toolResult.isError ? 'error' : 'completed'
+      };
+    } catch (error) {
+      logger.error(`❌ Tool execution failed: ${toolCall.name}`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // Update tool execution with error if it was created
+      if (toolExecution) {
+        await prisma.toolExecution.update({
+          where: { id: toolExecution.id },
+          data: {
+            status: ToolExecutionStatus.FAILED,
+            error: errorMessage
+          }
+        });
+      }
+
+      // Emit tool error event for UI
+      socket.emit('chat:tool_error', {
+        messageId,
+        toolName: toolCall.name,
+        arguments: toolCall.arguments,
+        error: errorMessage
+      });
+
+      return {
+        id: toolCall.id,
+        name: toolCall.name,
+        arguments: toolCall.arguments,
+        result: { isError: true, content: [{ type: 'text', text: errorMessage }] },
+        executionTime: Date.now() - executionStartTime,
+        status: 'error'
+      };
+    }
+  }
+
+  private formatToolResultForLLM(result: any): string {
+    const maxLength = 8000;
+    const text = Array.isArray(result?.content)
+      ? result.content
+          .map((part: any) => part.text ?? (part.json !== undefined ? JSON.stringify(part.json) : ''))
+          .filter(Boolean)
+          .join('\n')
+      : JSON.stringify(result);
+
+    // Keep large query results from crowding out the rest of the context
+    return text.length > maxLength
+      ? `${text.substring(0, maxLength)}\n... [truncated ${text.length - maxLength} characters]`
+      : text;
+  }
+
+  private getOrCreateContext(userId: string, projectId?: string): ConversationContext {
+    const key = projectId ? `${userId}:${projectId}` : userId;
+    if (!this.conversationHistory.has(key)) {
+      this.conversationHistory.set(key, {
         messages: [],
         lastToolUse: null,
+        projectId,
         serviceNowContext: {
           recentRecords: [],
           currentWorkflow: null,
@@ -439,7 +569,21 @@ export class ContextAwareMessageHandler {
         }
       });
     }
-    return this.conversationHistory.get(userId)!;
+    return this.conversationHistory.get(key)!;
+  }
+
+  private async retrieveProjectContext(
+    projectId: string,
+    userId: string,
+    query: string
+  ): Promise<RetrievalResult | null> {
+    try {
+      return await retrievalService.retrieveProjectContext(projectId, userId, query);
+    } catch (error) {
+      logger.error('Failed to retrieve project documents:', error);
+      // Don't throw - answer without document grounding
+      return null;
+    }
   }
   
   private distinguishIntent(message: string, context: ConversationContext): UserIntent {
@@ -593,7 +737,12 @@ export class ContextAwareMessageHandler {
            hasRecentToolUse || hasServiceNowContext || hasWebSearchKeyword || hasUrl;
   }
   
-  private buildLLMMessages(context: ConversationContext, needsTools: boolean): LLMMessage[] {
+  private buildLLMMessages(
+    context: ConversationContext,
+    needsTools: boolean,
+    model: string,
+    retrieval: RetrievalResult | null = null
+  ): LLMMessage[] {
     const messages: LLMMessage[] = [];
     
     // Add system prompt
@@ -613,6 +762,10 @@ export class ContextAwareMessageHandler {
       enhancedSystemPrompt += `\nCurrent workflow context: ${context.serviceNowContext.currentWorkflow}`;
     }
     
+    if (retrieval?.promptSection) {
+      enhancedSystemPrompt += `\n\n${retrieval.promptSection}`;
+    }
+    
     if (!needsTools) {
       enhancedSystemPrompt += `\n\nIMPORTANT: This appears to be a conversational message. Respond naturally without using any tools.`;
     }
@@ -622,8 +775,9 @@ export class ContextAwareMessageHandler {
       content: enhancedSystemPrompt
     });
     
-    // Add conversation history (last 10 messages to stay within context limits)
-    const recentMessages = context.messages.slice(-10);
+    // Add conversation history (last 10 messages, fewer if they overflow the model's context window)
+    const historyBudget = modelRegistry.getHistoryTokenBudget(model, estimateTokens(enhancedSystemPrompt));
+    const recentMessages = fitMessagesToBudget(context.messages.slice(-10), historyBudget);
     for (const msg of recentMessages) {
       messages.push({
         role: msg.role,
@@ -837,17 +991,12 @@ export class ContextAwareMessageHandler {
     }
   }
   
-  private getContextLimit(model: string): number {
-    if (model.startsWith('gpt-4o')) return 128000;
-    if (model.startsWith('gpt-4')) return 8000;
-    if (model.startsWith('gpt-3.5')) return 4000;
-    if (model.startsWith('o1-')) return 128000;
-    if (model.startsWith('claude-')) return 200000;
-    return 4000; // default
-  }
-
   cleanup(userId: string): void {
-    this.conversationHistory.delete(userId);
+    for (const key of Array.from(this.conversationHistory.keys())) {
+      if (key === userId || key.startsWith(`${userId}:`)) {
+        this.conversationHistory.delete(key);
+      }
+    }
     logger.info(`Cleaned up conversation history for user: ${userId}`);
   }
-}
\ No newline at end of file
+}
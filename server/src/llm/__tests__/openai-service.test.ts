@@ -0,0 +1,46 @@
+// Chunks the next completion streams back
+let chunks: any[] = [];
+const create = jest.fn(async () => ({
+  async *[Symbol.asyncIterator]() {
+    yield* chunks;
+  }
+}));
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: class {
+    chat = { completions: { create } };
+  }
+}));
+
+import { OpenAIService } from '../openai-service';
+
+function textChunk(content: string) {
+  return { choices: [{ delta: { content }, finish_reason: null }] };
+}
+
+describe('OpenAIService usage', () => {
+  const messages = [{ role: 'user' as const, content: 'x'.repeat(400) }];
+
+  beforeEach(() => create.mockClear());
+
+  it('uses the usage the server reports', async () => {
+    chunks = [
+      textChunk('Hello'),
+      { choices: [], usage: { prompt_tokens: 120, completion_tokens: 2, total_tokens: 122 } }
+    ];
+    const response = await new OpenAIService('gpt-4o', { apiKey: 'test' }).generateResponse(messages);
+
+    expect(response.usage).toMatchObject({ promptTokens: 120, completionTokens: 2, totalTokens: 122 });
+  });
+
+  it('estimates usage when the server reports none', async () => {
+    chunks = [textChunk('x'.repeat(40))];
+    const service = new OpenAIService('llama3', { apiKey: 'test', streamUsage: false });
+
+    const response = await service.generateResponse(messages);
+
+    expect(create).toHaveBeenCalledWith(expect.not.objectContaining({ stream_options: expect.anything() }), expect.anything());
+    expect(response.usage).toEqual({ promptTokens: 100, completionTokens: 10, totalTokens: 110, cachedTokens: 0 });
+  });
+});
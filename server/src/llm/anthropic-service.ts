@@ -1,8 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { LLMService, LLMMessage, LLMResponse, LLMStreamChunk } from './llm-interface';
+import { LLMService, LLMMessage, LLMResponse, LLMStreamChunk, LLMToolCall, LLMRequestOptions } from './llm-interface';
+import { OperationCancelledError } from '../utils/error-handler';
 import { MCPToolCall } from '../mcp/mcp-client';
 import { createLogger } from '../utils/logger';
 import { buildSystemPrompt } from './system-prompt';
+import { modelRegistry } from './model-registry';
 
 const logger = createLogger();
 
@@ -28,13 +30,18 @@ export class AnthropicService extends LLMService {
 
   async generateResponse(
     messages: LLMMessage[],
-    onStream?: (chunk: LLMStreamChunk) => void
+    onStream?: (chunk: LLMStreamChunk) => void,
+    options: LLMRequestOptions = {}
   ): Promise<LLMResponse> {
     console.log('\n🤖 [ANTHROPIC] Starting generateResponse method');
     console.log('🤖 [ANTHROPIC] Available tools state:', this.availableTools);
     console.log('🤖 [ANTHROPIC] MCP tools count:', this.availableTools?.mcp?.length || 0);
     console.log('🤖 [ANTHROPIC] Web tools count:', this.availableTools?.web?.length || 0);
     
+    // Outside the try so a cancelled stream can still report them
+    let fullContent = '';
+    let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cachedTokens: 0 };
+
     try {
       // Extract system message from conversation or use default
       const systemMessages = messages.filter(msg => msg.role === 'system');
@@ -63,7 +70,7 @@ export class AnthropicService extends LLMService {
       });
 
       // Format tools for Claude's native tool calling
-      const allTools = [...this.availableTools.mcp, ...this.availableTools.web];
+      const allTools = options.withoutTools ? [] : [...this.availableTools.mcp, ...this.availableTools.web];
       
       // 🔍 DEBUG: Log raw tools before formatting
       logger.info('🔧 [ANTHROPIC] Raw MCP tools before formatting:', {
@@ -77,7 +84,7 @@ export class AnthropicService extends LLMService {
         // 🔍 DEBUG: Log each tool's schema
         logger.info('🔧 [ANTHROPIC] Processing tool for Claude:', {
           originalName: tool.name,
-          strippedName: tool.name.replace('servicenow-mcp:', ''),
+          strippedName: this.toProviderToolName(tool.name),
           description: tool.description,
           hasInputSchema: !!tool.inputSchema,
           inputSchema: tool.inputSchema,
@@ -86,7 +93,7 @@ export class AnthropicService extends LLMService {
         });
 
         const formattedTool = {
-          name: tool.name.replace('servicenow-mcp:', ''), // Strip prefix for Anthropic API compatibility
+          name: this.toProviderToolName(tool.name), // Provider-safe name for Anthropic API compatibility
           description: tool.description || 'No description available',
           input_schema: tool.inputSchema || {
             type: 'object',
@@ -118,13 +125,11 @@ export class AnthropicService extends LLMService {
 
       const requestParams: any = {
         model: this.model,
-        max_tokens: 4096,
-        temperature: 0.7,
+        // Output limit comes from the model registry unless the caller set one
+        max_tokens: options.maxTokens ?? modelRegistry.getMaxOutputTokens(this.model),
+        temperature: options.temperature ?? 0.7,
         system: systemMessage,
-        messages: userMessages.map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        })),
+        messages: this.formatMessagesForClaude(userMessages),
         stream: true,
       };
       
@@ -136,13 +141,22 @@ export class AnthropicService extends LLMService {
         logger.info(`[ANTHROPIC] No tools to add to request`);
       }
 
-      const stream = await this.client.messages.create(requestParams);
+      const stream = await this.client.messages.create(requestParams, { signal: options.signal });
 
-      let fullContent = '';
-      let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
-      let toolCalls: MCPToolCall[] = [];
+      let toolCalls: LLMToolCall[] = [];
+      let stopReason: string | undefined;
+      // Tool input arrives as partial JSON deltas keyed by content block index
+      const pendingToolUses = new Map<number, { id: string; name: string; input: any; json: string }>();
 
       for await (const chunk of stream) {
+        // Input tokens are only reported up front, output tokens at the end
+        if (chunk.type === 'message_start') {
+          const startUsage = chunk.message.usage;
+          const cachedTokens = startUsage.cache_read_input_tokens || 0;
+          const promptTokens = startUsage.input_tokens + cachedTokens + (startUsage.cache_creation_input_tokens || 0);
+          usage = { promptTokens, completionTokens: 0, totalTokens: promptTokens, cachedTokens };
+        }
+
         if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
           fullContent += chunk.delta.text;
           onStream?.({
@@ -153,30 +167,67 @@ export class AnthropicService extends LLMService {
 
         // Handle Claude's native tool calls
         if (chunk.type === 'content_block_start' && chunk.content_block.type === 'tool_use') {
+          pendingToolUses.set(chunk.index, {
+            id: chunk.content_block.id,
+            name: chunk.content_block.name,
+            input: chunk.content_block.input || {},
+            json: ''
+          });
+        }
+
+        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'input_json_delta') {
+          const pending = pendingToolUses.get(chunk.index);
+          if (pending) {
+            pending.json += chunk.delta.partial_json;
+          }
+        }
+
+        if (chunk.type === 'content_block_stop' && pendingToolUses.has(chunk.index)) {
+          const pending = pendingToolUses.get(chunk.index)!;
+          pendingToolUses.delete(chunk.index);
+
+          let input = pending.input;
+          if (pending.json) {
+            try {
+              input = JSON.parse(pending.json);
+            } catch (error) {
+              logger.warn(`Failed to parse streamed tool input for ${pending.name}`, { json: pending.json });
+            }
+          }
+
           // Map stripped tool name back to full name for MCP execution
-          const strippedName = chunk.content_block.name;
-          const fullName = allTools.find(tool => tool.name.replace('servicenow-mcp:', '') === strippedName)?.name || strippedName;
-          
-          const toolCall: MCPToolCall = {
+          const fullName = this.fromProviderToolName(pending.name);
+
+          const toolCall: LLMToolCall = {
+            id: pending.id,
             name: fullName,
-            arguments: chunk.content_block.input || {}
+            arguments: input || {}
           };
           toolCalls.push(toolCall);
+          onStream?.({
+            type: 'tool_call',
+            content: '',
+            toolCall
+          });
           logger.info(`Claude tool call detected: ${toolCall.name}`, { arguments: toolCall.arguments });
         }
 
-        if (chunk.type === 'message_delta' && chunk.usage) {
-          usage = {
-            promptTokens: chunk.usage.input_tokens || 0,
-            completionTokens: chunk.usage.output_tokens || 0,
-            totalTokens: (chunk.usage.input_tokens || 0) + (chunk.usage.output_tokens || 0)
-          };
+        if (chunk.type === 'message_delta') {
+          stopReason = chunk.delta.stop_reason || stopReason;
+          if (chunk.usage) {
+            const completionTokens = chunk.usage.output_tokens || 0;
+            usage = { ...usage, completionTokens, totalTokens: usage.promptTokens + completionTokens };
+          }
         }
       }
 
       // If no native tool calls were found, try to parse from content as fallback
       if (toolCalls.length === 0) {
-        toolCalls = this.parseToolCalls(fullContent);
+        toolCalls = this.parseToolCalls(fullContent).map((call: MCPToolCall, index) => ({
+          id: `text-tool-${Date.now()}-${index}`,
+          name: call.name,
+          arguments: call.arguments || {}
+        }));
         fullContent = this.removeToolCallsFromContent(fullContent);
       }
 
@@ -185,10 +236,15 @@ export class AnthropicService extends LLMService {
       return {
         message: cleanContent,
         toolCalls,
+        stopReason,
         usage
       };
 
     } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw new OperationCancelledError('LLM response', this.partialUsage(messages, usage, fullContent));
+      }
+
       logger.error('Anthropic API error details:', {
         error: error,
         errorMessage: error?.message,
@@ -215,6 +271,55 @@ export class AnthropicService extends LLMService {
     }
   }
 
+  // Claude expects tool_use blocks on the assistant turn and the matching
+  // tool_result blocks grouped into the following user turn
+  private formatMessagesForClaude(messages: LLMMessage[]): any[] {
+    const formatted: any[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const block = {
+          type: 'tool_result',
+          tool_use_id: msg.toolCallId,
+          content: msg.content || '(empty result)',
+          is_error: !!msg.isError
+        };
+        const previous = formatted[formatted.length - 1];
+        if (previous && previous.role === 'user' && Array.isArray(previous.content) &&
+            previous.content.every((b: any) => b.type === 'tool_result')) {
+          previous.content.push(block);
+        } else {
+          formatted.push({ role: 'user', content: [block] });
+        }
+        continue;
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+        const content: any[] = [];
+        if (msg.content) {
+          content.push({ type: 'text', text: msg.content });
+        }
+        for (const call of msg.toolCalls) {
+          content.push({
+            type: 'tool_use',
+            id: call.id,
+            name: this.toProviderToolName(call.name),
+            input: call.arguments || {}
+          });
+        }
+        formatted.push({ role: 'assistant', content });
+        continue;
+      }
+
+      formatted.push({
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content
+      });
+    }
+
+    return formatted;
+  }
+
   private formatSystemMessage(): string {
     return buildSystemPrompt({
       instanceUrl: process.env.SERVICENOW_INSTANCE_URL,
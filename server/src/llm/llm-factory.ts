@@ -0,0 +1,21 @@
+import { LLMService } from './llm-interface';
+import { AnthropicService } from './anthropic-service';
+import { OpenAIService } from './openai-service';
+import { LocalLLMService } from './local-llm-service';
+import { isLocalModel } from './model-discovery';
+
+export const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+// Picks the provider from the model id
+export function createLLMService(model: string): LLMService {
+  if (isLocalModel(model)) {
+    return new LocalLLMService(model);
+  } else if (model.includes('claude')) {
+    return new AnthropicService(model);
+  } else if (model.includes('gpt') || /^o\d/.test(model)) {
+    return new OpenAIService(model);
+  } else {
+    // Default to Claude for unknown models
+    return new AnthropicService(DEFAULT_MODEL);
+  }
+}
@@ -1,8 +1,16 @@
 import { MCPTool, MCPToolCall } from '../mcp/mcp-client';
+import { buildProviderToolNames, toProviderToolName } from '../mcp/tool-namespace';
+import { estimateTokens } from '../utils/token-estimate';
 
 export interface LLMMessage {
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
+  // Assistant turns that requested tools carry the calls so providers can replay them
+  toolCalls?: LLMToolCall[];
+  // Tool turns reference the call they answer
+  toolCallId?: string;
+  toolName?: string;
+  isError?: boolean;
 }
 
 export interface LLMToolCall {
@@ -18,14 +26,30 @@ export interface LLMStreamChunk {
   toolResult?: any;
 }
 
+export interface LLMUsage {
+  // Includes cachedTokens
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Prompt tokens read from the provider's prompt cache
+  cachedTokens?: number;
+}
+
 export interface LLMResponse {
   message: string;
   toolCalls: LLMToolCall[];
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  stopReason?: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMRequestOptions {
+  // Aborting stops the provider stream; the service then throws OperationCancelledError
+  signal?: AbortSignal;
+  // Overrides the provider's output limit
+  maxTokens?: number;
+  temperature?: number;
+  // A plain completion, e.g. for MCP sampling: no tools are offered to the model
+  withoutTools?: boolean;
 }
 
 export interface AllAvailableTools {
@@ -40,14 +64,44 @@ export interface AllAvailableTools {
 
 export abstract class LLMService {
   protected availableTools: AllAvailableTools = { mcp: [], web: [] };
+  // Full tool name to the name the provider API sees
+  private providerToolNames = new Map<string, string>();
 
   abstract generateResponse(
     messages: LLMMessage[],
-    onStream?: (chunk: LLMStreamChunk) => void
+    onStream?: (chunk: LLMStreamChunk) => void,
+    options?: LLMRequestOptions
   ): Promise<LLMResponse>;
 
   setAvailableTools(tools: AllAvailableTools): void {
     this.availableTools = tools;
+    this.providerToolNames = buildProviderToolNames([...tools.mcp, ...tools.web].map(tool => tool.name));
+  }
+
+  protected toProviderToolName(name: string): string {
+    return this.providerToolNames.get(name) ?? toProviderToolName(name);
+  }
+
+  /**
+   * What a stream has cost when the provider hasn't said: it was stopped
+   * before the counts arrived at the end, or the server never sends them.
+   * Whatever is missing is estimated from the text.
+   */
+  protected partialUsage(messages: LLMMessage[], usage: LLMUsage, streamedContent: string): LLMUsage {
+    const promptTokens = usage.promptTokens
+      || messages.reduce((sum, message) => sum + estimateTokens(message.content || ''), 0);
+    const completionTokens = usage.completionTokens || estimateTokens(streamedContent);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, cachedTokens: usage.cachedTokens };
+  }
+
+  // The full name of a tool the model called, by the name it was offered under
+  protected fromProviderToolName(providerName: string): string {
+    for (const [name, candidate] of this.providerToolNames) {
+      if (candidate === providerName) {
+        return name;
+      }
+    }
+    return providerName;
   }
 
   protected formatToolsForLLM(): string {
@@ -78,6 +132,19 @@ You can make multiple tool calls in sequence if needed.
 `;
   }
 
+  // Text-protocol providers have no native tool turns, so replay them as plain text
+  protected formatToolTurnAsText(message: LLMMessage): string {
+    if (message.role === 'tool') {
+      const status = message.isError ? 'ERROR' : 'OK';
+      return `TOOL_RESULT (${message.toolName || 'unknown'}, ${status}):\n${message.content}`;
+    }
+
+    const calls = (message.toolCalls || [])
+      .map(call => `TOOL_CALL: ${JSON.stringify({ name: call.name, arguments: call.arguments })}`)
+      .join('\n');
+    return [message.content, calls].filter(Boolean).join('\n\n');
+  }
+
   protected parseToolCalls(content: string): MCPToolCall[] {
     const toolCalls: MCPToolCall[] = [];
     
@@ -0,0 +1,27 @@
+import { OpenAIService } from './openai-service';
+import { LOCAL_MODEL_PREFIX, getLocalBaseUrl } from './model-discovery';
+import { modelRegistry } from './model-registry';
+
+/**
+ * Talks to a self-hosted OpenAI-compatible server (Ollama, vLLM, llama.cpp)
+ * so instance data never leaves the network.
+ */
+export class LocalLLMService extends OpenAIService {
+  constructor(model: string) {
+    const baseURL = getLocalBaseUrl();
+    if (!baseURL) {
+      throw new Error('LOCAL_LLM_BASE_URL environment variable is required for local models');
+    }
+
+    const definition = modelRegistry.getModel(model);
+    super(model.replace(LOCAL_MODEL_PREFIX, ''), {
+      baseURL,
+      // Most local servers ignore the key, but the SDK insists on one
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'not-needed',
+      nativeTools: definition.supportsTools,
+      maxTokens: definition.maxOutputTokens,
+      // Only when configured; without it their usage is estimated from the text
+      streamUsage: process.env.LOCAL_LLM_STREAM_USAGE === 'true',
+    });
+  }
+}
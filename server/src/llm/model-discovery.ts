@@ -0,0 +1,76 @@
+import axios from 'axios';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+
+// Local models are addressed as "local:<model>" so they never collide with hosted model ids
+export const LOCAL_MODEL_PREFIX = 'local:';
+
+// How local models are listed: the OpenAI-compatible /models endpoint, Ollama's
+// /api/tags, or only the LOCAL_LLM_MODELS list
+export type LocalDiscoveryMode = 'openai' | 'ollama' | 'static';
+
+export function isLocalModel(model: string): boolean {
+  return model.startsWith(LOCAL_MODEL_PREFIX);
+}
+
+export function getLocalBaseUrl(): string | undefined {
+  return process.env.LOCAL_LLM_BASE_URL?.replace(/\/+$/, '');
+}
+
+export class ModelDiscoveryService {
+  private cache: { names: string[]; expiresAt: number } | null = null;
+  private cacheTtlMs = parseInt(process.env.LOCAL_LLM_DISCOVERY_TTL_MS || '60000');
+  private discoveryTimeoutMs = parseInt(process.env.LOCAL_LLM_DISCOVERY_TIMEOUT_MS || '3000');
+
+  // Names of the models the local server offers, without the "local:" prefix
+  async discoverLocalModels(): Promise<string[]> {
+    const baseUrl = getLocalBaseUrl();
+    if (!baseUrl) {
+      return [];
+    }
+
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.names;
+    }
+
+    const configured = (process.env.LOCAL_LLM_MODELS || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+
+    let discovered: string[] = [];
+    const mode = (process.env.LOCAL_LLM_DISCOVERY || 'openai') as LocalDiscoveryMode;
+
+    try {
+      if (mode === 'ollama') {
+        // Ollama's native API lives at the server root, not under /v1
+        const { data } = await axios.get(`${new URL(baseUrl).origin}/api/tags`, {
+          timeout: this.discoveryTimeoutMs,
+        });
+        discovered = (data.models || []).map((model: any) => model.name);
+      } else if (mode === 'openai') {
+        const { data } = await axios.get(`${baseUrl}/models`, {
+          timeout: this.discoveryTimeoutMs,
+          headers: process.env.LOCAL_LLM_API_KEY
+            ? { Authorization: `Bearer ${process.env.LOCAL_LLM_API_KEY}` }
+            : undefined,
+        });
+        discovered = (data.data || []).map((model: any) => model.id);
+      }
+    } catch (error) {
+      // An offline local server shouldn't hide the hosted models
+      logger.warn(`Local model discovery failed (${mode}) at ${baseUrl}:`, error instanceof Error ? error.message : error);
+    }
+
+    const names = Array.from(new Set([...configured, ...discovered]));
+    this.cache = { names, expiresAt: Date.now() + this.cacheTtlMs };
+    return names;
+  }
+
+  invalidate(): void {
+    this.cache = null;
+  }
+}
+
+export const modelDiscoveryService = new ModelDiscoveryService();
@@ -0,0 +1,203 @@
+import { estimateTokens } from '../utils/token-estimate';
+import { LOCAL_MODEL_PREFIX, isLocalModel, modelDiscoveryService } from './model-discovery';
+
+export type ModelProvider = 'Anthropic' | 'OpenAI' | 'Local';
+
+export interface ModelPricing {
+  // USD per million tokens
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  provider: ModelProvider;
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsTools: boolean;
+  supportsVision: boolean;
+  pricing?: ModelPricing;
+}
+
+const HOSTED_MODELS: ModelDefinition[] = [
+  {
+    id: 'claude-opus-4-20250514',
+    name: 'Claude Opus 4',
+    provider: 'Anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 32000,
+    supportsTools: true,
+    supportsVision: true,
+    pricing: { inputPerMillion: 15, outputPerMillion: 75 },
+  },
+  {
+    id: 'claude-sonnet-4-20250514',
+    name: 'Claude Sonnet 4',
+    provider: 'Anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    supportsTools: true,
+    supportsVision: true,
+    pricing: { inputPerMillion: 3, outputPerMillion: 15 },
+  },
+  {
+    id: 'claude-3-7-sonnet-20250219',
+    name: 'Claude Sonnet 3.7',
+    provider: 'Anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    supportsTools: true,
+    supportsVision: true,
+    pricing: { inputPerMillion: 3, outputPerMillion: 15 },
+  },
+  {
+    id: 'claude-3-5-haiku-20241022',
+    name: 'Claude Haiku 3.5',
+    provider: 'Anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    supportsTools: true,
+    supportsVision: false,
+    pricing: { inputPerMillion: 0.8, outputPerMillion: 4 },
+  },
+  {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'OpenAI',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    supportsTools: true,
+    supportsVision: true,
+    pricing: { inputPerMillion: 2.5, outputPerMillion: 10 },
+  },
+  {
+    id: 'gpt-4',
+    name: 'GPT-4',
+    provider: 'OpenAI',
+    contextWindow: 8192,
+    // The 8K window is shared with the ~5K system prompt
+    maxOutputTokens: 2000,
+    supportsTools: true,
+    supportsVision: false,
+    pricing: { inputPerMillion: 30, outputPerMillion: 60 },
+  },
+  {
+    id: 'gpt-3.5-turbo',
+    name: 'GPT-3.5',
+    provider: 'OpenAI',
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    supportsTools: true,
+    supportsVision: false,
+    pricing: { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  },
+  {
+    id: 'o4-mini',
+    name: 'O4-Mini',
+    provider: 'OpenAI',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    supportsTools: true,
+    supportsVision: true,
+    pricing: { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  },
+];
+
+// Unlisted ids (dated snapshots, new releases) inherit limits from their family
+const FAMILY_DEFAULTS: Array<{ pattern: RegExp } & Omit<ModelDefinition, 'id' | 'name'>> = [
+  { pattern: /^claude-/, provider: 'Anthropic', contextWindow: 200000, maxOutputTokens: 8192, supportsTools: true, supportsVision: true },
+  { pattern: /^gpt-4o/, provider: 'OpenAI', contextWindow: 128000, maxOutputTokens: 16384, supportsTools: true, supportsVision: true },
+  { pattern: /^gpt-4/, provider: 'OpenAI', contextWindow: 8192, maxOutputTokens: 2000, supportsTools: true, supportsVision: false },
+  { pattern: /^gpt-3\.5/, provider: 'OpenAI', contextWindow: 16385, maxOutputTokens: 4096, supportsTools: true, supportsVision: false },
+  { pattern: /^o\d/, provider: 'OpenAI', contextWindow: 128000, maxOutputTokens: 32000, supportsTools: true, supportsVision: false },
+];
+
+const UNKNOWN_MODEL_DEFAULTS = { contextWindow: 4000, maxOutputTokens: 1000 };
+
+export class ModelRegistry {
+  getModel(modelId: string): ModelDefinition {
+    const known = HOSTED_MODELS.find(model => model.id === modelId);
+    if (known) {
+      return known;
+    }
+
+    if (isLocalModel(modelId)) {
+      return this.localModel(modelId.substring(LOCAL_MODEL_PREFIX.length));
+    }
+
+    const family = FAMILY_DEFAULTS.find(defaults => defaults.pattern.test(modelId));
+    if (family) {
+      const { pattern, ...defaults } = family;
+      return { id: modelId, name: modelId, ...defaults };
+    }
+
+    return {
+      id: modelId,
+      name: modelId,
+      provider: 'Anthropic',
+      ...UNKNOWN_MODEL_DEFAULTS,
+      supportsTools: false,
+      supportsVision: false,
+    };
+  }
+
+  // Hosted providers only show up when they are configured
+  async listAvailableModels(): Promise<ModelDefinition[]> {
+    const hosted = HOSTED_MODELS.filter(model =>
+      model.provider === 'Anthropic' ? !!process.env.ANTHROPIC_API_KEY : !!process.env.OPENAI_API_KEY
+    );
+    const localNames = await modelDiscoveryService.discoverLocalModels();
+
+    return [...hosted, ...localNames.map(name => this.localModel(name))];
+  }
+
+  getContextLimit(modelId: string): number {
+    return this.getModel(modelId).contextWindow;
+  }
+
+  getMaxOutputTokens(modelId: string): number {
+    return this.getModel(modelId).maxOutputTokens;
+  }
+
+  // Tokens left for conversation history once the reply and the prompt are accounted for
+  getHistoryTokenBudget(modelId: string, reservedTokens: number = 0): number {
+    const model = this.getModel(modelId);
+    return Math.max(model.contextWindow - model.maxOutputTokens - reservedTokens, 0);
+  }
+
+  private localModel(name: string): ModelDefinition {
+    return {
+      id: `${LOCAL_MODEL_PREFIX}${name}`,
+      name: `${name} (local)`,
+      provider: 'Local',
+      contextWindow: parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '8192'),
+      maxOutputTokens: parseInt(process.env.LOCAL_LLM_MAX_TOKENS || '2048'),
+      supportsTools: process.env.LOCAL_LLM_NATIVE_TOOLS !== 'false',
+      supportsVision: false,
+      pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    };
+  }
+}
+
+/**
+ * Keep the most recent messages that fit in the token budget, always keeping
+ * the latest one so the model sees the question it is answering.
+ */
+export function fitMessagesToBudget<T extends { content: string }>(messages: T[], budgetTokens: number): T[] {
+  const kept: T[] = [];
+  let used = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(messages[i].content || '');
+    if (kept.length > 0 && used + tokens > budgetTokens) {
+      break;
+    }
+    kept.unshift(messages[i]);
+    used += tokens;
+  }
+
+  return kept;
+}
+
+export const modelRegistry = new ModelRegistry();
@@ -1,68 +1,109 @@
 import OpenAI from 'openai';
-import { LLMService, LLMMessage, LLMResponse, LLMStreamChunk } from './llm-interface';
+import { LLMService, LLMMessage, LLMResponse, LLMStreamChunk, LLMToolCall, LLMRequestOptions } from './llm-interface';
+import { OperationCancelledError } from '../utils/error-handler';
+import { MCPToolCall } from '../mcp/mcp-client';
 import { createLogger } from '../utils/logger';
+import { buildSystemPrompt } from './system-prompt';
+import { modelRegistry } from './model-registry';
 
 const logger = createLogger();
 
+export interface OpenAIServiceOptions {
+  // Any OpenAI-compatible endpoint; defaults to the hosted API
+  baseURL?: string;
+  apiKey?: string;
+  // Servers without function calling fall back to the TOOL_CALL text protocol
+  nativeTools?: boolean;
+  maxTokens?: number;
+  // Ask for token usage at the end of the stream; older servers reject stream_options
+  streamUsage?: boolean;
+}
+
 export class OpenAIService extends LLMService {
-  private client: OpenAI;
-  private model: string;
+  protected client: OpenAI;
+  protected model: string;
+  protected nativeTools: boolean;
+  private maxTokens?: number;
+  private streamUsage: boolean;
 
-  constructor(model: string = 'gpt-4') {
+  constructor(model: string = 'gpt-4', options: OpenAIServiceOptions = {}) {
     super();
     this.model = model;
+    this.nativeTools = options.nativeTools ?? true;
+    this.maxTokens = options.maxTokens;
+    this.streamUsage = options.streamUsage ?? true;
     this.client = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+      baseURL: options.baseURL,
     });
   }
 
   async generateResponse(
     messages: LLMMessage[],
-    onStream?: (chunk: LLMStreamChunk) => void
+    onStream?: (chunk: LLMStreamChunk) => void,
+    options: LLMRequestOptions = {}
   ): Promise<LLMResponse> {
+    // Outside the try so a cancelled stream can still report them
+    let fullContent = '';
+    let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, cachedTokens: 0 };
+
     try {
       // Extract system message from conversation or use default
       const systemMessages = messages.filter(msg => msg.role === 'system');
-      const systemMessage = systemMessages.length > 0 
+      const baseSystemMessage = systemMessages.length > 0 
         ? systemMessages[systemMessages.length - 1].content  // Use the last system message
         : this.formatSystemMessage();
+      const systemMessage = this.nativeTools || options.withoutTools
+        ? baseSystemMessage
+        : `${baseSystemMessage}\n${this.formatToolsForLLM()}`;
       
       // Build formatted messages with system message first
-      const formattedMessages = [
-        { role: 'system' as const, content: systemMessage },
-        ...messages.filter(msg => msg.role !== 'system').map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        }))
+      const formattedMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        { role: 'system', content: systemMessage },
+        ...this.formatMessagesForOpenAI(messages.filter(msg => msg.role !== 'system'))
       ];
 
-      // Set appropriate max_tokens based on model capabilities
-      let maxTokens = 2000; // Default safe value
-      
-      if (this.model.includes('gpt-4o')) {
-        maxTokens = 32000; // GPT-4o has 128K context window
-      } else if (this.model.includes('gpt-4')) {
-        maxTokens = 2000; // GPT-4 has 8K context, system message uses ~4.7K, so max 2K for completion
-      } else if (this.model.includes('gpt-3.5')) {
-        maxTokens = 1000; // GPT-3.5 has 4K context, leave room for system message
-      } else if (this.model.includes('o1-')) {
-        maxTokens = 32000; // o1 models have higher limits
-      }
+      // Format tools for OpenAI's native function calling
+      const allTools = options.withoutTools ? [] : [...this.availableTools.mcp, ...this.availableTools.web];
+      const tools: OpenAI.Chat.ChatCompletionTool[] = !this.nativeTools ? [] : allTools.map(tool => ({
+        type: 'function',
+        function: {
+          name: this.toProviderToolName(tool.name),
+          description: tool.description || 'No description available',
+          parameters: tool.inputSchema || {
+            type: 'object',
+            properties: {},
+            required: []
+          }
+        }
+      }));
+
+      logger.info(`[OPENAI] Prepared ${tools.length} tools for API call:`, {
+        toolNames: tools.map(t => t.function.name)
+      });
+
+      // Output limit comes from the model registry unless the caller set one
+      const maxTokens = options.maxTokens ?? this.maxTokens ?? modelRegistry.getMaxOutputTokens(this.model);
 
       const stream = await this.client.chat.completions.create({
         model: this.model,
         messages: formattedMessages,
         stream: true,
-        temperature: 0.7,
+        ...(this.streamUsage && { stream_options: { include_usage: true } }),
+        temperature: options.temperature ?? 0.7,
         max_tokens: maxTokens,
-      });
+        // Only add tools if we actually have some
+        ...(tools.length > 0 && { tools }),
+      }, { signal: options.signal });
 
-      let fullContent = '';
-      let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let toolCalls: LLMToolCall[] = [];
+      let stopReason: string | undefined;
+      // Tool call arguments arrive as JSON string fragments keyed by tool call index
+      const pendingToolCalls = new Map<number, { id: string; name: string; json: string }>();
 
       for await (const chunk of stream) {
         const delta = chunk.choices[0]?.delta;
-        logger.info(`OpenAI chunk received:`, { hasContent: !!delta?.content, content: delta?.content?.substring(0, 20) });
+        logger.debug(`OpenAI chunk received:`, { hasContent: !!delta?.content, hasToolCalls: !!delta?.tool_calls });
         
         if (delta?.content) {
           fullContent += delta.content;
@@ -73,34 +114,85 @@ export class OpenAIService extends LLMService {
           });
         }
 
+        for (const toolCallDelta of delta?.tool_calls || []) {
+          const pending = pendingToolCalls.get(toolCallDelta.index) || { id: '', name: '', json: '' };
+          if (toolCallDelta.id) pending.id = toolCallDelta.id;
+          if (toolCallDelta.function?.name) pending.name += toolCallDelta.function.name;
+          if (toolCallDelta.function?.arguments) pending.json += toolCallDelta.function.arguments;
+          pendingToolCalls.set(toolCallDelta.index, pending);
+        }
+
         if (chunk.usage) {
           usage = {
             promptTokens: chunk.usage.prompt_tokens,
             completionTokens: chunk.usage.completion_tokens,
-            totalTokens: chunk.usage.total_tokens
+            totalTokens: chunk.usage.total_tokens,
+            cachedTokens: chunk.usage.prompt_tokens_details?.cached_tokens || 0
           };
         }
         
-        // Check if stream is finished
+        // Keep reading after finish_reason: the usage chunk follows it
         if (chunk.choices[0]?.finish_reason) {
-          logger.info(`OpenAI stream finished with reason: ${chunk.choices[0].finish_reason}`);
-          break;
+          stopReason = chunk.choices[0].finish_reason;
+          logger.info(`OpenAI stream finished with reason: ${stopReason}`);
         }
       }
       
       logger.info(`OpenAI response complete. Length: ${fullContent.length} chars`);
-      logger.info(`Full content: ${fullContent.substring(0, 200)}...`);
 
-      const toolCalls = this.parseToolCalls(fullContent);
-      const cleanContent = this.removeToolCallsFromContent(fullContent);
+      const orderedToolCalls = Array.from(pendingToolCalls.entries()).sort(([a], [b]) => a - b);
+      for (const [index, pending] of orderedToolCalls) {
+        let input: Record<string, any> = {};
+        if (pending.json) {
+          try {
+            input = JSON.parse(pending.json);
+          } catch (error) {
+            logger.warn(`Failed to parse streamed tool arguments for ${pending.name}`, { json: pending.json });
+          }
+        }
+
+        // Map sanitized tool name back to full name for MCP execution
+        const fullName = this.fromProviderToolName(pending.name);
+
+        const toolCall: LLMToolCall = {
+          id: pending.id || `openai-tool-${Date.now()}-${index}`,
+          name: fullName,
+          arguments: input || {}
+        };
+        toolCalls.push(toolCall);
+        onStream?.({
+          type: 'tool_call',
+          content: '',
+          toolCall
+        });
+        logger.info(`OpenAI tool call detected: ${toolCall.name}`, { arguments: toolCall.arguments });
+      }
+
+      // If no native tool calls were found, try to parse from content as fallback
+      if (toolCalls.length === 0) {
+        toolCalls = this.parseToolCalls(fullContent).map((call: MCPToolCall, index) => ({
+          id: `text-tool-${Date.now()}-${index}`,
+          name: call.name,
+          arguments: call.arguments || {}
+        }));
+        fullContent = this.removeToolCallsFromContent(fullContent);
+      }
 
       return {
-        message: cleanContent,
+        message: fullContent,
         toolCalls,
-        usage
+        stopReason,
+        // Servers without stream usage (most local ones) report nothing, but the tokens still count
+        usage: usage.totalTokens > 0
+          ? usage
+          : this.partialUsage(messages, usage, fullContent + toolCalls.map(call => JSON.stringify(call.arguments)).join(''))
       };
 
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw new OperationCancelledError('LLM response', this.partialUsage(messages, usage, fullContent));
+      }
+
       logger.error('OpenAI API error details:', {
         error: error,
         model: this.model,
@@ -111,31 +203,51 @@ export class OpenAIService extends LLMService {
     }
   }
 
+  // OpenAI expects tool_calls on the assistant turn followed by one tool message per call
+  private formatMessagesForOpenAI(messages: LLMMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return messages.map((msg): OpenAI.Chat.ChatCompletionMessageParam => {
+      if (!this.nativeTools && (msg.role === 'tool' || msg.toolCalls?.length)) {
+        return {
+          role: msg.role === 'tool' ? 'user' : 'assistant',
+          content: this.formatToolTurnAsText(msg)
+        };
+      }
+
+      if (msg.role === 'tool') {
+        return {
+          role: 'tool',
+          tool_call_id: msg.toolCallId || '',
+          content: msg.content || '(empty result)'
+        };
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+        return {
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: {
+              name: this.toProviderToolName(call.name),
+              arguments: JSON.stringify(call.arguments || {})
+            }
+          }))
+        };
+      }
+
+      return {
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content
+      };
+    });
+  }
+
   private formatSystemMessage(): string {
-    return `You are a ServiceNow AI assistant that helps users manage their ServiceNow instance through natural language.
-
-${this.formatToolsForLLM()}
-
-Core Behavior Guidelines:
-- ALWAYS be proactive and complete multi-step workflows automatically
-- When a user requests something complex, break it down and execute ALL necessary steps
-- Use multiple tools in sequence to complete full workflows
-- Provide real-time progress updates as you work
-- After creating records, immediately set up related configurations
-- Suggest logical next steps and offer to execute them automatically
-
-Workflow Examples:
-- "Create catalog item" → Create item + Add variables + Set approval workflow + Configure UI policies
-- "New incident process" → Create incident template + Set assignment rules + Configure notifications
-- "Setup hardware request" → Create catalog item + Add approval chain + Configure variables + Test workflow
-
-Communication Style:
-- Start with "I'll help you [specific task]" 
-- Show each step: "Creating catalog item..." → "Adding variables..." → "Setting up workflow..."
-- Always end with: "What would you like to configure next?" or "Shall I set up [related feature]?"
-- Use tool calls immediately - don't wait for user confirmation on obvious next steps
-- Be enthusiastic and solution-oriented
-
-Remember: Complete workflows, don't just do single tasks. Think like a ServiceNow expert who anticipates needs.`;
+    return buildSystemPrompt({
+      instanceUrl: process.env.SERVICENOW_INSTANCE_URL,
+      userTimezone: 'UTC',
+      availableTools: this.availableTools.mcp
+    });
   }
-}
\ No newline at end of file
+}
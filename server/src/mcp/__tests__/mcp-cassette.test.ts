@@ -0,0 +1,134 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CASSETTE_VERSION,
+  MCPCassette,
+  createRecordingTransport,
+  createReplayTransport,
+  loadCassette
+} from '../mcp-cassette';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-cassette-'));
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+function interaction(name: string, args: Record<string, unknown>, text: string) {
+  return {
+    server: 'servicenow-mcp',
+    request: { name, arguments: args },
+    response: { result: { content: [{ type: 'text', text }] } },
+    durationMs: 10,
+    recordedAt: '2026-01-01T00:00:00.000Z'
+  };
+}
+
+// Sends one request and waits for the transport to answer it
+function request(transport: Transport, method: string, params: Record<string, unknown>): Promise<JSONRPCMessage> {
+  return new Promise(resolve => {
+    transport.onmessage = resolve;
+    transport.send({ jsonrpc: '2.0', id: 1, method, params });
+  });
+}
+
+describe('loadCassette', () => {
+  it('refuses files that are not cassettes or are from a newer version', () => {
+    const file = path.join(tempDir, 'bad.json');
+
+    fs.writeFileSync(file, JSON.stringify({ interactions: [] }));
+    expect(() => loadCassette(file)).toThrow('is not an MCP cassette');
+
+    fs.writeFileSync(file, JSON.stringify({ version: CASSETTE_VERSION + 1, interactions: [] }));
+    expect(() => loadCassette(file)).toThrow(/reads up to version/);
+  });
+});
+
+describe('replay', () => {
+  const cassette: MCPCassette = {
+    version: CASSETTE_VERSION,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    servers: { 'servicenow-mcp': { tools: [{ name: 'query-records' }] } },
+    interactions: [
+      interaction('query-records', { table: 'incident', limit: 5 }, 'first'),
+      interaction('query-records', { table: 'incident', limit: 5 }, 'second'),
+      interaction('query-records', { table: 'problem' }, 'problems'),
+      {
+        ...interaction('update-record', { table: 'incident' }, ''),
+        response: { error: { code: -32603, message: 'Record is locked' } }
+      }
+    ]
+  };
+  let transport: Transport;
+
+  beforeAll(() => {
+    const file = path.join(tempDir, 'replay.json');
+    fs.writeFileSync(file, JSON.stringify(cassette));
+    transport = createReplayTransport(file, 'servicenow-mcp');
+  });
+
+  function callTool(name: string, args: Record<string, unknown>) {
+    return request(transport, 'tools/call', { name, arguments: args });
+  }
+
+  it('serves identical calls in recorded order, then repeats the last one', async () => {
+    const texts = [];
+    for (let i = 0; i < 3; i++) {
+      // Key order doesn't matter for a match
+      const reply: any = await callTool('query-records', { limit: 5, table: 'incident' });
+      texts.push(reply.result.content[0].text);
+    }
+    expect(texts).toEqual(['first', 'second', 'second']);
+  });
+
+  it('matches on arguments, not just the tool', async () => {
+    const reply: any = await callTool('query-records', { table: 'problem' });
+    expect(reply.result.content[0].text).toBe('problems');
+
+    const missing: any = await callTool('query-records', { table: 'change_request' });
+    expect(missing.error.message).toMatch(/^No recorded call to query-records with these arguments/);
+  });
+
+  it('replays recorded errors', async () => {
+    const reply: any = await callTool('update-record', { table: 'incident' });
+    expect(reply.error).toEqual({ code: -32603, message: 'Record is locked' });
+  });
+
+  it('answers tools/list from the recording and refuses unrecorded servers', async () => {
+    const tools: any = await request(transport, 'tools/list', {});
+    expect(tools.result).toEqual({ tools: [{ name: 'query-records' }] });
+
+    const other = createReplayTransport('unused', 'jira');
+    const reply: any = await request(other, 'tools/list', {});
+    expect(reply.error.message).toMatch(/has no recording of server jira/);
+  });
+});
+
+describe('recording', () => {
+  it('writes each tool call as it was sent over the wire', async () => {
+    const file = path.join(tempDir, 'recorded.json');
+    const inner: Transport = {
+      start: async () => undefined,
+      close: async () => undefined,
+      send: async (message: any) => {
+        setImmediate(() => inner.onmessage?.({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: { content: [{ type: 'text', text: `called ${message.params.name}` }] }
+        }));
+      }
+    };
+    const transport = createRecordingTransport(inner, file, 'servicenow-mcp');
+    await transport.start();
+
+    await request(transport, 'tools/call', { name: 'query-records', arguments: { table: 'incident' } });
+
+    const recorded = loadCassette(file);
+    expect(recorded.interactions).toHaveLength(1);
+    expect(recorded.interactions[0]).toMatchObject({
+      server: 'servicenow-mcp',
+      request: { name: 'query-records', arguments: { table: 'incident' } },
+      response: { result: { content: [{ type: 'text', text: 'called query-records' }] } }
+    });
+  });
+});
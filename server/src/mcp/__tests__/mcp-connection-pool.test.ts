@@ -0,0 +1,137 @@
+jest.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    mCPConnection = { upsert: jest.fn(async () => ({})), updateMany: jest.fn(async () => ({})) };
+  },
+  ConnectionStatus: { CONNECTING: 'CONNECTING', CONNECTED: 'CONNECTED', DISCONNECTED: 'DISCONNECTED', ERROR: 'ERROR' }
+}));
+
+// Set per test; every new client connects or fails according to it
+let connectError: Error | null = null;
+const clients: Array<{ onclose?: () => void; transport?: object }> = [];
+
+jest.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
+  Client: class {
+    transport?: object;
+    onclose?: () => void;
+    onerror?: (error: Error) => void;
+    constructor() {
+      clients.push(this);
+    }
+    async connect(transport: object) {
+      if (connectError) {
+        throw connectError;
+      }
+      this.transport = transport;
+    }
+    setNotificationHandler() {}
+    async close() {
+      this.transport = undefined;
+    }
+  }
+}));
+jest.mock('@modelcontextprotocol/sdk/types.js', () => ({ ToolListChangedNotificationSchema: {} }));
+jest.mock('../mcp-transport', () => ({
+  createTransport: () => ({}),
+  describeTransport: () => 'stdio: test',
+  getTransportConfigFromEnv: () => ({ type: 'stdio' }),
+  validateTransportConfig: () => undefined
+}));
+jest.mock('../mcp-server-registry', () => ({ mcpServerRegistry: { getServer: () => undefined } }));
+jest.mock('../mcp-server-logs', () => ({ mcpServerLogs: { attach: jest.fn(), detach: jest.fn() } }));
+jest.mock('../mcp-sampling', () => ({
+  mcpSampling: { attach: jest.fn(), detach: jest.fn(), getClientCapabilities: () => ({}) }
+}));
+
+import { MCPConnectionPool } from '../mcp-connection-pool';
+import { CircuitOpenError } from '../../utils/error-handler';
+
+describe('MCPConnectionPool circuit breaker', () => {
+  let pool: MCPConnectionPool;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    connectError = null;
+    clients.length = 0;
+    pool = new MCPConnectionPool({
+      serverName: 'jira',
+      minConnections: 0,
+      maxConnections: 1,
+      acquireTimeout: 1000,
+      circuitFailureThreshold: 2,
+      circuitResetTimeout: 30000
+    });
+  });
+
+  afterEach(async () => {
+    await pool.shutdown();
+    jest.useRealTimers();
+  });
+
+  it('opens after consecutive failures and refuses connections until the reset timeout', async () => {
+    pool.recordFailure('tool call failed');
+    expect(pool.getPoolStats().circuit.state).toBe('closed');
+    pool.recordFailure('tool call failed');
+
+    expect(pool.getPoolStats().circuit).toMatchObject({ state: 'open', failures: 2, opens: 1 });
+    await expect(pool.acquire()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(clients).toHaveLength(0);
+  });
+
+  it('resets the failure count on success', () => {
+    pool.recordFailure('tool call failed');
+    pool.recordSuccess();
+    pool.recordFailure('tool call failed');
+
+    expect(pool.getPoolStats().circuit.state).toBe('closed');
+  });
+
+  it('lets a call through once the reset timeout passes, and that call decides the state', async () => {
+    pool.recordFailure('tool call failed');
+    pool.recordFailure('tool call failed');
+    jest.setSystemTime(30000);
+
+    const conn = await pool.acquire();
+    expect(pool.getPoolStats().circuit.state).toBe('half-open');
+
+    // A single failure while half-open opens it again
+    pool.recordFailure('still failing');
+    expect(pool.getPoolStats().circuit).toMatchObject({ state: 'open', opens: 2 });
+    await pool.release(conn.id);
+
+    jest.setSystemTime(60000);
+    await pool.release((await pool.acquire()).id);
+    pool.recordSuccess();
+    expect(pool.getPoolStats().circuit.state).toBe('closed');
+  });
+
+  it('counts failed connection attempts and fails the acquire that opened the circuit', async () => {
+    connectError = new Error('ECONNREFUSED');
+    pool.recordFailure('tool call failed');
+
+    // The create failure opens the circuit instead of queueing for the acquire timeout
+    await expect(pool.acquire()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(pool.getPoolStats().lifecycle.createFailures).toBe(1);
+  });
+
+  it('rejects callers waiting for a connection when the circuit opens', async () => {
+    await pool.acquire();
+    const waiting = pool.acquire();
+
+    pool.recordFailure('tool call failed');
+    pool.recordFailure('tool call failed');
+
+    await expect(waiting).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(pool.getPoolStats().waiting).toBe(0);
+  });
+
+  it('drops a connection whose transport closed and opens a new one', async () => {
+    const first = await pool.acquire();
+    await pool.release(first.id);
+    clients[0].transport = undefined;
+
+    const second = await pool.acquire();
+
+    expect(second.id).not.toBe(first.id);
+    expect(pool.getPoolStats().lifecycle).toMatchObject({ created: 2, lost: 1 });
+  });
+});
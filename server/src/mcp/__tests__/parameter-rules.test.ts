@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  applyParameterRule,
+  parseParameterRules,
+  ParameterRule,
+  ParameterRuleEngine,
+  validateParameterRules
+} from '../parameter-rules';
+
+const RULES_PATH = path.resolve(__dirname, '../../../parameter-rules.yaml');
+
+describe('validateParameterRules', () => {
+  const rule = { name: 'r', tools: ['x'], shape: 'structured' };
+
+  it('accepts a minimal rule set', () => {
+    expect(validateParameterRules({ version: 1, rules: [rule] })).toBeNull();
+  });
+
+  it('names the rule that is wrong', () => {
+    expect(validateParameterRules({ version: 2, rules: [] })).toBe('version must be 1');
+    expect(validateParameterRules({ version: 1, rules: [rule, rule] })).toBe('rule name "r" is used twice');
+    expect(validateParameterRules({ version: 1, rules: [{ ...rule, shape: 'command', template: '{{name}}' }] }))
+      .toBe('rule "r": template uses {{name}} but no field defines it');
+    expect(validateParameterRules({ version: 1, rules: [{ ...rule, extract: [{ pattern: '(' , set: {} }] }] }))
+      .toMatch(/^rule "r": Invalid regular expression/);
+    expect(validateParameterRules({ version: 1, rules: [{ ...rule, extract: [{ captures: { a: 1 } }] }] }))
+      .toBe('rule "r": capture "a" needs a pattern to capture from');
+  });
+
+  it('accepts the shipped rules file', () => {
+    expect(() => parseParameterRules(fs.readFileSync(RULES_PATH, 'utf-8'), RULES_PATH)).not.toThrow();
+  });
+});
+
+describe('applyParameterRule', () => {
+  const commandRule: ParameterRule = {
+    name: 'catalog',
+    tools: ['create-catalog-item'],
+    shape: 'command',
+    template: "Create '{{name}}' in {{category}} with {{toolWords}}",
+    fields: {
+      name: { from: ['name', 'title'], default: 'New Item', stripQuotes: true },
+      category: { default: 'General' }
+    },
+    extract: [
+      { when: 'empty', pattern: "called '([^']+)'", captures: { name: 1 } },
+      { pattern: 'in ([A-Z]\\w+)$', override: true, captures: { category: 1 } }
+    ]
+  };
+
+  it('renders the command template from fields and defaults', () => {
+    const result = applyParameterRule(commandRule, 'servicenow-mcp:create-catalog-item', { title: '"Laptop"' });
+
+    expect(result.arguments).toEqual({ command: "Create 'Laptop' in General with create catalog item" });
+    expect(result.fields).toEqual({ name: 'Laptop', category: 'General' });
+  });
+
+  it('keeps a command the model wrote', () => {
+    const result = applyParameterRule(commandRule, 'create-catalog-item', { command: 'as written' }, "called 'X'");
+    expect(result.arguments).toEqual({ command: 'as written' });
+  });
+
+  it('only runs "empty" extractions when the model sent no arguments', () => {
+    const message = "Create a catalog item called 'Badge Request' in Security";
+
+    const fromMessage = applyParameterRule(commandRule, 'create-catalog-item', {}, message);
+    expect(fromMessage.fields).toEqual({ name: 'Badge Request', category: 'Security' });
+    expect(fromMessage.matchedExtractions).toHaveLength(2);
+
+    const fromModel = applyParameterRule(commandRule, 'create-catalog-item', { name: 'Model Name', category: 'IT' }, message);
+    expect(fromModel.fields).toEqual({ name: 'Model Name', category: 'Security' });
+  });
+
+  it('transforms and maps captured values', () => {
+    const rule: ParameterRule = {
+      name: 'variable',
+      tools: ['create-variable'],
+      shape: 'structured',
+      passthrough: true,
+      extract: [{
+        pattern: 'add an? (\\w+) field called ([\\w ]+)',
+        flags: 'i',
+        captures: { type: { group: 1, map: { text: 'string' } }, name: { group: 2, transform: 'snake_case' } }
+      }]
+    };
+
+    const result = applyParameterRule(rule, 'create-variable', {}, 'Add a text field called Employee Name');
+    expect(result.arguments).toEqual({ type: 'string', name: 'employee_name' });
+  });
+
+  it('fills nested arguments, omits and drops empty values', () => {
+    const rule: ParameterRule = {
+      name: 'record',
+      tools: ['create-record'],
+      shape: 'structured',
+      passthrough: true,
+      omit: ['command'],
+      dropEmpty: true,
+      fields: { table: { default: 'incident' } },
+      extract: [{ pattern: 'about (.+)$', captures: { 'fields.short_description': 1 } }]
+    };
+
+    const result = applyParameterRule(rule, 'create-record', { command: 'x', assigned_to: '' }, 'Open one about the VPN');
+    expect(result.arguments).toEqual({ table: 'incident', fields: { short_description: 'the VPN' } });
+  });
+
+  it('sends nothing for empty rules', () => {
+    const rule: ParameterRule = { name: 'none', tools: ['list'], shape: 'empty' };
+    expect(applyParameterRule(rule, 'list', { a: 1 }).arguments).toEqual({});
+  });
+});
+
+describe('ParameterRuleEngine with the shipped rules', () => {
+  const engine = new ParameterRuleEngine(RULES_PATH);
+  beforeAll(() => engine.reload());
+
+  it('finds the catalog item name and category in the request', () => {
+    const result = engine.apply('servicenow-mcp:create-catalog-item', {}, "Create a catalog item called 'Laptop Request' in Hardware");
+
+    expect(result.rule).toBe('catalog-item');
+    expect(result.fields).toEqual({ name: 'Laptop Request', category: 'Hardware' });
+    expect(result.arguments).toEqual({ command: "Create a catalog item called 'Laptop Request' in Hardware" });
+  });
+
+  it('leaves tools without a rule alone', () => {
+    const args = { anything: true };
+    expect(engine.apply('jira:search', args)).toEqual({ rule: null, arguments: args, fields: {}, matchedExtractions: [] });
+  });
+});
@@ -0,0 +1,49 @@
+import { buildProviderToolNames, parseToolName, toProviderToolName } from '../tool-namespace';
+
+describe('parseToolName', () => {
+  it('splits at the first separator only', () => {
+    expect(parseToolName('jira:search')).toEqual({ server: 'jira', tool: 'search' });
+    expect(parseToolName('jira:ns:search')).toEqual({ server: 'jira', tool: 'ns:search' });
+    expect(parseToolName('search')).toEqual({ tool: 'search' });
+  });
+});
+
+describe('toProviderToolName', () => {
+  it('keeps ServiceNow tools bare and prefixes the others', () => {
+    expect(toProviderToolName('servicenow-mcp:query-records')).toBe('query-records');
+    expect(toProviderToolName('jira:search.issues')).toBe('jira__search_issues');
+  });
+
+  it('truncates to the provider limit', () => {
+    expect(toProviderToolName(`jira:${'a'.repeat(100)}`)).toHaveLength(64);
+  });
+});
+
+describe('buildProviderToolNames', () => {
+  it('leaves names alone when nothing collides', () => {
+    const names = buildProviderToolNames(['servicenow-mcp:query-records', 'jira:search']);
+    expect(Array.from(names.values())).toEqual(['query-records', 'jira__search']);
+  });
+
+  it('gives colliding tools distinct names, with ServiceNow keeping its own', () => {
+    const names = buildProviderToolNames(['jira:search', 'servicenow-mcp:jira__search', 'jira:search!']);
+    const providerNames = Array.from(names.values());
+
+    expect(names.get('servicenow-mcp:jira__search')).toBe('jira__search');
+    expect(new Set(providerNames).size).toBe(3);
+    providerNames.forEach(name => expect(name).toMatch(/^[a-zA-Z0-9_-]{1,64}$/));
+  });
+
+  it('keeps names unique after truncation', () => {
+    const long = 'a'.repeat(70);
+    const names = buildProviderToolNames([`jira:${long}1`, `jira:${long}2`]);
+
+    expect(new Set(names.values()).size).toBe(2);
+    names.forEach(name => expect(name).toHaveLength(64));
+  });
+
+  it('is stable regardless of tool order', () => {
+    const tools = ['jira:a.b', 'jira:a_b', 'jira:a-b'];
+    expect(buildProviderToolNames(tools)).toEqual(buildProviderToolNames([...tools].reverse()));
+  });
+});
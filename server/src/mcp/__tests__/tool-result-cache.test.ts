@@ -0,0 +1,77 @@
+import { MemoryCacheBackend, ToolResultCache } from '../tool-result-cache';
+
+const SERVER = 'servicenow-mcp';
+
+describe('ToolResultCache', () => {
+  let cache: ToolResultCache;
+
+  beforeEach(() => {
+    cache = new ToolResultCache();
+  });
+
+  afterEach(() => cache.close());
+
+  async function cacheRead(args: any, userId = 'user-1') {
+    await cache.set(userId, SERVER, 'query-records', args, { rows: [] }, 60000);
+  }
+
+  function isCached(args: any, userId = 'user-1') {
+    return cache.get(userId, SERVER, 'query-records', args).then(entry => entry !== null);
+  }
+
+  it('only caches reads, and never tools that check live state', () => {
+    expect(cache.getTtl('servicenow-mcp:query-records')).toBe(60000);
+    expect(cache.getTtl('servicenow-mcp:update-record')).toBe(0);
+    expect(cache.getTtl('servicenow-mcp:test-connection')).toBe(0);
+    expect(cache.getTtl('servicenow-mcp:custom', { annotations: { readOnlyHint: true } })).toBe(60000);
+  });
+
+  it('hits regardless of argument key order', async () => {
+    await cacheRead({ table: 'incident', limit: 5 });
+    expect(await isCached({ limit: 5, table: 'incident' })).toBe(true);
+    expect(await isCached({ limit: 5, table: 'incident' }, 'user-2')).toBe(false);
+  });
+
+  it('clears reads of the written table and reads that named no table', async () => {
+    await cacheRead({ table: 'incident' });
+    await cacheRead({ table: 'problem' });
+    await cacheRead({ query: 'active=true' });
+
+    await cache.invalidateForWrite(SERVER, 'update-record', { table: 'Incident' });
+
+    expect(await isCached({ table: 'incident' })).toBe(false);
+    expect(await isCached({ query: 'active=true' })).toBe(false);
+    expect(await isCached({ table: 'problem' })).toBe(true);
+  });
+
+  it('clears everything for the server when the write names no table', async () => {
+    await cacheRead({ table: 'incident' });
+    await cacheRead({});
+    await cache.set('user-1', 'jira', 'search', {}, { issues: [] }, 60000);
+
+    await cache.invalidateForWrite(SERVER, 'create-catalog-item', { command: 'Create a laptop item' });
+
+    expect(await isCached({ table: 'incident' })).toBe(false);
+    expect(await isCached({})).toBe(false);
+    expect(await cache.get('user-1', 'jira', 'search', {})).not.toBeNull();
+    expect(cache.getStats().invalidations).toBe(2);
+  });
+});
+
+describe('MemoryCacheBackend', () => {
+  it('evicts the oldest entry and drops it from its tags', async () => {
+    const backend = new MemoryCacheBackend(2);
+    await backend.set('a', '1', 60000, ['t']);
+    await backend.set('b', '2', 60000, ['t']);
+    await backend.set('c', '3', 60000, ['t']);
+
+    expect(await backend.get('a')).toBeNull();
+    expect(await backend.invalidateTag('t')).toBe(2);
+  });
+
+  it('expires entries after their TTL', async () => {
+    const backend = new MemoryCacheBackend(10);
+    await backend.set('a', '1', 0, []);
+    expect(await backend.get('a')).toBeNull();
+  });
+});
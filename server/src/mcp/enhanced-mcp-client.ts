@@ -1,7 +1,27 @@
-import { getMCPConnectionPool, PooledConnection } from './mcp-connection-pool';
+import { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { getMCPConnectionPool, MCPConnectionPool, PooledConnection } from './mcp-connection-pool';
+import { mcpServerRegistry } from './mcp-server-registry';
+import { DEFAULT_MCP_SERVER, namespaceToolName, parseToolName, stripServerPrefix } from './tool-namespace';
+import {
+  MCPContentSource,
+  listServerResources,
+  readServerResource,
+  listServerPrompts,
+  getServerPrompt
+} from './mcp-content';
+import { MCPResource, MCPResourceContent, MCPPrompt, MCPPromptResult, MCPServerLogEntry } from '../../../shared/src/types/mcp';
 import { createLogger } from '../utils/logger';
+import { asJsonValue } from '../utils/json';
 import { PrismaClient } from '@prisma/client';
 import { MCPParameterTransformer } from './mcp-parameter-transformer';
+import { EventEmitter } from 'events';
+import { toolArgumentValidator, formatToolArgumentIssues, ToolArgumentIssue } from '../validators/tool-argument-validator';
+import { toolResultCache } from './tool-result-cache';
+import { classifyToolOperation } from './tool-classification';
+import { getToolTimeoutMs, toToolCallError } from './tool-timeouts';
+import { OperationCancelledError, ToolTimeoutError } from '../utils/error-handler';
+import { mcpServerLogs } from './mcp-server-logs';
+import { mcpSampling, MCPSamplingHandler } from './mcp-sampling';
 
 const logger = createLogger();
 const prisma = new PrismaClient();
@@ -15,6 +35,11 @@ export interface MCPTool {
   name: string;
   description?: string;
   inputSchema: any;
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+  };
 }
 
 export interface MCPToolCall {
@@ -29,18 +54,56 @@ export interface MCPToolResult {
     image?: any;
   }>;
   isError?: boolean;
+  // Set when the arguments failed the tool's inputSchema and the server was never called
+  validationErrors?: ToolArgumentIssue[];
+  // Served from the read-through cache instead of the server
+  cached?: boolean;
+  cachedAt?: string;
+  // What the server logged during this call, never cached
+  serverLogs?: MCPServerLogEntry[];
 }
 
-export class EnhancedMCPClient {
-  private pool = getMCPConnectionPool();
+export interface ToolExecutionOptions {
+  skipTransform?: boolean;
+  // Cached results are only shared within one user's calls; without it nothing is cached
+  userId?: string;
+  // Aborting cancels the call on the server as well
+  signal?: AbortSignal;
+  // notifications/progress from the server; each one also restarts the tool's timeout
+  onProgress?: (progress: Progress) => void;
+  // Answers sampling/createMessage from servers allowed to sample; the wait counts towards the timeout
+  onSamplingRequest?: MCPSamplingHandler;
+}
+
+export class EnhancedMCPClient extends EventEmitter implements MCPContentSource {
+  private pools: Map<string, MCPConnectionPool> = new Map();
+  private serverTools: Map<string, MCPTool[]> = new Map();
   private availableTools: MCPTool[] = [];
   private toolsLoaded = false;
+  private toolRefreshTimers: Map<string, NodeJS.Timeout> = new Map();
+  private toolRefreshDebounceMs = parseInt(process.env.MCP_TOOLS_REFRESH_DEBOUNCE_MS || '500');
 
   async initialize(): Promise<void> {
     try {
-      await this.pool.initialize();
+      // One unreachable server shouldn't take the others down with it
+      for (const server of mcpServerRegistry.getEnabledServers()) {
+        const pool = getMCPConnectionPool(server.name);
+        try {
+          await pool.initialize();
+          this.pools.set(server.name, pool);
+          pool.on('toolsChanged', () => this.scheduleToolRefresh(server.name));
+        } catch (error) {
+          logger.error(`[MCP-CLIENT] Failed to start MCP server "${server.name}":`, error);
+          await pool.shutdown();
+        }
+      }
+
+      if (this.pools.size === 0) {
+        throw new Error('No MCP server could be connected');
+      }
+
       await this.fetchAvailableTools();
-      logger.info('Enhanced MCP client initialized');
+      logger.info('Enhanced MCP client initialized', { servers: Array.from(this.pools.keys()) });
     } catch (error) {
       logger.error('Failed to initialize enhanced MCP client:', error);
       throw error;
@@ -48,12 +111,68 @@ export class EnhancedMCPClient {
   }
 
   private async fetchAvailableTools(): Promise<void> {
+    for (const [serverName, pool] of this.pools) {
+      try {
+        this.serverTools.set(serverName, await this.fetchServerTools(serverName, pool));
+      } catch (error) {
+        logger.error(`[MCP-CLIENT] Failed to fetch available tools from ${serverName}:`, error);
+        this.serverTools.set(serverName, []);
+      }
+    }
+
+    this.rebuildAvailableTools();
+    this.toolsLoaded = true;
+
+    logger.info(`[MCP-CLIENT] Loaded ${this.availableTools.length} MCP tools:`, 
+      this.availableTools.map(t => t.name)
+    );
+  }
+
+  private rebuildAvailableTools(): void {
+    const tools = Array.from(this.serverTools.values()).flat();
+    // Enhance tool schemas if they're missing or incomplete
+    this.availableTools = this.enhanceToolSchemas(tools);
+  }
+
+  // A server sends tools/list_changed on each pooled session, so collapse the burst into one refresh
+  private scheduleToolRefresh(serverName: string): void {
+    const pending = this.toolRefreshTimers.get(serverName);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.toolRefreshTimers.set(serverName, setTimeout(() => {
+      this.toolRefreshTimers.delete(serverName);
+      this.refreshServerTools(serverName).catch(error => {
+        logger.error(`[MCP-CLIENT] Failed to refresh tools from ${serverName}:`, error);
+      });
+    }, this.toolRefreshDebounceMs));
+  }
+
+  /**
+   * Re-list one server's tools after it announced a change. On failure the
+   * previous list stays in place rather than dropping the server's tools.
+   */
+  async refreshServerTools(serverName: string): Promise<void> {
+    const pool = this.pools.get(serverName);
+    if (!pool) {
+      return;
+    }
+
+    this.serverTools.set(serverName, await this.fetchServerTools(serverName, pool));
+    this.rebuildAvailableTools();
+
+    logger.info(`[MCP-CLIENT] Tool list changed on ${serverName}, now ${this.availableTools.length} MCP tools`);
+    this.emit('toolsUpdated', this.availableTools);
+  }
+
+  private async fetchServerTools(serverName: string, pool: MCPConnectionPool): Promise<MCPTool[]> {
     let connection: PooledConnection | null = null;
     
     try {
-      connection = await this.pool.acquire();
+      connection = await pool.acquire();
       
-      logger.info('[MCP-CLIENT] Fetching available tools from MCP server');
+      logger.info(`[MCP-CLIENT] Fetching available tools from MCP server ${serverName}`);
       
       const response = await connection.client.listTools();
 
@@ -65,26 +184,15 @@ export class EnhancedMCPClient {
         console.log(`🔧 [MCP-CLIENT] Tool ${tool.name} schema:`, JSON.stringify(tool.inputSchema, null, 2));
       });
 
-      this.availableTools = response.tools.map(tool => ({
-        name: `servicenow-mcp:${tool.name}`, // Add the prefix expected by the LLM
+      return response.tools.map(tool => ({
+        name: namespaceToolName(serverName, tool.name), // Add the prefix expected by the LLM
         description: tool.description,
-        inputSchema: tool.inputSchema
+        inputSchema: tool.inputSchema,
+        annotations: tool.annotations
       }));
-
-      // Enhance tool schemas if they're missing or incomplete
-      this.availableTools = this.enhanceToolSchemas(this.availableTools);
-
-      this.toolsLoaded = true;
-      
-      logger.info(`[MCP-CLIENT] Loaded ${this.availableTools.length} ServiceNow MCP tools:`, 
-        this.availableTools.map(t => t.name)
-      );
-    } catch (error) {
-      logger.error('[MCP-CLIENT] Failed to fetch available tools:', error);
-      this.availableTools = [];
     } finally {
       if (connection) {
-        await this.pool.release(connection.id);
+        await pool.release(connection.id);
       }
     }
   }
@@ -324,11 +432,21 @@ export class EnhancedMCPClient {
     return this.availableTools;
   }
 
-  async executeTool(toolCall: MCPToolCall, messageId?: string, userMessage?: string): Promise<MCPToolResult> {
+  async executeTool(
+    toolCall: MCPToolCall,
+    messageId?: string,
+    userMessage?: string,
+    options: ToolExecutionOptions = {}
+  ): Promise<MCPToolResult> {
     let connection: PooledConnection | null = null;
+    let recycleConnection = false;
+    let serverLogs: MCPServerLogEntry[] = [];
     const startTime = Date.now();
+    const serverName = mcpServerRegistry.resolveServer(toolCall.name, this.availableTools.map(t => t.name));
+    const pool = this.pools.get(serverName);
     
     // Create tool execution record if messageId provided
+    const timeoutMs = getToolTimeoutMs(toolCall.name);
     let toolExecutionId: string | null = null;
     if (messageId) {
       const toolExecution = await prisma.toolExecution.create({
@@ -343,11 +461,12 @@ export class EnhancedMCPClient {
     }
 
     try {
-      connection = await this.pool.acquire();
-      
+      if (!pool) {
+        throw new Error(`MCP server "${serverName}" is not connected`);
+      }
       logger.info(`[MCP-CLIENT] Executing tool: ${toolCall.name}`, { 
         arguments: toolCall.arguments,
-        connectionId: connection.id,
+        server: serverName,
         messageId,
         hasUserMessage: !!userMessage,
         userMessageLength: userMessage?.length || 0
@@ -358,8 +477,8 @@ export class EnhancedMCPClient {
       console.log(`🚀 [TOOL-EXECUTION] User message available:`, !!userMessage);
       console.log(`🚀 [FIX-VERIFICATION] Enhanced MCP client with parameter extraction: ACTIVE`);
       
-      // Handle tool name translation - remove the servicenow-mcp: prefix for the actual MCP call
-      const actualToolName = toolCall.name.replace('servicenow-mcp:', '');
+      // Handle tool name translation - remove the server prefix for the actual MCP call
+      const actualToolName = stripServerPrefix(toolCall.name);
       
       logger.debug(`[MCP-CLIENT] Sending to MCP server:`, {
         method: 'callTool',
@@ -368,12 +487,14 @@ export class EnhancedMCPClient {
         params: { name: actualToolName, arguments: toolCall.arguments }
       });
       
-      // Transform parameters before sending to MCP server
-      const transformedArguments = MCPParameterTransformer.transformParameters(
-        toolCall.name,
-        toolCall.arguments,
-        userMessage
-      );
+      // Transform parameters before sending to MCP server (plans arrive already transformed)
+      const transformedArguments = options.skipTransform
+        ? toolCall.arguments
+        : MCPParameterTransformer.transformParameters(
+          toolCall.name,
+          toolCall.arguments,
+          userMessage
+        );
 
       // Log the exact parameters being sent
       logger.info(`[ENHANCED-MCP-CLIENT] Parameter transformation applied:`, {
@@ -383,15 +504,82 @@ export class EnhancedMCPClient {
         transformedArguments: transformedArguments,
         argumentKeys: Object.keys(transformedArguments)
       });
-      
+
+      // Validate against the schema the server published, not the one enhanced for the LLM
+      const serverTool = this.serverTools.get(serverName)?.find(tool => stripServerPrefix(tool.name) === actualToolName);
+      const validation = toolArgumentValidator.validate(toolCall.name, serverTool?.inputSchema, transformedArguments);
+      if (!validation.valid) {
+        logger.warn(`[MCP-CLIENT] Rejected arguments for ${toolCall.name}`, { issues: validation.issues });
+        const invalidResult: MCPToolResult = {
+          content: [{ type: 'text', text: formatToolArgumentIssues(toolCall.name, validation.issues) }],
+          isError: true,
+          validationErrors: validation.issues
+        };
+
+        if (toolExecutionId) {
+          await prisma.toolExecution.update({
+            where: { id: toolExecutionId },
+            data: {
+              result: asJsonValue(invalidResult),
+              status: 'FAILED',
+              executionTime: Date.now() - startTime,
+              error: invalidResult.content[0].text,
+              metadata: { validationErrors: validation.issues }
+            }
+          });
+        }
+        return invalidResult;
+      }
+
+      const cacheTtl = options.userId ? toolResultCache.getTtl(toolCall.name, serverTool) : 0;
+      if (cacheTtl > 0) {
+        const cached = await toolResultCache.get<MCPToolResult>(options.userId!, serverName, toolCall.name, validation.arguments);
+        if (cached) {
+          logger.info(`[MCP-CLIENT] Serving ${toolCall.name} from cache`, { cachedAt: cached.cachedAt });
+          const cachedResult: MCPToolResult = { ...cached.result, cached: true, cachedAt: cached.cachedAt };
+
+          if (toolExecutionId) {
+            await prisma.toolExecution.update({
+              where: { id: toolExecutionId },
+              data: {
+                result: asJsonValue(cachedResult),
+                status: 'COMPLETED',
+                executionTime: Date.now() - startTime,
+                metadata: { cached: true, cachedAt: cached.cachedAt }
+              }
+            });
+          }
+          return cachedResult;
+        }
+      }
+
+      connection = await pool.acquire();
+      // Stopped while waiting for a free connection
+      if (options.signal?.aborted) {
+        throw new OperationCancelledError(`tool ${toolCall.name}`);
+      }
+      mcpServerLogs.beginExecution(connection.id, {
+        id: toolExecutionId || undefined,
+        toolName: toolCall.name,
+        messageId
+      });
+      mcpSampling.beginExecution(connection.id, toolCall.name, options.onSamplingRequest);
       const response = await connection.client.callTool({
         name: actualToolName,
-        arguments: transformedArguments
+        arguments: validation.arguments
+      }, undefined, {
+        signal: options.signal,
+        timeout: timeoutMs,
+        onprogress: options.onProgress,
+        resetTimeoutOnProgress: !!options.onProgress
       });
+      serverLogs = mcpServerLogs.endExecution(connection.id);
+      mcpSampling.endExecution(connection.id);
 
       const executionTime = Date.now() - startTime;
       
       logger.info(`[MCP-CLIENT] Tool response received: ${toolCall.name}`, {
+        connectionId: connection.id,
         executionTime: `${executionTime}ms`,
         responseContent: response.content,
         isError: response.isError
@@ -404,6 +592,21 @@ export class EnhancedMCPClient {
         isError: !!response.isError
       };
 
+      // Error results are how a failing ServiceNow instance shows up, they count towards the circuit breaker
+      if (result.isError) {
+        pool.recordFailure(`${toolCall.name} returned an error`);
+      } else {
+        pool.recordSuccess();
+      }
+
+      if (!result.isError) {
+        if (cacheTtl > 0) {
+          await toolResultCache.set(options.userId!, serverName, toolCall.name, validation.arguments, result, cacheTtl);
+        } else if (classifyToolOperation(toolCall.name, serverTool) === 'write') {
+          await toolResultCache.invalidateForWrite(serverName, toolCall.name, validation.arguments);
+        }
+      }
+
       // Update tool execution record
       if (toolExecutionId) {
         await prisma.toolExecution.update({
@@ -412,14 +615,27 @@ export class EnhancedMCPClient {
             result: result as any,
             status: result.isError ? 'FAILED' : 'COMPLETED',
             executionTime,
-            error: result.isError ? result.content[0]?.text : null
+            error: result.isError ? result.content[0]?.text : null,
+            ...(serverLogs.length > 0 ? { metadata: { serverLogs: asJsonValue(serverLogs) } } : {})
           }
         });
       }
 
-      return result;
-    } catch (error) {
+      return serverLogs.length > 0 ? { ...result, serverLogs } : result;
+    } catch (rawError) {
       const executionTime = Date.now() - startTime;
+      const error = toToolCallError(rawError, toolCall.name, timeoutMs, options.signal);
+      if (connection) {
+        serverLogs = mcpServerLogs.endExecution(connection.id);
+        mcpSampling.endExecution(connection.id);
+      }
+
+      // Only calls that reached the server say anything about its health
+      if (connection && pool && !(error instanceof OperationCancelledError)) {
+        pool.recordFailure(String(error));
+        // The server never answered, so the session may be wedged; start the next call on a fresh one
+        recycleConnection = error instanceof ToolTimeoutError;
+      }
       
       // Extract detailed error information
       const errorDetails = {
@@ -446,21 +662,79 @@ export class EnhancedMCPClient {
         await prisma.toolExecution.update({
           where: { id: toolExecutionId },
           data: {
-            status: 'FAILED',
+            status: error instanceof OperationCancelledError
+              ? 'CANCELLED'
+              : error instanceof ToolTimeoutError ? 'TIMEOUT' : 'FAILED',
             executionTime,
-            error: JSON.stringify(errorDetails)
+            error: JSON.stringify(errorDetails),
+            // Usually the most useful clue to why the call failed
+            ...(serverLogs.length > 0 ? { metadata: { serverLogs: asJsonValue(serverLogs) } } : {})
           }
         });
       }
 
       throw error;
     } finally {
-      if (connection) {
-        await this.pool.release(connection.id);
+      if (connection && pool) {
+        await pool.release(connection.id, { recycle: recycleConnection });
       }
     }
   }
 
+  // Borrow a connection to the named server for one request
+  private async withConnection<T>(serverName: string, fn: (connection: PooledConnection) => Promise<T>): Promise<T> {
+    const pool = this.pools.get(serverName);
+    if (!pool) {
+      throw new Error(`MCP server "${serverName}" is not connected`);
+    }
+
+    const connection = await pool.acquire();
+    try {
+      return await fn(connection);
+    } finally {
+      await pool.release(connection.id);
+    }
+  }
+
+  async listResources(): Promise<MCPResource[]> {
+    const resources: MCPResource[] = [];
+    for (const serverName of this.pools.keys()) {
+      try {
+        const serverResources = await this.withConnection(serverName, conn => listServerResources(conn.client));
+        resources.push(...serverResources.map(resource => ({ ...resource, server: serverName })));
+      } catch (error) {
+        logger.error(`[MCP-CLIENT] Failed to list resources from ${serverName}:`, error);
+      }
+    }
+    return resources;
+  }
+
+  async readResource(serverName: string, uri: string): Promise<MCPResourceContent[]> {
+    return this.withConnection(serverName, conn => readServerResource(conn.client, uri));
+  }
+
+  async listPrompts(): Promise<MCPPrompt[]> {
+    const prompts: MCPPrompt[] = [];
+    for (const serverName of this.pools.keys()) {
+      try {
+        const serverPrompts = await this.withConnection(serverName, conn => listServerPrompts(conn.client));
+        prompts.push(...serverPrompts.map(prompt => ({
+          ...prompt,
+          name: namespaceToolName(serverName, prompt.name),
+          server: serverName
+        })));
+      } catch (error) {
+        logger.error(`[MCP-CLIENT] Failed to list prompts from ${serverName}:`, error);
+      }
+    }
+    return prompts;
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    const { server, tool: promptName } = parseToolName(name);
+    return this.withConnection(server || DEFAULT_MCP_SERVER, conn => getServerPrompt(conn.client, promptName, args));
+  }
+
   async executeToolBatch(toolCalls: MCPToolCall[], messageId?: string): Promise<MCPToolResult[]> {
     // Execute tools in parallel using multiple connections from the pool
     const results = await Promise.allSettled(
@@ -484,16 +758,32 @@ export class EnhancedMCPClient {
   }
 
   async disconnect(): Promise<void> {
-    await this.pool.shutdown();
+    this.toolRefreshTimers.forEach(timer => clearTimeout(timer));
+    this.toolRefreshTimers.clear();
+    this.pools.forEach(pool => pool.removeAllListeners('toolsChanged'));
+    await Promise.allSettled(Array.from(this.pools.values()).map(pool => pool.shutdown()));
+    this.pools.clear();
     logger.info('Enhanced MCP client disconnected');
   }
 
+  // Totals across every server, with the per-server breakdown alongside
   getPoolStats() {
-    return this.pool.getPoolStats();
+    const servers = Array.from(this.pools.values()).map(pool => pool.getPoolStats());
+    return {
+      total: servers.reduce((sum, stats) => sum + stats.total, 0),
+      available: servers.reduce((sum, stats) => sum + stats.available, 0),
+      inUse: servers.reduce((sum, stats) => sum + stats.inUse, 0),
+      waiting: servers.reduce((sum, stats) => sum + stats.waiting, 0),
+      servers
+    };
+  }
+
+  getConnectedServers(): string[] {
+    return Array.from(this.pools.keys());
   }
 
   isReady(): boolean {
-    return this.toolsLoaded && this.pool.getPoolStats().total > 0;
+    return this.toolsLoaded && this.getPoolStats().total > 0;
   }
 }
 
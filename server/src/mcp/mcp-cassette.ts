@@ -0,0 +1,334 @@
+import fs from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ErrorCode,
+  JSONRPCMessage,
+  MessageExtraInfo,
+  RequestId,
+  Result,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse
+} from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+
+// Bump when the file layout changes; older app versions refuse newer cassettes
+export const CASSETTE_VERSION = 1;
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  path: string;
+}
+
+// What the client needs to connect to a server that isn't there
+export interface CassetteServer {
+  protocolVersion?: string;
+  serverInfo?: { name: string; version: string };
+  capabilities?: Record<string, unknown>;
+  instructions?: string;
+  tools: unknown[];
+}
+
+export interface CassetteInteraction {
+  server: string;
+  // Exactly what went over the wire, i.e. after parameter transformation
+  request: { name: string; arguments: Record<string, unknown> };
+  response: { result?: Result; error?: { code: number; message: string; data?: unknown } };
+  durationMs: number;
+  recordedAt: string;
+}
+
+export interface MCPCassette {
+  version: number;
+  createdAt: string;
+  servers: Record<string, CassetteServer>;
+  interactions: CassetteInteraction[];
+}
+
+type ReplayAnswer = { result: Result } | { error: { code: number; message: string } };
+
+let recorder: CassetteRecorder | null = null;
+let player: CassettePlayer | null = null;
+
+/**
+ * MCP_CASSETTE_MODE=record writes every tools/call of this run to
+ * MCP_CASSETTE_PATH; replay serves them back instead of starting any server.
+ */
+export function getCassetteConfig(): CassetteConfig | null {
+  const mode = process.env.MCP_CASSETTE_MODE?.toLowerCase();
+  if (!mode || mode === 'off') {
+    return null;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unsupported MCP_CASSETTE_MODE "${mode}", expected record or replay`);
+  }
+  if (!process.env.MCP_CASSETTE_PATH) {
+    throw new Error('MCP_CASSETTE_PATH is required when MCP_CASSETTE_MODE is set');
+  }
+  return { mode, path: path.resolve(process.env.MCP_CASSETTE_PATH) };
+}
+
+export function createRecordingTransport(transport: Transport, cassettePath: string, serverName: string): Transport {
+  if (!recorder) {
+    recorder = new CassetteRecorder(cassettePath);
+  }
+  return new RecordingTransport(transport, serverName, recorder);
+}
+
+export function createReplayTransport(cassettePath: string, serverName: string): Transport {
+  if (!player) {
+    player = new CassettePlayer(loadCassette(cassettePath), cassettePath);
+  }
+  return new ReplayTransport(player, serverName);
+}
+
+export function loadCassette(cassettePath: string): MCPCassette {
+  let cassette: MCPCassette;
+  try {
+    cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read MCP cassette ${cassettePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (typeof cassette?.version !== 'number' || !Array.isArray(cassette.interactions)) {
+    throw new Error(`${cassettePath} is not an MCP cassette`);
+  }
+  if (cassette.version > CASSETTE_VERSION) {
+    throw new Error(`MCP cassette ${cassettePath} is version ${cassette.version}, this app reads up to version ${CASSETTE_VERSION}`);
+  }
+  return cassette;
+}
+
+/**
+ * Collects what the recording transports see. The whole file is rewritten
+ * after every call so a crash or Ctrl+C still leaves a usable cassette.
+ */
+class CassetteRecorder {
+  private cassette: MCPCassette = {
+    version: CASSETTE_VERSION,
+    createdAt: new Date().toISOString(),
+    servers: {},
+    interactions: []
+  };
+
+  constructor(private cassettePath: string) {
+    logger.info(`[MCP-CASSETTE] Recording tool calls to ${cassettePath}`);
+    this.flush();
+  }
+
+  recordServer(server: string, details: Partial<CassetteServer>): void {
+    this.cassette.servers[server] = { ...(this.cassette.servers[server] || { tools: [] }), ...details };
+    this.flush();
+  }
+
+  recordInteraction(interaction: CassetteInteraction): void {
+    this.cassette.interactions.push(interaction);
+    this.flush();
+  }
+
+  private flush(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.cassettePath), { recursive: true });
+      const tempFile = `${this.cassettePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(this.cassette, null, 2));
+      fs.renameSync(tempFile, this.cassettePath);
+    } catch (error) {
+      logger.error(`[MCP-CASSETTE] Failed to write ${this.cassettePath}:`, error);
+    }
+  }
+}
+
+/**
+ * Answers requests from a cassette. Identical calls are served in recorded
+ * order, shared by all connections; once used up the last one repeats.
+ */
+class CassettePlayer {
+  private used: Set<CassetteInteraction> = new Set();
+
+  constructor(private cassette: MCPCassette, private cassettePath: string) {
+    logger.info(`[MCP-CASSETTE] Replaying ${cassette.interactions.length} tool calls from ${cassettePath}`);
+  }
+
+  answer(server: string, method: string, params: any): ReplayAnswer {
+    const recorded = this.cassette.servers[server];
+    if (!recorded) {
+      return { error: { code: ErrorCode.InvalidRequest, message: `MCP cassette ${this.cassettePath} has no recording of server ${server}` } };
+    }
+
+    switch (method) {
+      case 'initialize':
+        return {
+          result: {
+            protocolVersion: recorded.protocolVersion || params?.protocolVersion,
+            capabilities: recorded.capabilities || {},
+            serverInfo: recorded.serverInfo || { name: server, version: 'replay' },
+            instructions: recorded.instructions
+          }
+        };
+      case 'ping':
+      case 'logging/setLevel':
+        return { result: {} };
+      case 'tools/list':
+        return { result: { tools: recorded.tools } };
+      case 'tools/call':
+        return this.answerToolCall(server, params?.name, params?.arguments || {});
+      default:
+        return { error: { code: ErrorCode.MethodNotFound, message: `${method} was not recorded` } };
+    }
+  }
+
+  private answerToolCall(server: string, name: string, args: Record<string, unknown>): ReplayAnswer {
+    const matches = this.cassette.interactions.filter(interaction =>
+      interaction.server === server
+      && interaction.request.name === name
+      && isDeepStrictEqual(interaction.request.arguments, args)
+    );
+    const interaction = matches.find(candidate => !this.used.has(candidate)) || matches[matches.length - 1];
+
+    if (!interaction) {
+      logger.warn(`[MCP-CASSETTE] No recorded call matches ${server}:${name}`, { arguments: args });
+      return {
+        error: {
+          code: ErrorCode.InvalidParams,
+          message: `No recorded call to ${name} with these arguments in ${this.cassettePath}`
+        }
+      };
+    }
+
+    this.used.add(interaction);
+    return interaction.response.error
+      ? { error: interaction.response.error }
+      : { result: interaction.response.result || {} };
+  }
+}
+
+interface PendingRequest {
+  method: string;
+  params: any;
+  startedAt: number;
+}
+
+// Requests whose answers go into the cassette
+const RECORDED_METHODS = ['initialize', 'tools/list', 'tools/call'];
+
+// Sits between the SDK client and the real transport and copies the traffic it cares about
+class RecordingTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  private pending: Map<RequestId, PendingRequest> = new Map();
+
+  constructor(private inner: Transport, private server: string, private recorder: CassetteRecorder) {}
+
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  async start(): Promise<void> {
+    this.inner.onmessage = (message, extra) => {
+      this.observe(message);
+      this.onmessage?.(message, extra);
+    };
+    this.inner.onclose = () => {
+      this.pending.clear();
+      this.onclose?.();
+    };
+    this.inner.onerror = (error) => this.onerror?.(error);
+    await this.inner.start();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (isJSONRPCRequest(message) && RECORDED_METHODS.includes(message.method)) {
+      this.pending.set(message.id, { method: message.method, params: message.params, startedAt: Date.now() });
+    }
+    await this.inner.send(message, options);
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+
+  private observe(message: JSONRPCMessage): void {
+    if (!isJSONRPCResponse(message) && !isJSONRPCError(message)) {
+      return;
+    }
+    const request = this.pending.get(message.id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(message.id);
+    const result: any = isJSONRPCResponse(message) ? message.result : undefined;
+
+    if (request.method === 'initialize' && result) {
+      this.recorder.recordServer(this.server, {
+        protocolVersion: result.protocolVersion,
+        serverInfo: result.serverInfo,
+        capabilities: result.capabilities,
+        instructions: result.instructions
+      });
+    } else if (request.method === 'tools/list' && result) {
+      this.recorder.recordServer(this.server, { tools: result.tools || [] });
+    } else if (request.method === 'tools/call') {
+      this.recorder.recordInteraction({
+        server: this.server,
+        request: { name: request.params?.name, arguments: request.params?.arguments || {} },
+        response: isJSONRPCError(message) ? { error: message.error } : { result },
+        durationMs: Date.now() - request.startedAt,
+        recordedAt: new Date().toISOString()
+      });
+    }
+  }
+}
+
+// Plays the server's part from a cassette; nothing is spawned or contacted
+class ReplayTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  private closed = false;
+
+  constructor(private player: CassettePlayer, private server: string) {}
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Replay transport is closed');
+    }
+    // Notifications such as notifications/initialized need no answer
+    if (!isJSONRPCRequest(message)) {
+      return;
+    }
+
+    const answer = this.player.answer(this.server, message.method, message.params);
+    const reply: JSONRPCMessage = 'error' in answer
+      ? { jsonrpc: '2.0', id: message.id, error: answer.error }
+      : { jsonrpc: '2.0', id: message.id, result: answer.result };
+    // Like a real transport, answer after send() has returned
+    setImmediate(() => {
+      if (!this.closed) {
+        this.onmessage?.(reply);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.onclose?.();
+  }
+}
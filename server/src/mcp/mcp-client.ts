@@ -1,6 +1,17 @@
+import { Progress } from '@modelcontextprotocol/sdk/types.js';
 import { createLogger } from '../utils/logger';
 import { MCPProtocolManager, MCPTool, MCPInitializationResult } from './protocols/mcp-protocol';
 import { MCPParameterTransformer } from './mcp-parameter-transformer';
+import { mcpServerRegistry } from './mcp-server-registry';
+import { DEFAULT_MCP_SERVER, namespaceToolName, parseToolName, stripServerPrefix } from './tool-namespace';
+import { MCPContentSource } from './mcp-content';
+import { MCPResource, MCPResourceContent, MCPPrompt, MCPPromptResult, MCPServerLogEntry } from '../../../shared/src/types/mcp';
+import { EventEmitter } from 'events';
+import { toolArgumentValidator, formatToolArgumentIssues, ToolArgumentIssue } from '../validators/tool-argument-validator';
+import { getToolTimeoutMs, toToolCallError } from './tool-timeouts';
+import { OperationCancelledError } from '../utils/error-handler';
+import { mcpServerLogs } from './mcp-server-logs';
+import { mcpSampling, MCPSamplingHandler } from './mcp-sampling';
 
 const logger = createLogger();
 
@@ -19,33 +30,50 @@ export interface MCPToolResult {
     image?: any;
   }>;
   isError?: boolean;
+  // Set when the arguments failed the tool's inputSchema and the server was never called
+  validationErrors?: ToolArgumentIssue[];
+  // Only the pooled client caches, see EnhancedMCPClient
+  cached?: boolean;
+  cachedAt?: string;
+  serverLogs?: MCPServerLogEntry[];
 }
 
-export class MCPClientManager {
-  private protocolManager: MCPProtocolManager;
+export class MCPClientManager extends EventEmitter implements MCPContentSource {
+  // One protocol session per registered MCP server
+  private protocolManagers: Map<string, MCPProtocolManager> = new Map();
   private requestQueue: Array<() => Promise<void>> = [];
   private isProcessingQueue = false;
   private initializationResult: MCPInitializationResult | null = null;
 
-  constructor() {
-    this.protocolManager = new MCPProtocolManager();
-  }
-
   async initialize(): Promise<void> {
     try {
-      const mcpPath = process.env.SERVICENOW_MCP_PATH;
-      if (!mcpPath) {
-        throw new Error('SERVICENOW_MCP_PATH environment variable is required');
+      logger.info('Initializing MCP client with protocol negotiation');
+
+      for (const server of mcpServerRegistry.getEnabledServers()) {
+        const protocolManager = new MCPProtocolManager(server.name);
+        try {
+          const result = await protocolManager.initialize(server.transport);
+          this.protocolManagers.set(server.name, protocolManager);
+          protocolManager.onToolsChanged(() => this.emit('toolsUpdated', this.getAvailableTools()));
+
+          if (server.name === DEFAULT_MCP_SERVER || !this.initializationResult) {
+            this.initializationResult = result;
+          }
+
+          logger.info(`MCP server ${server.name} initialized successfully`, {
+            serverInfo: result.serverInfo,
+            toolCount: protocolManager.getAvailableTools().length,
+            capabilities: result.capabilities
+          });
+        } catch (error) {
+          // Keep going so one unreachable server doesn't disable the rest
+          logger.error(`Failed to initialize MCP server ${server.name}:`, error);
+        }
       }
 
-      logger.info('Initializing MCP client with protocol negotiation');
-      this.initializationResult = await this.protocolManager.initialize(mcpPath);
-      
-      logger.info('MCP client initialized successfully', {
-        serverInfo: this.initializationResult.serverInfo,
-        toolCount: this.protocolManager.getAvailableTools().length,
-        capabilities: this.initializationResult.capabilities
-      });
+      if (this.protocolManagers.size === 0) {
+        throw new Error('No MCP server could be connected');
+      }
       
       // Start processing queued requests
       this.processQueue();
@@ -58,9 +86,10 @@ export class MCPClientManager {
 
   async refreshTools(): Promise<void> {
     try {
-      await this.protocolManager.refreshTools();
-      const tools = this.protocolManager.getAvailableTools();
-      logger.info(`Refreshed ${tools.length} ServiceNow MCP tools: ${tools.map(t => t.name).join(', ')}`);
+      await Promise.all(Array.from(this.protocolManagers.values()).map(manager => manager.refreshTools()));
+      const tools = this.getAvailableTools();
+      logger.info(`Refreshed ${tools.length} MCP tools: ${tools.map(t => t.name).join(', ')}`);
+      this.emit('toolsUpdated', tools);
     } catch (error) {
       logger.error('Failed to refresh tools:', error);
     }
@@ -68,29 +97,104 @@ export class MCPClientManager {
 
   getAvailableTools(): MCPTool[] {
     console.log('📦 [MCP-MANAGER] getAvailableTools called');
-    const tools = this.protocolManager.getAvailableTools();
+    const tools: MCPTool[] = [];
+    for (const [serverName, manager] of this.protocolManagers) {
+      tools.push(...manager.getAvailableTools().map(tool => ({
+        ...tool,
+        name: namespaceToolName(serverName, tool.name)
+      })));
+    }
     console.log('📦 [MCP-MANAGER] Retrieved tools from protocol manager:', tools.length);
     console.log('📦 [MCP-MANAGER] First tool:', tools[0]);
     return tools;
   }
 
+  getConnectedServers(): string[] {
+    return Array.from(this.protocolManagers.keys());
+  }
+
   getInitializationResult(): MCPInitializationResult | null {
     return this.initializationResult;
   }
 
-  getCapabilities() {
-    return this.protocolManager.getCapabilities();
+  // Capabilities and server info describe the ServiceNow server unless another is named
+  getCapabilities(serverName: string = DEFAULT_MCP_SERVER) {
+    return this.protocolManagers.get(serverName)?.getCapabilities() || {};
+  }
+
+  getServerInfo(serverName: string = DEFAULT_MCP_SERVER) {
+    return this.protocolManagers.get(serverName)?.getServerInfo() || { name: '', version: '' };
   }
 
-  getServerInfo() {
-    return this.protocolManager.getServerInfo();
+  async listResources(): Promise<MCPResource[]> {
+    const resources: MCPResource[] = [];
+    for (const [serverName, manager] of this.protocolManagers) {
+      try {
+        const serverResources = await manager.listResources();
+        resources.push(...serverResources.map(resource => ({ ...resource, server: serverName })));
+      } catch (error) {
+        logger.error(`Failed to list resources from MCP server ${serverName}:`, error);
+      }
+    }
+    return resources;
   }
 
-  async executeTool(toolCall: MCPToolCall, messageId?: string, userMessage?: string): Promise<MCPToolResult> {
+  async readResource(serverName: string, uri: string): Promise<MCPResourceContent[]> {
+    const manager = this.protocolManagers.get(serverName);
+    if (!manager) {
+      throw new Error(`MCP server "${serverName}" is not connected`);
+    }
+    return manager.readResource(uri);
+  }
+
+  async listPrompts(): Promise<MCPPrompt[]> {
+    const prompts: MCPPrompt[] = [];
+    for (const [serverName, manager] of this.protocolManagers) {
+      try {
+        const serverPrompts = await manager.listPrompts();
+        prompts.push(...serverPrompts.map(prompt => ({
+          ...prompt,
+          name: namespaceToolName(serverName, prompt.name),
+          server: serverName
+        })));
+      } catch (error) {
+        logger.error(`Failed to list prompts from MCP server ${serverName}:`, error);
+      }
+    }
+    return prompts;
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    const { server, tool: promptName } = parseToolName(name);
+    const serverName = server || DEFAULT_MCP_SERVER;
+    const manager = this.protocolManagers.get(serverName);
+    if (!manager) {
+      throw new Error(`MCP server "${serverName}" is not connected`);
+    }
+    return manager.getPrompt(promptName, args);
+  }
+
+  async executeTool(
+    toolCall: MCPToolCall,
+    messageId?: string,
+    userMessage?: string,
+    // userId only matters to the pooled client's result cache, it is accepted here so handlers can pass it to either
+    options: {
+      skipTransform?: boolean;
+      userId?: string;
+      signal?: AbortSignal;
+      onProgress?: (progress: Progress) => void;
+      onSamplingRequest?: MCPSamplingHandler;
+    } = {}
+  ): Promise<MCPToolResult> {
     return new Promise((resolve, reject) => {
       this.requestQueue.push(async () => {
         try {
-          const result = await this.executeToolInternal(toolCall, userMessage);
+          // Cancelled while waiting its turn in the queue
+          if (options.signal?.aborted) {
+            throw new OperationCancelledError(`tool ${toolCall.name}`);
+          }
+          const result = await this.executeToolInternal(toolCall, userMessage, options.skipTransform, options.signal, options.onProgress, messageId, options.onSamplingRequest);
           resolve(result);
         } catch (error) {
           reject(error);
@@ -103,36 +207,73 @@ export class MCPClientManager {
     });
   }
 
-  private async executeToolInternal(toolCall: MCPToolCall, userMessage?: string): Promise<MCPToolResult> {
-    if (!this.protocolManager.isConnected()) {
-      throw new Error('MCP client not connected');
+  private async executeToolInternal(
+    toolCall: MCPToolCall,
+    userMessage?: string,
+    skipTransform: boolean = false,
+    signal?: AbortSignal,
+    onProgress?: (progress: Progress) => void,
+    messageId?: string,
+    onSamplingRequest?: MCPSamplingHandler
+  ): Promise<MCPToolResult> {
+    const serverName = mcpServerRegistry.resolveServer(toolCall.name, this.getAvailableTools().map(t => t.name));
+    const protocolManager = this.protocolManagers.get(serverName);
+    // A dropped session reconnects inside callTool, only servers that never came up fail here
+    if (!protocolManager) {
+      throw new Error(`MCP server "${serverName}" is not connected`);
     }
 
+    const timeoutMs = getToolTimeoutMs(toolCall.name);
     try {
-      // Transform parameters to match MCP server expectations
-      const transformedArguments = MCPParameterTransformer.transformParameters(
-        toolCall.name,
-        toolCall.arguments,
-        userMessage
-      );
+      // Transform parameters to match MCP server expectations, unless they were
+      // already transformed (e.g. arguments reviewed in an execution plan)
+      const transformedArguments = skipTransform
+        ? toolCall.arguments
+        : MCPParameterTransformer.transformParameters(toolCall.name, toolCall.arguments, userMessage);
 
       logger.info(`[MCP-CLIENT] Executing tool with parameter transformation:`, {
         toolName: toolCall.name,
         originalArguments: toolCall.arguments,
         transformedArguments
       });
+
+      const toolName = stripServerPrefix(toolCall.name);
+      const tool = protocolManager.getAvailableTools().find(t => t.name === toolName);
+      const validation = toolArgumentValidator.validate(toolCall.name, tool?.inputSchema, transformedArguments);
+      if (!validation.valid) {
+        // Returned rather than thrown so the LLM sees what to fix instead of a retry loop
+        logger.warn(`MCP tool ${toolCall.name} rejected invalid arguments`, { issues: validation.issues });
+        return {
+          content: [{ type: 'text', text: formatToolArgumentIssues(toolCall.name, validation.issues) }],
+          isError: true,
+          validationErrors: validation.issues
+        };
+      }
       
-      const response = await this.protocolManager.callTool(toolCall.name, transformedArguments);
+      // The queue runs one call at a time, so the server's session is the execution
+      mcpServerLogs.beginExecution(serverName, { toolName: toolCall.name, messageId });
+      mcpSampling.beginExecution(serverName, toolCall.name, onSamplingRequest);
+      const response = await protocolManager.callTool(toolName, validation.arguments, {
+        signal,
+        timeout: timeoutMs,
+        onprogress: onProgress,
+        resetTimeoutOnProgress: !!onProgress
+      });
+      const serverLogs = mcpServerLogs.endExecution(serverName);
+      mcpSampling.endExecution(serverName);
 
       logger.info(`MCP tool ${toolCall.name} completed successfully`);
       
       return {
         content: Array.isArray(response.content) ? response.content : [{ type: 'text', text: String(response.content || '') }],
-        isError: !!response.isError
+        isError: !!response.isError,
+        ...(serverLogs.length > 0 ? { serverLogs } : {})
       };
     } catch (error) {
+      mcpServerLogs.endExecution(serverName);
+      mcpSampling.endExecution(serverName);
       logger.error(`MCP tool ${toolCall.name} failed:`, error);
-      throw error;
+      throw toToolCallError(error, toolCall.name, timeoutMs, signal);
     }
   }
 
@@ -159,15 +300,16 @@ export class MCPClientManager {
 
   async disconnect(): Promise<void> {
     try {
-      await this.protocolManager.disconnect();
+      await Promise.all(Array.from(this.protocolManagers.values()).map(manager => manager.disconnect()));
+      this.protocolManagers.clear();
       this.initializationResult = null;
-      logger.info('Disconnected from ServiceNow MCP server');
+      logger.info('Disconnected from MCP servers');
     } catch (error) {
       logger.error('Error disconnecting from MCP server:', error);
     }
   }
 
   isClientConnected(): boolean {
-    return this.protocolManager.isConnected();
+    return Array.from(this.protocolManagers.values()).some(manager => manager.isConnected());
   }
 }
\ No newline at end of file
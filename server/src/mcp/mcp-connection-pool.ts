@@ -1,6 +1,12 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MCPTransportConfig, createTransport, describeTransport, getTransportConfigFromEnv, validateTransportConfig } from './mcp-transport';
+import { mcpServerRegistry } from './mcp-server-registry';
+import { DEFAULT_MCP_SERVER } from './tool-namespace';
+import { mcpServerLogs } from './mcp-server-logs';
+import { mcpSampling } from './mcp-sampling';
 import { createLogger } from '../utils/logger';
+import { CircuitOpenError } from '../utils/error-handler';
 import { PrismaClient, ConnectionStatus } from '@prisma/client';
 import { EventEmitter } from 'events';
 
@@ -8,12 +14,18 @@ const logger = createLogger();
 const prisma = new PrismaClient();
 
 export interface PoolConfig {
+  serverName: string;
   minConnections: number;
   maxConnections: number;
   acquireTimeout: number;
   idleTimeout: number;
-  mcpPath: string;
+  transport: MCPTransportConfig;
   healthCheckInterval: number;
+  pingTimeout: number;
+  reconnectInitialDelay: number;
+  reconnectMaxDelay: number;
+  circuitFailureThreshold: number;
+  circuitResetTimeout: number;
 }
 
 export interface PooledConnection {
@@ -24,34 +36,71 @@ export interface PooledConnection {
   created: Date;
 }
 
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface PoolMetrics {
+  acquires: number;
+  acquireTimeouts: number;
+  totalAcquireMs: number;
+  maxAcquireMs: number;
+  created: number;
+  createFailures: number;
+  closed: number;
+  lost: number;
+  recycled: number;
+}
+
+type WaitingResolver = (conn: PooledConnection | Error) => void;
+
 export class MCPConnectionPool extends EventEmitter {
   private connections: Map<string, PooledConnection> = new Map();
-  private waitingQueue: Array<(conn: PooledConnection | null) => void> = [];
+  private waitingQueue: WaitingResolver[] = [];
   private config: PoolConfig;
   private healthCheckTimer?: NodeJS.Timer;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
   private shutdownInProgress = false;
+  // Counts consecutive failures of tool calls and connection attempts against this server
+  private circuit = { state: 'closed' as CircuitState, failures: 0, openedAt: 0, opens: 0 };
+  private metrics: PoolMetrics = {
+    acquires: 0,
+    acquireTimeouts: 0,
+    totalAcquireMs: 0,
+    maxAcquireMs: 0,
+    created: 0,
+    createFailures: 0,
+    closed: 0,
+    lost: 0,
+    recycled: 0
+  };
 
   constructor(config: Partial<PoolConfig> = {}) {
     super();
     this.config = {
+      serverName: DEFAULT_MCP_SERVER,
       minConnections: parseInt(process.env.MCP_MIN_CONNECTIONS || '2'),
       maxConnections: parseInt(process.env.MCP_MAX_CONNECTIONS || '10'),
       acquireTimeout: parseInt(process.env.MCP_ACQUIRE_TIMEOUT || '5000'),
       idleTimeout: parseInt(process.env.MCP_IDLE_TIMEOUT || '300000'), // 5 minutes
-      mcpPath: process.env.SERVICENOW_MCP_PATH || '',
+      transport: getTransportConfigFromEnv(),
       healthCheckInterval: parseInt(process.env.MCP_HEALTH_CHECK_INTERVAL || '30000'), // 30 seconds
+      pingTimeout: parseInt(process.env.MCP_PING_TIMEOUT || '5000'),
+      reconnectInitialDelay: parseInt(process.env.MCP_RECONNECT_INITIAL_DELAY || '1000'),
+      reconnectMaxDelay: parseInt(process.env.MCP_RECONNECT_MAX_DELAY || '30000'),
+      circuitFailureThreshold: parseInt(process.env.MCP_CIRCUIT_FAILURE_THRESHOLD || '5'),
+      circuitResetTimeout: parseInt(process.env.MCP_CIRCUIT_RESET_TIMEOUT || '30000'),
       ...config
     };
 
-    if (!this.config.mcpPath) {
-      throw new Error('SERVICENOW_MCP_PATH environment variable is required');
-    }
+    validateTransportConfig(this.config.transport);
   }
 
   async initialize(): Promise<void> {
     logger.info('Initializing MCP connection pool', {
+      server: this.config.serverName,
       minConnections: this.config.minConnections,
-      maxConnections: this.config.maxConnections
+      maxConnections: this.config.maxConnections,
+      transport: describeTransport(this.config.transport)
     });
 
     // Create minimum connections
@@ -69,25 +118,36 @@ export class MCPConnectionPool extends EventEmitter {
   }
 
   private async createConnection(): Promise<PooledConnection> {
-    const connectionId = `mcp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const connectionId = `${this.config.serverName}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
+    await this.recordConnectionState(connectionId, ConnectionStatus.CONNECTING);
+
     try {
       logger.info(`[MCP-POOL] Creating new connection: ${connectionId}`, {
-        mcpPath: this.config.mcpPath
+        transport: describeTransport(this.config.transport)
       });
       
       const client = new Client({
         name: "servicenow-web-app",
         version: "1.0.0",
-      });
+      }, { capabilities: mcpSampling.getClientCapabilities(this.config.serverName) });
 
-      const transport = new StdioClientTransport({
-        command: this.config.mcpPath,
-      });
+      const transport = createTransport(this.config.transport, this.config.serverName);
 
-      logger.debug(`[MCP-POOL] Connecting to MCP server at: ${this.config.mcpPath}`);
+      logger.debug(`[MCP-POOL] Connecting to MCP server at: ${describeTransport(this.config.transport)}`);
       
       await client.connect(transport);
+
+      // Remote servers can drop the session and child processes can exit
+      client.onclose = () => this.handleConnectionLost(connectionId);
+      client.onerror = (error) => logger.warn(`[MCP-POOL] Transport error on ${connectionId}:`, error);
+
+      // Every pooled session hears the same notification, the MCP client debounces them
+      client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        this.emit('toolsChanged', connectionId);
+      });
+      mcpServerLogs.attach(client, this.config.serverName, connectionId);
+      mcpSampling.attach(client, this.config.serverName, connectionId);
       
       logger.info(`[MCP-POOL] Connection established: ${connectionId}`);
 
@@ -100,15 +160,9 @@ export class MCPConnectionPool extends EventEmitter {
       };
 
       this.connections.set(connectionId, connection);
+      this.metrics.created++;
 
-      // Record in database
-      await prisma.mCPConnection.create({
-        data: {
-          connectionId,
-          status: ConnectionStatus.CONNECTED,
-          lastPingAt: new Date()
-        }
-      });
+      await this.recordConnectionState(connectionId, ConnectionStatus.CONNECTED);
 
       logger.info(`[MCP-POOL] Successfully created MCP connection: ${connectionId}`);
       this.emit('connectionCreated', connectionId);
@@ -117,17 +171,13 @@ export class MCPConnectionPool extends EventEmitter {
     } catch (error) {
       logger.error(`[MCP-POOL] Failed to create MCP connection ${connectionId}:`, {
         error: String(error),
-        mcpPath: this.config.mcpPath,
+        transport: describeTransport(this.config.transport),
         errorDetails: error
       });
-      
-      await prisma.mCPConnection.create({
-        data: {
-          connectionId,
-          status: ConnectionStatus.ERROR,
-          metadata: { error: String(error) }
-        }
-      });
+
+      this.metrics.createFailures++;
+      await this.recordConnectionState(connectionId, ConnectionStatus.ERROR, { error: String(error) });
+      this.recordFailure(`connection failed: ${String(error)}`);
 
       throw error;
     }
@@ -137,15 +187,34 @@ export class MCPConnectionPool extends EventEmitter {
     if (this.shutdownInProgress) {
       throw new Error('Connection pool is shutting down');
     }
+    this.checkCircuit();
 
+    const startTime = Date.now();
+    try {
+      return await this.acquireConnection();
+    } finally {
+      const elapsed = Date.now() - startTime;
+      this.metrics.acquires++;
+      this.metrics.totalAcquireMs += elapsed;
+      this.metrics.maxAcquireMs = Math.max(this.metrics.maxAcquireMs, elapsed);
+    }
+  }
+
+  private async acquireConnection(): Promise<PooledConnection> {
     // Try to find an available connection
     for (const [id, conn] of this.connections) {
-      if (!conn.inUse) {
-        conn.inUse = true;
-        conn.lastUsed = new Date();
-        logger.debug(`Acquired existing connection: ${id}`);
-        return conn;
+      if (conn.inUse) continue;
+
+      // The client drops its transport once closed; don't wait for onclose to hand out a dead one
+      if (!conn.client.transport) {
+        await this.handleConnectionLost(id);
+        continue;
       }
+
+      conn.inUse = true;
+      conn.lastUsed = new Date();
+      logger.debug(`Acquired existing connection: ${id}`);
+      return conn;
     }
 
     // If no connections available and we haven't reached max, create new one
@@ -156,6 +225,8 @@ export class MCPConnectionPool extends EventEmitter {
         return newConn;
       } catch (error) {
         logger.error('Failed to create new connection:', error);
+        // That failure may have been the one that opened the circuit
+        this.checkCircuit();
       }
     }
 
@@ -166,17 +237,18 @@ export class MCPConnectionPool extends EventEmitter {
         if (index > -1) {
           this.waitingQueue.splice(index, 1);
         }
+        this.metrics.acquireTimeouts++;
         reject(new Error('Connection acquire timeout'));
       }, this.config.acquireTimeout);
 
-      const resolver = (conn: PooledConnection | null) => {
+      const resolver: WaitingResolver = (conn) => {
         clearTimeout(timer);
-        if (conn) {
+        if (conn instanceof Error) {
+          reject(conn);
+        } else {
           conn.inUse = true;
           conn.lastUsed = new Date();
           resolve(conn);
-        } else {
-          reject(new Error('Failed to acquire connection'));
         }
       };
 
@@ -184,10 +256,20 @@ export class MCPConnectionPool extends EventEmitter {
     });
   }
 
-  async release(connectionId: string): Promise<void> {
+  /**
+   * Return a connection to the pool. `recycle` replaces it instead, for
+   * connections that left a call hanging or otherwise can't be trusted.
+   */
+  async release(connectionId: string, options: { recycle?: boolean } = {}): Promise<void> {
     const conn = this.connections.get(connectionId);
     if (!conn) {
-      logger.warn(`Attempted to release unknown connection: ${connectionId}`);
+      // Crashed while in use, handleConnectionLost already dropped and replaced it
+      logger.debug(`Released connection no longer in the pool: ${connectionId}`);
+      return;
+    }
+
+    if (options.recycle) {
+      await this.recycleConnection(connectionId, 'released for recycling');
       return;
     }
 
@@ -218,13 +300,14 @@ export class MCPConnectionPool extends EventEmitter {
     if (!conn) return;
 
     try {
-      await conn.client.close();
+      // Drop it from the pool first so the close isn't treated as a lost connection
       this.connections.delete(connectionId);
-      
-      await prisma.mCPConnection.updateMany({
-        where: { connectionId },
-        data: { status: ConnectionStatus.DISCONNECTED }
-      });
+      this.metrics.closed++;
+      mcpServerLogs.detach(connectionId);
+      mcpSampling.detach(connectionId);
+      await conn.client.close();
+
+      await this.recordConnectionState(connectionId, ConnectionStatus.DISCONNECTED);
 
       logger.info(`Closed connection: ${connectionId}`);
       this.emit('connectionClosed', connectionId);
@@ -233,14 +316,155 @@ export class MCPConnectionPool extends EventEmitter {
     }
   }
 
+  private async handleConnectionLost(connectionId: string): Promise<void> {
+    if (!this.connections.has(connectionId)) return;
+
+    this.connections.delete(connectionId);
+    this.metrics.lost++;
+    mcpServerLogs.detach(connectionId);
+    mcpSampling.detach(connectionId);
+    logger.warn(`[MCP-POOL] Connection lost: ${connectionId}`);
+    this.emit('connectionLost', connectionId);
+
+    await this.recordConnectionState(connectionId, ConnectionStatus.DISCONNECTED, { error: 'Connection closed unexpectedly' });
+
+    this.scheduleReconnect();
+  }
+
+  private async recycleConnection(connectionId: string, reason: string): Promise<void> {
+    logger.warn(`[MCP-POOL] Recycling connection ${connectionId}: ${reason}`);
+    this.metrics.recycled++;
+
+    await this.recordConnectionState(connectionId, ConnectionStatus.ERROR, { error: reason });
+    await this.closeConnection(connectionId);
+    this.emit('connectionRecycled', connectionId);
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Tool call outcomes feed the circuit breaker. The half-open state lets
+   * calls through again, and the first one to finish decides whether the
+   * circuit closes or opens for another reset period.
+   */
+  recordSuccess(): void {
+    this.circuit.failures = 0;
+    if (this.circuit.state !== 'closed') {
+      logger.info(`[MCP-POOL] Circuit closed for ${this.config.serverName}`);
+      this.setCircuitState('closed');
+    }
+  }
+
+  recordFailure(reason: string): void {
+    this.circuit.failures++;
+
+    const shouldOpen = this.circuit.state === 'half-open'
+      || (this.circuit.state === 'closed' && this.circuit.failures >= this.config.circuitFailureThreshold);
+    if (!shouldOpen) return;
+
+    this.circuit.openedAt = Date.now();
+    this.circuit.opens++;
+    logger.warn(`[MCP-POOL] Circuit opened for ${this.config.serverName}`, {
+      failures: this.circuit.failures,
+      reason
+    });
+    this.setCircuitState('open');
+
+    // Nobody queued up should wait out the acquire timeout on a server we've given up on
+    const error = new CircuitOpenError(this.config.serverName, this.config.circuitResetTimeout);
+    while (this.waitingQueue.length > 0) {
+      this.waitingQueue.shift()?.(error);
+    }
+  }
+
+  private checkCircuit(): void {
+    if (this.circuit.state !== 'open') return;
+
+    const elapsed = Date.now() - this.circuit.openedAt;
+    if (elapsed < this.config.circuitResetTimeout) {
+      throw new CircuitOpenError(this.config.serverName, this.config.circuitResetTimeout - elapsed);
+    }
+
+    logger.info(`[MCP-POOL] Circuit half-open for ${this.config.serverName}, letting calls through`);
+    this.setCircuitState('half-open');
+  }
+
+  private setCircuitState(state: CircuitState): void {
+    this.circuit.state = state;
+    this.emit('circuitStateChanged', state);
+
+    // The circuit state rides along in each live connection's row
+    const connectionIds = Array.from(this.connections.keys());
+    if (connectionIds.length > 0) {
+      prisma.mCPConnection.updateMany({
+        where: { connectionId: { in: connectionIds } },
+        data: { metadata: this.connectionMetadata() }
+      }).catch(error => logger.error('[MCP-POOL] Failed to record circuit state:', error));
+    }
+  }
+
+  private connectionMetadata(details: Record<string, any> = {}) {
+    return { server: this.config.serverName, circuit: this.circuit.state, ...details };
+  }
+
+  // Bookkeeping only, a database hiccup must not take connections down with it
+  private async recordConnectionState(
+    connectionId: string,
+    status: ConnectionStatus,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    const lastPingAt = status === ConnectionStatus.CONNECTED ? new Date() : undefined;
+    try {
+      await prisma.mCPConnection.upsert({
+        where: { connectionId },
+        create: { connectionId, status, lastPingAt, metadata: this.connectionMetadata(details) },
+        update: { status, ...(lastPingAt && { lastPingAt }), metadata: this.connectionMetadata(details) }
+      });
+    } catch (error) {
+      logger.error(`[MCP-POOL] Failed to record ${status} for connection ${connectionId}:`, error);
+    }
+  }
+
+  // Refill the pool to minConnections, backing off while the server stays unreachable
+  private scheduleReconnect(): void {
+    if (this.shutdownInProgress || this.reconnectTimer) return;
+    if (this.connections.size >= this.config.minConnections) return;
+
+    const delay = Math.min(
+      this.config.reconnectInitialDelay * Math.pow(2, this.reconnectAttempts),
+      this.config.reconnectMaxDelay
+    );
+    this.reconnectAttempts++;
+
+    logger.info(`[MCP-POOL] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+
+      try {
+        while (this.connections.size < this.config.minConnections && !this.shutdownInProgress) {
+          const conn = await this.createConnection();
+          this.emit('reconnected', conn.id);
+
+          // Hand the new connection to anyone who queued up while we were down
+          const resolver = this.waitingQueue.shift();
+          if (resolver) {
+            resolver(conn);
+          }
+        }
+        this.reconnectAttempts = 0;
+      } catch (error) {
+        logger.error('[MCP-POOL] Reconnect failed:', error);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
   private startHealthCheck(): void {
     this.healthCheckTimer = setInterval(async () => {
       const checkPromises = Array.from(this.connections.entries()).map(async ([id, conn]) => {
         if (conn.inUse) return;
 
         try {
-          // Temporarily disable health checks that are causing issues
-          // await conn.client.request({ method: 'ping' }, { timeout: 5000 });
+          await conn.client.ping({ timeout: this.config.pingTimeout });
           
           await prisma.mCPConnection.updateMany({
             where: { connectionId: id },
@@ -248,16 +472,7 @@ export class MCPConnectionPool extends EventEmitter {
           });
         } catch (error) {
           logger.warn(`Health check failed for connection ${id}:`, error);
-          
-          // Temporarily skip connection recreation to avoid crashes
-          // await this.closeConnection(id);
-          // if (this.connections.size < this.config.minConnections && !this.shutdownInProgress) {
-          //   try {
-          //     await this.createConnection();
-          //   } catch (createError) {
-          //     logger.error('Failed to recreate connection during health check:', createError);
-          //   }
-          // }
+          await this.recycleConnection(id, `health check failed: ${String(error)}`);
         }
       });
 
@@ -273,13 +488,13 @@ export class MCPConnectionPool extends EventEmitter {
     if (this.healthCheckTimer) {
       clearInterval(this.healthCheckTimer);
     }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
 
     // Reject all waiting requests
     while (this.waitingQueue.length > 0) {
-      const resolver = this.waitingQueue.shift();
-      if (resolver) {
-        resolver(null);
-      }
+      this.waitingQueue.shift()?.(new Error('Connection pool is shutting down'));
     }
 
     // Close all connections
@@ -296,7 +511,29 @@ export class MCPConnectionPool extends EventEmitter {
       total: this.connections.size,
       available: 0,
       inUse: 0,
-      waiting: this.waitingQueue.length
+      waiting: this.waitingQueue.length,
+      server: this.config.serverName,
+      transport: describeTransport(this.config.transport),
+      reconnecting: !!this.reconnectTimer,
+      circuit: {
+        state: this.circuit.state,
+        failures: this.circuit.failures,
+        opens: this.circuit.opens,
+        openedAt: this.circuit.openedAt ? new Date(this.circuit.openedAt).toISOString() : null
+      },
+      acquire: {
+        count: this.metrics.acquires,
+        timeouts: this.metrics.acquireTimeouts,
+        avgLatencyMs: this.metrics.acquires > 0 ? Math.round(this.metrics.totalAcquireMs / this.metrics.acquires) : 0,
+        maxLatencyMs: this.metrics.maxAcquireMs
+      },
+      lifecycle: {
+        created: this.metrics.created,
+        createFailures: this.metrics.createFailures,
+        closed: this.metrics.closed,
+        lost: this.metrics.lost,
+        recycled: this.metrics.recycled
+      }
     };
 
     for (const conn of this.connections.values()) {
@@ -311,12 +548,24 @@ export class MCPConnectionPool extends EventEmitter {
   }
 }
 
-// Singleton instance
-let poolInstance: MCPConnectionPool | null = null;
+// One pool per registered MCP server
+const poolInstances: Map<string, MCPConnectionPool> = new Map();
+
+export function getMCPConnectionPool(serverName: string = DEFAULT_MCP_SERVER): MCPConnectionPool {
+  let pool = poolInstances.get(serverName);
+  if (!pool) {
+    const server = mcpServerRegistry.getServer(serverName);
+    if (!server) {
+      throw new Error(`Unknown MCP server: ${serverName}`);
+    }
 
-export function getMCPConnectionPool(): MCPConnectionPool {
-  if (!poolInstance) {
-    poolInstance = new MCPConnectionPool();
+    pool = new MCPConnectionPool({
+      serverName,
+      transport: server.transport,
+      ...(server.minConnections !== undefined && { minConnections: server.minConnections }),
+      ...(server.maxConnections !== undefined && { maxConnections: server.maxConnections })
+    });
+    poolInstances.set(serverName, pool);
   }
-  return poolInstance;
-}
\ No newline at end of file
+  return pool;
+}
@@ -0,0 +1,142 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  MCPResource,
+  MCPResourceContent,
+  MCPPrompt,
+  MCPPromptResult,
+  ResourceReference
+} from '../../../shared/src/types/mcp';
+import { estimateTokens } from '../utils/token-estimate';
+
+// Resources and prompts as one server reports them, before they are tagged with the server name
+export interface MCPResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export type MCPResourceContents = MCPResourceContent;
+
+export interface MCPPromptDescriptor {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export type MCPPromptContents = MCPPromptResult;
+
+// What the REST routes and chat handlers need from an MCP client, whichever one the app runs
+export interface MCPContentSource {
+  listResources(): Promise<MCPResource[]>;
+  readResource(server: string, uri: string): Promise<MCPResourceContent[]>;
+  listPrompts(): Promise<MCPPrompt[]>;
+  getPrompt(name: string, args?: Record<string, string>): Promise<MCPPromptResult>;
+}
+
+// Servers that don't advertise resources or prompts would answer "method not found"
+
+export async function listServerResources(client: Client): Promise<MCPResourceDescriptor[]> {
+  if (!client.getServerCapabilities()?.resources) {
+    return [];
+  }
+
+  const response = await client.listResources();
+  return response.resources.map(resource => ({
+    uri: resource.uri,
+    name: resource.name,
+    description: resource.description,
+    mimeType: resource.mimeType
+  }));
+}
+
+export async function readServerResource(client: Client, uri: string): Promise<MCPResourceContents[]> {
+  const response = await client.readResource({ uri });
+  return response.contents.map(content => ({
+    uri: content.uri,
+    mimeType: content.mimeType,
+    text: typeof content.text === 'string' ? content.text : undefined,
+    blob: typeof content.blob === 'string' ? content.blob : undefined
+  }));
+}
+
+export async function listServerPrompts(client: Client): Promise<MCPPromptDescriptor[]> {
+  if (!client.getServerCapabilities()?.prompts) {
+    return [];
+  }
+
+  const response = await client.listPrompts();
+  return response.prompts.map(prompt => ({
+    name: prompt.name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: prompt.arguments
+  }));
+}
+
+export async function getServerPrompt(
+  client: Client,
+  name: string,
+  args: Record<string, string> = {}
+): Promise<MCPPromptContents> {
+  const response = await client.getPrompt({ name, arguments: args });
+  return {
+    description: response.description,
+    messages: response.messages.map(message => ({
+      role: message.role,
+      // Only text can be dropped into the chat box
+      text: message.content.type === 'text'
+        ? message.content.text
+        : message.content.type === 'resource' && 'text' in message.content.resource
+          ? String(message.content.resource.text)
+          : ''
+    }))
+  };
+}
+
+/**
+ * Read the resources attached to a chat turn and render them as a block the
+ * LLM sees with the user's message. Binary contents are only mentioned, and
+ * the whole block is capped at MCP_RESOURCE_TOKEN_BUDGET tokens.
+ */
+export async function buildAttachedResourcesSection(
+  source: MCPContentSource,
+  references: ResourceReference[]
+): Promise<string> {
+  const tokenBudget = parseInt(process.env.MCP_RESOURCE_TOKEN_BUDGET || '4000');
+  const blocks: string[] = [];
+  let tokensUsed = 0;
+
+  for (const reference of references) {
+    const label = `${reference.name || reference.uri} (${reference.server}: ${reference.uri})`;
+    let text: string;
+
+    try {
+      const contents = await source.readResource(reference.server, reference.uri);
+      text = contents
+        .map(content => content.text ?? `[binary ${content.mimeType || 'content'} omitted]`)
+        .join('\n\n');
+    } catch (error) {
+      text = `[could not be read: ${error instanceof Error ? error.message : String(error)}]`;
+    }
+
+    const remaining = tokenBudget - tokensUsed;
+    if (remaining <= 0) {
+      blocks.push(`### ${label}\n[omitted, attachment budget used up]`);
+      continue;
+    }
+    if (estimateTokens(text) > remaining) {
+      // estimateTokens counts ~4 characters per token
+      text = `${text.substring(0, remaining * 4)}\n[truncated]`;
+    }
+    tokensUsed += estimateTokens(text);
+    blocks.push(`### ${label}\n${text}`);
+  }
+
+  return [
+    '## Attached Resources',
+    'The user attached these MCP resources to this message as context.',
+    ...blocks
+  ].join('\n\n');
+}
@@ -0,0 +1,142 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  ClientCapabilities,
+  CreateMessageRequest,
+  CreateMessageRequestSchema,
+  CreateMessageResult,
+  ErrorCode,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+import { LLMMessage, LLMResponse } from '../llm/llm-interface';
+import { matchesToolPattern } from '../utils/tool-pattern';
+import { createLogger } from '../utils/logger';
+import { mcpServerRegistry } from './mcp-server-registry';
+
+const logger = createLogger();
+
+const DEFAULT_SAMPLING_SYSTEM_PROMPT = 'You are answering a request an MCP server made while running a tool. Reply with exactly what was asked for, without commentary.';
+
+export type MCPSamplingParams = CreateMessageRequest['params'];
+
+export interface MCPSamplingRequest {
+  server: string;
+  // The namespaced tool whose call is sampling
+  toolName: string;
+  // maxTokens is already capped by the server's policy
+  params: MCPSamplingParams;
+}
+
+// Supplied per tool call by whoever can ask the user and owns the model
+export type MCPSamplingHandler = (request: MCPSamplingRequest) => Promise<CreateMessageResult>;
+
+interface ActiveExecution {
+  toolName: string;
+  handler: MCPSamplingHandler;
+}
+
+/**
+ * Routes sampling/createMessage to the chat whose tool call is running on
+ * that connection, the same way server logs are tagged. Only servers with a
+ * sampling policy in the registry advertise the capability at all.
+ */
+export class MCPSamplingBroker {
+  private executions: Map<string, ActiveExecution> = new Map();
+
+  getClientCapabilities(server: string): ClientCapabilities {
+    return mcpServerRegistry.getServer(server)?.sampling ? { sampling: {} } : {};
+  }
+
+  // The client must have been created with getClientCapabilities(server)
+  attach(client: Client, server: string, connectionId: string): void {
+    if (!mcpServerRegistry.getServer(server)?.sampling) {
+      return;
+    }
+
+    client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      return this.handle(server, connectionId, request.params);
+    });
+  }
+
+  detach(connectionId: string): void {
+    this.executions.delete(connectionId);
+  }
+
+  // Without a handler (no chat to ask) the call simply can't sample
+  beginExecution(connectionId: string, toolName: string, handler?: MCPSamplingHandler): void {
+    if (handler) {
+      this.executions.set(connectionId, { toolName, handler });
+    }
+  }
+
+  endExecution(connectionId: string): void {
+    this.executions.delete(connectionId);
+  }
+
+  private async handle(server: string, connectionId: string, params: MCPSamplingParams): Promise<CreateMessageResult> {
+    const policy = mcpServerRegistry.getServer(server)?.sampling;
+    if (!policy) {
+      throw new McpError(ErrorCode.InvalidRequest, `Sampling is not enabled for MCP server ${server}`);
+    }
+
+    const execution = this.executions.get(connectionId);
+    if (!execution) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Sampling is only available while a chat is running one of your tools');
+    }
+    if (policy.tools && !policy.tools.some(pattern => matchesToolPattern(pattern, execution.toolName))) {
+      throw new McpError(ErrorCode.InvalidRequest, `Tool ${execution.toolName} is not allowed to request sampling`);
+    }
+
+    const maxTokens = Math.min(params.maxTokens, policy.maxTokens);
+    if (maxTokens < params.maxTokens) {
+      logger.info(`[MCP-SAMPLING] Capped ${server} sampling request from ${params.maxTokens} to ${maxTokens} tokens`);
+    }
+
+    return execution.handler({
+      server,
+      toolName: execution.toolName,
+      params: { ...params, maxTokens }
+    });
+  }
+}
+
+/**
+ * The conversation to send to the chat's model. Only text is supported;
+ * includeContext and stopSequences are not, the model sees just these messages.
+ */
+export function toSamplingMessages(params: MCPSamplingParams): LLMMessage[] {
+  const messages: LLMMessage[] = [
+    { role: 'system', content: params.systemPrompt || DEFAULT_SAMPLING_SYSTEM_PROMPT }
+  ];
+
+  for (const message of params.messages) {
+    if (message.content.type !== 'text') {
+      throw new McpError(ErrorCode.InvalidParams, `Sampling messages with ${message.content.type} content are not supported`);
+    }
+    messages.push({ role: message.role, content: message.content.text });
+  }
+  return messages;
+}
+
+export function toSamplingResult(response: LLMResponse, model: string): CreateMessageResult {
+  return {
+    role: 'assistant',
+    content: { type: 'text', text: response.message },
+    model,
+    stopReason: toSamplingStopReason(response.stopReason)
+  };
+}
+
+// Anthropic and OpenAI name these differently
+function toSamplingStopReason(stopReason?: string): string {
+  switch (stopReason) {
+    case 'max_tokens':
+    case 'length':
+      return 'maxTokens';
+    case 'stop_sequence':
+      return 'stopSequence';
+    default:
+      return 'endTurn';
+  }
+}
+
+export const mcpSampling = new MCPSamplingBroker();
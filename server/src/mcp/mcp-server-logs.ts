@@ -0,0 +1,128 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { MCPLogLevel, MCPServerLogEntry } from '../../../shared/src/types/mcp';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+
+export const MCP_LOG_LEVELS: MCPLogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// What the developer tools panel gets when it opens
+const RECENT_LOG_LIMIT = 500;
+// Keeps a chatty server from bloating a ToolExecution row
+const EXECUTION_LOG_LIMIT = 200;
+
+interface ActiveExecution {
+  tag: NonNullable<MCPServerLogEntry['toolExecution']>;
+  entries: MCPServerLogEntry[];
+}
+
+interface LoggingSession {
+  client: Client;
+  server: string;
+}
+
+export function isMCPLogLevel(value: unknown): value is MCPLogLevel {
+  return typeof value === 'string' && MCP_LOG_LEVELS.includes(value as MCPLogLevel);
+}
+
+/**
+ * Collects notifications/message from every MCP session. A connection runs
+ * one tool call at a time (the pool hands it to one caller, the protocol
+ * client queues), so an entry belongs to whatever call its connection has
+ * open. Emits 'log' for each entry; the socket layer relays that to admins.
+ */
+export class MCPServerLogService extends EventEmitter {
+  private sessions: Map<string, LoggingSession> = new Map();
+  private executions: Map<string, ActiveExecution> = new Map();
+  private recent: MCPServerLogEntry[] = [];
+  private level: MCPLogLevel = isMCPLogLevel(process.env.MCP_SERVER_LOG_LEVEL) ? process.env.MCP_SERVER_LOG_LEVEL : 'info';
+
+  /**
+   * Start listening to a freshly connected session. Servers that don't
+   * declare the logging capability are skipped, they would reject setLevel.
+   */
+  attach(client: Client, server: string, connectionId: string): void {
+    if (!client.getServerCapabilities()?.logging) {
+      return;
+    }
+
+    client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+      this.record(server, connectionId, notification.params);
+    });
+    this.sessions.set(connectionId, { client, server });
+
+    client.setLoggingLevel(this.level).catch(error => {
+      logger.warn(`[MCP-LOGS] Could not set log level on ${connectionId}:`, error);
+    });
+  }
+
+  detach(connectionId: string): void {
+    this.sessions.delete(connectionId);
+    this.executions.delete(connectionId);
+  }
+
+  beginExecution(connectionId: string, tag: ActiveExecution['tag']): void {
+    this.executions.set(connectionId, { tag, entries: [] });
+  }
+
+  // Returns what the call logged; safe to call for connections with nothing open
+  endExecution(connectionId: string): MCPServerLogEntry[] {
+    const execution = this.executions.get(connectionId);
+    this.executions.delete(connectionId);
+    return execution?.entries || [];
+  }
+
+  /**
+   * Sends logging/setLevel to every session and remembers the level for
+   * sessions opened later. Returns how many sessions accepted it.
+   */
+  async setLevel(level: MCPLogLevel): Promise<number> {
+    this.level = level;
+    const results = await Promise.allSettled(
+      Array.from(this.sessions.values()).map(session => session.client.setLoggingLevel(level))
+    );
+    const failed = results.filter(result => result.status === 'rejected');
+    if (failed.length > 0) {
+      logger.warn(`[MCP-LOGS] ${failed.length} sessions rejected log level ${level}`);
+    }
+    logger.info(`[MCP-LOGS] MCP server log level set to ${level}`);
+    return results.length - failed.length;
+  }
+
+  getLevel(): MCPLogLevel {
+    return this.level;
+  }
+
+  getRecent(): MCPServerLogEntry[] {
+    return [...this.recent];
+  }
+
+  private record(server: string, connectionId: string, params: { level: MCPLogLevel; logger?: string; data?: unknown }): void {
+    const execution = this.executions.get(connectionId);
+    const entry: MCPServerLogEntry = {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      server,
+      connectionId,
+      level: params.level,
+      logger: params.logger,
+      data: params.data,
+      toolExecution: execution?.tag
+    };
+
+    if (execution && execution.entries.length < EXECUTION_LOG_LIMIT) {
+      execution.entries.push(entry);
+    }
+    this.recent.push(entry);
+    if (this.recent.length > RECENT_LOG_LIMIT) {
+      this.recent.shift();
+    }
+
+    this.emit('log', entry);
+  }
+}
+
+export const mcpServerLogs = new MCPServerLogService();
@@ -0,0 +1,206 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '../utils/logger';
+import { MCPTransportConfig, MCPTransportType, getTransportConfigFromEnv, validateTransportConfig } from './mcp-transport';
+import { DEFAULT_MCP_SERVER, parseToolName } from './tool-namespace';
+
+const logger = createLogger();
+
+// Default per-request output cap for servers that don't set their own
+const DEFAULT_SAMPLING_MAX_TOKENS = parseInt(process.env.MCP_SAMPLING_MAX_TOKENS || '1024');
+
+// Lets a server ask the chat's model for completions (sampling/createMessage) mid-call
+export interface MCPSamplingPolicy {
+  maxTokens: number;
+  // Tool name globs allowed to sample; all of the server's tools when unset
+  tools?: string[];
+}
+
+export interface MCPServerDefinition {
+  name: string;
+  description?: string;
+  transport: MCPTransportConfig;
+  // Servers can be switched off globally, projects can only narrow this further
+  enabled: boolean;
+  minConnections?: number;
+  maxConnections?: number;
+  // Absent means the server may not sample
+  sampling?: MCPSamplingPolicy;
+}
+
+// Shape of one entry in the MCP_SERVERS_CONFIG file
+interface MCPServerFileEntry {
+  description?: string;
+  transport?: MCPTransportType;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  enabled?: boolean;
+  minConnections?: number;
+  maxConnections?: number;
+  sampling?: boolean | { maxTokens?: number; tools?: string[] };
+}
+
+// Project settings key listing the servers a project has switched off
+export interface ProjectMCPSettings {
+  disabledMcpServers?: string[];
+}
+
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export class MCPServerRegistry {
+  private servers: Map<string, MCPServerDefinition> | null = null;
+
+  /**
+   * Servers come from the JSON file named by MCP_SERVERS_CONFIG. Without one, the
+   * single ServiceNow server is built from the MCP_TRANSPORT / SERVICENOW_MCP_PATH
+   * variables as before.
+   */
+  private load(): Map<string, MCPServerDefinition> {
+    const servers = new Map<string, MCPServerDefinition>();
+    const configPath = process.env.MCP_SERVERS_CONFIG;
+
+    if (!configPath) {
+      servers.set(DEFAULT_MCP_SERVER, {
+        name: DEFAULT_MCP_SERVER,
+        description: 'ServiceNow',
+        transport: getTransportConfigFromEnv(),
+        enabled: true,
+        sampling: process.env.MCP_SAMPLING_ENABLED === 'true'
+          ? toSamplingPolicy({ tools: process.env.MCP_SAMPLING_TOOLS?.split(',').map(tool => tool.trim()).filter(Boolean) })
+          : undefined
+      });
+      return servers;
+    }
+
+    const resolvedPath = path.resolve(configPath);
+    let parsed: any;
+    try {
+      parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'), interpolateEnv);
+    } catch (error) {
+      throw new Error(`Failed to read MCP server config ${resolvedPath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const entries: Record<string, MCPServerFileEntry> = parsed?.servers || {};
+    for (const [name, entry] of Object.entries(entries)) {
+      servers.set(name, this.toDefinition(name, entry));
+    }
+
+    if (servers.size === 0) {
+      throw new Error(`MCP server config ${resolvedPath} does not define any servers`);
+    }
+
+    logger.info(`Loaded ${servers.size} MCP server definitions from ${resolvedPath}`, {
+      servers: Array.from(servers.keys())
+    });
+    return servers;
+  }
+
+  private toDefinition(name: string, entry: MCPServerFileEntry): MCPServerDefinition {
+    if (!SERVER_NAME_PATTERN.test(name)) {
+      throw new Error(`MCP server name "${name}" may only contain letters, digits, "-" and "_"`);
+    }
+
+    const type = entry.transport || (entry.url ? 'streamable-http' : 'stdio');
+    if (type === 'stdio' && !entry.command) {
+      throw new Error(`MCP server "${name}" needs a command for the stdio transport`);
+    }
+    if (type !== 'stdio' && !entry.url) {
+      throw new Error(`MCP server "${name}" needs a url for the ${type} transport`);
+    }
+
+    const transport: MCPTransportConfig = type === 'stdio'
+      ? { type, command: entry.command, args: entry.args, env: entry.env }
+      : { type, url: entry.url, headers: entry.headers };
+    validateTransportConfig(transport);
+
+    return {
+      name,
+      description: entry.description,
+      transport,
+      enabled: entry.enabled !== false,
+      minConnections: entry.minConnections,
+      maxConnections: entry.maxConnections,
+      sampling: entry.sampling ? toSamplingPolicy(entry.sampling === true ? {} : entry.sampling) : undefined
+    };
+  }
+
+  private getServerMap(): Map<string, MCPServerDefinition> {
+    if (!this.servers) {
+      this.servers = this.load();
+    }
+    return this.servers;
+  }
+
+  getServers(): MCPServerDefinition[] {
+    return Array.from(this.getServerMap().values());
+  }
+
+  getEnabledServers(): MCPServerDefinition[] {
+    return this.getServers().filter(server => server.enabled);
+  }
+
+  getServer(name: string): MCPServerDefinition | undefined {
+    return this.getServerMap().get(name);
+  }
+
+  hasServer(name: string): boolean {
+    return this.getServerMap().has(name);
+  }
+
+  /**
+   * Which server a tool call goes to. Unprefixed names (older clients, stored
+   * messages) belong to whichever server offers a tool by that name.
+   */
+  resolveServer(toolName: string, availableToolNames: string[] = []): string {
+    const { server, tool } = parseToolName(toolName);
+    if (server && this.hasServer(server)) {
+      return server;
+    }
+
+    const owner = availableToolNames.find(name => parseToolName(name).tool === tool);
+    return owner ? parseToolName(owner).server || DEFAULT_MCP_SERVER : DEFAULT_MCP_SERVER;
+  }
+
+  isServerEnabledForProject(serverName: string, settings?: ProjectMCPSettings | null): boolean {
+    const server = this.getServer(serverName);
+    if (!server?.enabled) {
+      return false;
+    }
+    return !(settings?.disabledMcpServers || []).includes(serverName);
+  }
+
+  filterToolsForProject<T extends { name: string }>(tools: T[], settings?: ProjectMCPSettings | null): T[] {
+    const disabled = settings?.disabledMcpServers || [];
+    if (disabled.length === 0) {
+      return tools;
+    }
+    return tools.filter(tool => !disabled.includes(this.resolveServer(tool.name)));
+  }
+}
+
+// JSON.parse reviver: "${VAR}" in string values is replaced from the environment so secrets stay out of the file
+function interpolateEnv(_key: string, value: unknown): unknown {
+  return typeof value === 'string'
+    ? value.replace(/\$\{([A-Z0-9_]+)\}/gi, (_, name) => process.env[name] || '')
+    : value;
+}
+
+function toSamplingPolicy(entry: { maxTokens?: number; tools?: string[] }): MCPSamplingPolicy {
+  return {
+    maxTokens: entry.maxTokens && entry.maxTokens > 0 ? entry.maxTokens : DEFAULT_SAMPLING_MAX_TOKENS,
+    tools: entry.tools && entry.tools.length > 0 ? entry.tools : undefined
+  };
+}
+
+export function validateMcpServerSettings(disabled: any): string | null {
+  if (disabled === undefined || disabled === null) return null;
+  if (!Array.isArray(disabled) || disabled.some(name => typeof name !== 'string')) {
+    return 'disabledMcpServers must be an array of server names';
+  }
+  return null;
+}
+
+export const mcpServerRegistry = new MCPServerRegistry();
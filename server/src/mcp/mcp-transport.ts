@@ -0,0 +1,145 @@
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { DEFAULT_MCP_SERVER } from './tool-namespace';
+import { createRecordingTransport, createReplayTransport, getCassetteConfig } from './mcp-cassette';
+
+export type MCPTransportType = 'stdio' | 'sse' | 'streamable-http';
+
+export interface MCPTransportConfig {
+  type: MCPTransportType;
+  // stdio: executable spawned as a child process
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  // sse / streamable-http: remote endpoint and the headers sent with every request
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+const TRANSPORT_TYPES: MCPTransportType[] = ['stdio', 'sse', 'streamable-http'];
+
+/**
+ * Reads the MCP transport from the environment. MCP_TRANSPORT defaults to stdio
+ * so existing SERVICENOW_MCP_PATH setups keep working unchanged.
+ */
+export function getTransportConfigFromEnv(): MCPTransportConfig {
+  const type = (process.env.MCP_TRANSPORT || 'stdio').toLowerCase() as MCPTransportType;
+
+  if (type === 'stdio') {
+    return {
+      type,
+      command: process.env.SERVICENOW_MCP_PATH || ''
+    };
+  }
+
+  return {
+    type,
+    url: process.env.MCP_SERVER_URL || '',
+    headers: parseAuthHeaders()
+  };
+}
+
+function parseAuthHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (process.env.MCP_HEADERS) {
+    try {
+      const parsed = JSON.parse(process.env.MCP_HEADERS);
+      for (const [name, value] of Object.entries(parsed)) {
+        headers[name] = String(value);
+      }
+    } catch (error) {
+      throw new Error('MCP_HEADERS must be a JSON object of header names to values');
+    }
+  }
+
+  if (process.env.MCP_AUTH_TOKEN) {
+    headers['Authorization'] = `Bearer ${process.env.MCP_AUTH_TOKEN}`;
+  }
+
+  return headers;
+}
+
+export function validateTransportConfig(config: MCPTransportConfig): void {
+  // A replayed server is never started, so its command or URL doesn't matter
+  if (getCassetteConfig()?.mode === 'replay') {
+    return;
+  }
+
+  if (!TRANSPORT_TYPES.includes(config.type)) {
+    throw new Error(`Unsupported MCP_TRANSPORT "${config.type}", expected one of: ${TRANSPORT_TYPES.join(', ')}`);
+  }
+
+  if (config.type === 'stdio') {
+    if (!config.command) {
+      throw new Error('SERVICENOW_MCP_PATH environment variable is required');
+    }
+    return;
+  }
+
+  if (!config.url) {
+    throw new Error(`MCP_SERVER_URL environment variable is required for the ${config.type} transport`);
+  }
+
+  try {
+    new URL(config.url);
+  } catch {
+    throw new Error(`MCP_SERVER_URL is not a valid URL: ${config.url}`);
+  }
+}
+
+/**
+ * The transport for one session with a server. MCP_CASSETTE_MODE swaps in a
+ * replay transport, or wraps the real one to record its tool calls.
+ */
+export function createTransport(config: MCPTransportConfig, serverName: string = DEFAULT_MCP_SERVER): Transport {
+  const cassette = getCassetteConfig();
+  if (cassette?.mode === 'replay') {
+    return createReplayTransport(cassette.path, serverName);
+  }
+
+  const transport = createLiveTransport(config);
+  return cassette?.mode === 'record' ? createRecordingTransport(transport, cassette.path, serverName) : transport;
+}
+
+function createLiveTransport(config: MCPTransportConfig): Transport {
+  switch (config.type) {
+    case 'sse':
+      return new SSEClientTransport(new URL(config.url!), {
+        requestInit: { headers: config.headers }
+      });
+
+    case 'streamable-http':
+      return new StreamableHTTPClientTransport(new URL(config.url!), {
+        requestInit: { headers: config.headers },
+        reconnectionOptions: {
+          initialReconnectionDelay: parseInt(process.env.MCP_RECONNECT_INITIAL_DELAY || '1000'),
+          maxReconnectionDelay: parseInt(process.env.MCP_RECONNECT_MAX_DELAY || '30000'),
+          reconnectionDelayGrowFactor: 2,
+          maxRetries: parseInt(process.env.MCP_RECONNECT_MAX_RETRIES || '5')
+        }
+      });
+
+    case 'stdio':
+    default:
+      return new StdioClientTransport({
+        command: config.command!,
+        args: config.args,
+        // Extra variables are added to the safe default environment, not a replacement for it
+        env: config.env ? { ...getDefaultEnvironment(), ...config.env } : undefined
+      });
+  }
+}
+
+// Where the transport points, without the auth headers, for logs and health output
+export function describeTransport(config: MCPTransportConfig): string {
+  const cassette = getCassetteConfig();
+  if (cassette?.mode === 'replay') {
+    return `replay:${cassette.path}`;
+  }
+  return config.type === 'stdio'
+    ? `stdio:${config.command}`
+    : `${config.type}:${config.url}`;
+}
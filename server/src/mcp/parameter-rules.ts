@@ -0,0 +1,428 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { createLogger } from '../utils/logger';
+import { matchesToolPattern } from '../utils/tool-pattern';
+
+const logger = createLogger();
+
+export const PARAMETER_RULES_VERSION = 1;
+
+const DEFAULT_RULES_PATH = path.resolve(__dirname, '../../parameter-rules.yaml');
+const SHAPES = ['command', 'structured', 'empty'] as const;
+const TRANSFORMS = ['lowercase', 'snake_case'] as const;
+
+export interface ParameterRuleField {
+  // Argument names to take the value from, first non-empty wins (defaults to the field name)
+  from?: string[];
+  default?: any;
+  stripQuotes?: boolean;
+}
+
+export interface ParameterCapture {
+  group: number;
+  transform?: typeof TRANSFORMS[number];
+  // Replace captured values, e.g. { text: string } for "add a text field"
+  map?: Record<string, string>;
+}
+
+export interface ParameterExtraction {
+  // Matched against the user's message; without a pattern the entry always applies
+  pattern?: string;
+  flags?: string;
+  // "empty" entries only run when the LLM sent no arguments at all
+  when?: 'always' | 'empty';
+  // Extracted values normally only fill arguments the LLM left out. Either way the
+  // first entry that extracts an argument wins over later ones.
+  override?: boolean;
+  captures?: Record<string, number | ParameterCapture>;
+  set?: Record<string, any>;
+}
+
+export interface ParameterRule {
+  name: string;
+  // Tool name globs, matched with or without the server prefix
+  tools: string[];
+  // command: render `template` into { command }, structured: map fields, empty: send {}
+  shape: typeof SHAPES[number];
+  template?: string;
+  fields?: Record<string, ParameterRuleField>;
+  // structured only: keep arguments that aren't listed in fields
+  passthrough?: boolean;
+  omit?: string[];
+  dropEmpty?: boolean;
+  extract?: ParameterExtraction[];
+}
+
+export interface ParameterRuleSet {
+  version: number;
+  rules: ParameterRule[];
+}
+
+export interface ParameterRuleResult {
+  rule: string | null;
+  arguments: Record<string, any>;
+  // The rule's field values before they were shaped, e.g. the name put into a command
+  fields: Record<string, any>;
+  // Patterns that matched the user message, for the admin test endpoint
+  matchedExtractions: string[];
+}
+
+export interface ParameterRulesStatus {
+  path: string;
+  version: number | null;
+  ruleCount: number;
+  loadedAt: Date | null;
+  lastError: string | null;
+}
+
+/**
+ * Maps LLM arguments onto the shapes ServiceNow's MCP tools expect, driven by
+ * the rules file at PARAMETER_RULES_PATH. The file is re-read when it changes;
+ * a broken edit is logged and the previous rules stay active.
+ */
+export class ParameterRuleEngine {
+  private ruleSet: ParameterRuleSet | null = null;
+  private loadedAt: Date | null = null;
+  private lastError: string | null = null;
+  private watching = false;
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Load the rules and start watching the file. Throws when the file can't be
+   * used so startup fails on a broken rules file rather than at the first tool call.
+   */
+  initialize(): void {
+    // Watch first so fixing a broken file is picked up without a restart
+    this.watch();
+    this.reload();
+  }
+
+  reload(): ParameterRuleSet {
+    try {
+      const ruleSet = parseParameterRules(fs.readFileSync(this.filePath, 'utf-8'), this.filePath);
+      this.ruleSet = ruleSet;
+      this.loadedAt = new Date();
+      this.lastError = null;
+      logger.info(`Loaded ${ruleSet.rules.length} parameter rules from ${this.filePath}`);
+      return ruleSet;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+
+  private watch(): void {
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+
+    // watchFile polls, which survives editors that replace the file on save
+    const interval = parseInt(process.env.PARAMETER_RULES_RELOAD_INTERVAL_MS || '2000');
+    fs.watchFile(this.filePath, { interval, persistent: false }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) {
+        return;
+      }
+      try {
+        this.reload();
+      } catch (error) {
+        logger.error(`Keeping previous parameter rules, ${this.filePath} is invalid:`, error);
+      }
+    });
+  }
+
+  private getRuleSet(): ParameterRuleSet {
+    if (!this.ruleSet && !this.lastError) {
+      // Scripts and tests that never called initialize()
+      try {
+        this.initialize();
+      } catch (error) {
+        logger.error('Parameter rules unavailable, tool arguments pass through unchanged:', error);
+      }
+    }
+    return this.ruleSet || { version: PARAMETER_RULES_VERSION, rules: [] };
+  }
+
+  findRule(toolName: string): ParameterRule | undefined {
+    return this.getRuleSet().rules.find(rule =>
+      rule.tools.some(pattern => matchesToolPattern(pattern, toolName))
+    );
+  }
+
+  apply(toolName: string, args: Record<string, any>, userMessage?: string): ParameterRuleResult {
+    const rule = this.findRule(toolName);
+    if (!rule) {
+      return { rule: null, arguments: args || {}, fields: {}, matchedExtractions: [] };
+    }
+    return applyParameterRule(rule, toolName, args, userMessage);
+  }
+
+  getRules(): ParameterRuleSet {
+    return this.getRuleSet();
+  }
+
+  getStatus(): ParameterRulesStatus {
+    return {
+      path: this.filePath,
+      version: this.ruleSet?.version ?? null,
+      ruleCount: this.ruleSet?.rules.length || 0,
+      loadedAt: this.loadedAt,
+      lastError: this.lastError
+    };
+  }
+}
+
+export function parseParameterRules(content: string, source: string): ParameterRuleSet {
+  let data: any;
+  try {
+    data = /\.ya?ml$/i.test(source) ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse parameter rules ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const validationError = validateParameterRules(data);
+  if (validationError) {
+    throw new Error(`Invalid parameter rules ${source}: ${validationError}`);
+  }
+  return data as ParameterRuleSet;
+}
+
+export function validateParameterRules(data: any): string | null {
+  if (!data || typeof data !== 'object') {
+    return 'rules file must contain an object';
+  }
+  if (data.version !== PARAMETER_RULES_VERSION) {
+    return `version must be ${PARAMETER_RULES_VERSION}`;
+  }
+  if (!Array.isArray(data.rules)) {
+    return 'rules must be an array';
+  }
+
+  const names = new Set<string>();
+  for (const rule of data.rules) {
+    const error = validateParameterRule(rule);
+    if (error) {
+      return rule?.name ? `rule "${rule.name}": ${error}` : error;
+    }
+    if (names.has(rule.name)) {
+      return `rule name "${rule.name}" is used twice`;
+    }
+    names.add(rule.name);
+  }
+  return null;
+}
+
+export function validateParameterRule(rule: any): string | null {
+  if (!rule || typeof rule !== 'object') {
+    return 'each rule must be an object';
+  }
+  if (typeof rule.name !== 'string' || rule.name.trim().length === 0) {
+    return 'name is required';
+  }
+  if (!isStringArray(rule.tools) || rule.tools.length === 0) {
+    return 'tools must be a non-empty array of tool name patterns';
+  }
+  if (!SHAPES.includes(rule.shape)) {
+    return `shape must be one of: ${SHAPES.join(', ')}`;
+  }
+  if (rule.shape === 'command') {
+    if (typeof rule.template !== 'string' || rule.template.length === 0) {
+      return 'command rules need a template';
+    }
+    for (const [, placeholder] of rule.template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+      if (!['tool', 'toolWords'].includes(placeholder) && !rule.fields?.[placeholder]) {
+        return `template uses {{${placeholder}}} but no field defines it`;
+      }
+    }
+  }
+  if (rule.fields !== undefined) {
+    if (!rule.fields || typeof rule.fields !== 'object' || Array.isArray(rule.fields)) {
+      return 'fields must be an object';
+    }
+    for (const [name, field] of Object.entries<any>(rule.fields)) {
+      if (!field || typeof field !== 'object') {
+        return `field "${name}" must be an object`;
+      }
+      if (field.from !== undefined && !isStringArray(field.from)) {
+        return `field "${name}": from must be an array of argument names`;
+      }
+    }
+  }
+  if (rule.omit !== undefined && !isStringArray(rule.omit)) {
+    return 'omit must be an array of argument names';
+  }
+  if (rule.extract !== undefined) {
+    if (!Array.isArray(rule.extract)) {
+      return 'extract must be an array';
+    }
+    for (const extraction of rule.extract) {
+      const error = validateExtraction(extraction);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+function validateExtraction(extraction: any): string | null {
+  if (!extraction || typeof extraction !== 'object') {
+    return 'each extract entry must be an object';
+  }
+  if (extraction.pattern !== undefined) {
+    try {
+      new RegExp(extraction.pattern, extraction.flags);
+    } catch {
+      return `Invalid regular expression: ${extraction.pattern}`;
+    }
+  }
+  if (extraction.when !== undefined && !['always', 'empty'].includes(extraction.when)) {
+    return 'extract.when must be "always" or "empty"';
+  }
+  if (!extraction.captures && !extraction.set) {
+    return 'extract entries need captures or set';
+  }
+  for (const [name, capture] of Object.entries<any>(extraction.captures || {})) {
+    const group = typeof capture === 'number' ? capture : capture?.group;
+    if (!Number.isInteger(group) || group < 0) {
+      return `capture "${name}" needs a group number`;
+    }
+    if (typeof capture === 'object' && capture.transform !== undefined && !TRANSFORMS.includes(capture.transform)) {
+      return `capture "${name}": transform must be one of: ${TRANSFORMS.join(', ')}`;
+    }
+    if (extraction.pattern === undefined) {
+      return `capture "${name}" needs a pattern to capture from`;
+    }
+  }
+  return null;
+}
+
+export function applyParameterRule(
+  rule: ParameterRule,
+  toolName: string,
+  rawArguments: Record<string, any>,
+  userMessage?: string
+): ParameterRuleResult {
+  const wasEmpty = !rawArguments || Object.keys(rawArguments).length === 0;
+  const args: Record<string, any> = JSON.parse(JSON.stringify(rawArguments || {}));
+  const matchedExtractions: string[] = [];
+
+  if (rule.shape === 'empty') {
+    return { rule: rule.name, arguments: {}, fields: {}, matchedExtractions };
+  }
+
+  // The LLM already wrote the command, send it as is
+  if (rule.shape === 'command' && typeof args.command === 'string') {
+    return { rule: rule.name, arguments: { command: args.command }, fields: {}, matchedExtractions };
+  }
+
+  if (userMessage) {
+    const extracted = new Set<string>();
+    for (const extraction of rule.extract || []) {
+      if (extraction.when === 'empty' && !wasEmpty) {
+        continue;
+      }
+
+      let match: RegExpMatchArray | null = null;
+      if (extraction.pattern !== undefined) {
+        match = userMessage.match(new RegExp(extraction.pattern, extraction.flags));
+        if (!match) {
+          continue;
+        }
+        matchedExtractions.push(extraction.pattern);
+      }
+
+      const values: Record<string, any> = { ...(extraction.set || {}) };
+      for (const [name, capture] of Object.entries(extraction.captures || {})) {
+        const value = readCapture(match!, capture);
+        if (value !== undefined) {
+          values[name] = value;
+        }
+      }
+
+      for (const [name, value] of Object.entries(values)) {
+        if (!extracted.has(name) && (extraction.override || isMissing(getPath(args, name)))) {
+          setPath(args, name, value);
+          extracted.add(name);
+        }
+      }
+    }
+  }
+
+  const fieldValues: Record<string, any> = {};
+  for (const [name, field] of Object.entries(rule.fields || {})) {
+    const source = (field.from || [name]).find(key => !isMissing(args[key]));
+    let value = source !== undefined ? args[source] : field.default;
+    if (field.stripQuotes && typeof value === 'string') {
+      value = value.replace(/^['"]|['"]$/g, '');
+    }
+    if (value !== undefined) {
+      fieldValues[name] = value;
+    }
+  }
+
+  if (rule.shape === 'command') {
+    const normalizedToolName = toolName.substring(toolName.lastIndexOf(':') + 1);
+    const placeholders: Record<string, any> = {
+      ...fieldValues,
+      tool: normalizedToolName,
+      toolWords: normalizedToolName.replace(/-/g, ' ')
+    };
+    const command = rule.template!.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => String(placeholders[name] ?? ''));
+    return { rule: rule.name, arguments: { command }, fields: fieldValues, matchedExtractions };
+  }
+
+  let transformed: Record<string, any> = rule.passthrough ? { ...args, ...fieldValues } : fieldValues;
+  for (const key of rule.omit || []) {
+    delete transformed[key];
+  }
+  if (rule.dropEmpty) {
+    transformed = Object.fromEntries(Object.entries(transformed).filter(([, value]) => !isMissing(value)));
+  }
+  return { rule: rule.name, arguments: transformed, fields: fieldValues, matchedExtractions };
+}
+
+function readCapture(match: RegExpMatchArray, capture: number | ParameterCapture): string | undefined {
+  const spec = typeof capture === 'number' ? { group: capture } : capture;
+  let value = match[spec.group]?.trim();
+  if (value === undefined) {
+    return undefined;
+  }
+  if (spec.transform === 'lowercase') {
+    value = value.toLowerCase();
+  } else if (spec.transform === 'snake_case') {
+    value = value.toLowerCase().replace(/\s+/g, '_');
+  }
+  return spec.map?.[value] ?? value;
+}
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function isStringArray(value: any): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Dotted names ("fields.short_description") address nested arguments
+function getPath(target: Record<string, any>, name: string): any {
+  return name.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), target);
+}
+
+function setPath(target: Record<string, any>, name: string, value: any): void {
+  const keys = name.split('.');
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+export const parameterRules = new ParameterRuleEngine(process.env.PARAMETER_RULES_PATH
+  ? path.resolve(process.env.PARAMETER_RULES_PATH)
+  : DEFAULT_RULES_PATH);
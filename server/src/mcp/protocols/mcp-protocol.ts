@@ -1,6 +1,21 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { MCPTransportConfig, createTransport, describeTransport } from '../mcp-transport';
+import {
+  MCPResourceDescriptor,
+  MCPResourceContents,
+  MCPPromptDescriptor,
+  MCPPromptContents,
+  listServerResources,
+  readServerResource,
+  listServerPrompts,
+  getServerPrompt
+} from '../mcp-content';
 import { createLogger } from '../../utils/logger';
+import { DEFAULT_MCP_SERVER } from '../tool-namespace';
+import { mcpServerLogs } from '../mcp-server-logs';
+import { mcpSampling } from '../mcp-sampling';
 
 const logger = createLogger();
 
@@ -35,6 +50,11 @@ export interface MCPTool {
     properties?: Record<string, any>;
     required?: string[];
   };
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+  };
 }
 
 export interface MCPInitializationResult {
@@ -51,19 +71,31 @@ export class MCPProtocolManager {
   private serverInfo: MCPServerInfo = { name: '', version: '' };
   private availableTools: MCPTool[] = [];
   private connectionPromise: Promise<void> | null = null;
+  private transportConfig: MCPTransportConfig | null = null;
+  private toolsChangedListener: (() => void) | null = null;
+
+  // The one session for this server, so it doubles as the log connection id
+  constructor(private serverName: string = DEFAULT_MCP_SERVER) {}
 
-  async initialize(mcpPath: string): Promise<MCPInitializationResult> {
+  async initialize(transportConfig: MCPTransportConfig): Promise<MCPInitializationResult> {
     if (this.connectionPromise) {
       await this.connectionPromise;
       return this.getInitializationResult();
     }
 
-    this.connectionPromise = this.performInitialization(mcpPath);
-    await this.connectionPromise;
+    this.transportConfig = transportConfig;
+    this.connectionPromise = this.performInitialization(transportConfig);
+    try {
+      await this.connectionPromise;
+    } catch (error) {
+      // Let the next call try again instead of replaying the failure
+      this.connectionPromise = null;
+      throw error;
+    }
     return this.getInitializationResult();
   }
 
-  private async performInitialization(mcpPath: string): Promise<void> {
+  private async performInitialization(transportConfig: MCPTransportConfig): Promise<void> {
     try {
       logger.info('Starting MCP protocol initialization');
 
@@ -71,17 +103,36 @@ export class MCPProtocolManager {
       this.client = new Client({
         name: "servicenow-web-app",
         version: "1.0.0",
-      });
+      }, { capabilities: mcpSampling.getClientCapabilities(this.serverName) });
 
       // Create transport
-      const transport = new StdioClientTransport({
-        command: mcpPath,
-      });
+      const transport = createTransport(transportConfig, this.serverName);
 
       // Connect to MCP server
-      logger.info('Connecting to MCP server at:', mcpPath);
+      logger.info('Connecting to MCP server at:', describeTransport(transportConfig));
       await this.client.connect(transport);
 
+      // Mark the session dead so the next tool call reconnects
+      this.client.onclose = () => {
+        if (this.isInitialized) {
+          logger.warn('MCP server connection closed unexpectedly');
+        }
+        this.isInitialized = false;
+        this.connectionPromise = null;
+        mcpServerLogs.detach(this.serverName);
+        mcpSampling.detach(this.serverName);
+      };
+
+      // Re-list tools when the server announces a change so the next LLM call sees them
+      this.client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        logger.info('MCP server reported a tool list change');
+        await this.discoverTools();
+        this.toolsChangedListener?.();
+      });
+
+      mcpServerLogs.attach(this.client, this.serverName, this.serverName);
+      mcpSampling.attach(this.client, this.serverName, this.serverName);
+
       // Perform capability negotiation
       await this.negotiateCapabilities();
 
@@ -110,11 +161,14 @@ export class MCPProtocolManager {
     try {
       logger.info('Negotiating MCP capabilities');
 
-      // Get server capabilities and info through the SDK's initialize method
-      const initResult = await this.client.initialize();
+      // connect() already ran the initialize handshake, read back what the server sent
+      const serverVersion = this.client.getServerVersion();
       
-      this.serverInfo = initResult.serverInfo;
-      this.capabilities = initResult.capabilities || {};
+      this.serverInfo = {
+        name: serverVersion?.name || 'unknown',
+        version: serverVersion?.version || '0.0.0'
+      };
+      this.capabilities = (this.client.getServerCapabilities() as MCPCapabilities) || {};
 
       logger.info('Capability negotiation completed', {
         serverInfo: this.serverInfo,
@@ -142,7 +196,8 @@ export class MCPProtocolManager {
       this.availableTools = response.tools.map(tool => ({
         name: tool.name,
         description: tool.description,
-        inputSchema: tool.inputSchema
+        inputSchema: tool.inputSchema,
+        annotations: tool.annotations
       }));
 
       logger.info(`Discovered ${this.availableTools.length} MCP tools:`, 
@@ -178,7 +233,13 @@ export class MCPProtocolManager {
     return { ...this.serverInfo };
   }
 
-  async callTool(name: string, arguments_: any): Promise<any> {
+  // options.signal and options.timeout both send notifications/cancelled to the server when they fire
+  async callTool(name: string, arguments_: any, options?: RequestOptions): Promise<any> {
+    if (!this.isInitialized && this.transportConfig) {
+      logger.info('Reconnecting to MCP server before tool call');
+      await this.initialize(this.transportConfig);
+    }
+
     if (!this.client || !this.isInitialized) {
       throw new Error('MCP client not properly initialized');
     }
@@ -201,7 +262,7 @@ export class MCPProtocolManager {
         serialized: JSON.stringify(toolCall)
       });
 
-      const response = await this.client.callTool(toolCall);
+      const response = await this.client.callTool(toolCall, undefined, options);
 
       logger.info(`[WEB-APP] MCP tool ${name} completed successfully`, {
         responseType: typeof response,
@@ -216,6 +277,34 @@ export class MCPProtocolManager {
     }
   }
 
+  async listResources(): Promise<MCPResourceDescriptor[]> {
+    if (!this.client || !this.isInitialized) {
+      return [];
+    }
+    return listServerResources(this.client);
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    if (!this.client || !this.isInitialized) {
+      throw new Error('MCP client not properly initialized');
+    }
+    return readServerResource(this.client, uri);
+  }
+
+  async listPrompts(): Promise<MCPPromptDescriptor[]> {
+    if (!this.client || !this.isInitialized) {
+      return [];
+    }
+    return listServerPrompts(this.client);
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptContents> {
+    if (!this.client || !this.isInitialized) {
+      throw new Error('MCP client not properly initialized');
+    }
+    return getServerPrompt(this.client, name, args);
+  }
+
   async refreshTools(): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('MCP client not initialized');
@@ -224,6 +313,10 @@ export class MCPProtocolManager {
     await this.discoverTools();
   }
 
+  onToolsChanged(listener: () => void): void {
+    this.toolsChangedListener = listener;
+  }
+
   isConnected(): boolean {
     return this.isInitialized && this.client !== null;
   }
@@ -231,6 +324,8 @@ export class MCPProtocolManager {
   async disconnect(): Promise<void> {
     if (this.client && this.isInitialized) {
       try {
+        // Intentional close, not a dropped connection
+        this.isInitialized = false;
         await this.client.close();
         logger.info('Disconnected from MCP server');
       } catch (error) {
@@ -238,9 +333,12 @@ export class MCPProtocolManager {
       }
     }
 
+    mcpServerLogs.detach(this.serverName);
+    mcpSampling.detach(this.serverName);
     this.client = null;
     this.isInitialized = false;
     this.connectionPromise = null;
+    this.transportConfig = null;
     this.availableTools = [];
     this.capabilities = {};
     this.serverInfo = { name: '', version: '' };
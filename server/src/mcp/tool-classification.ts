@@ -0,0 +1,20 @@
+import { MCPTool } from './protocols/mcp-protocol';
+
+export type ToolOperation = 'read' | 'write';
+
+const READ_VERBS = ['query', 'get', 'list', 'search', 'read', 'find', 'fetch', 'describe', 'check', 'test', 'validate'];
+
+/**
+ * Classify a tool call as a read or a write. Server annotations win; otherwise
+ * the verb at the start of the tool name decides, and unknown verbs count as writes.
+ */
+export function classifyToolOperation(toolName: string, tool?: Pick<MCPTool, 'annotations'>): ToolOperation {
+  if (tool?.annotations?.readOnlyHint !== undefined) {
+    return tool.annotations.readOnlyHint ? 'read' : 'write';
+  }
+
+  const shortName = toolName.includes(':') ? toolName.substring(toolName.lastIndexOf(':') + 1) : toolName;
+  const verb = shortName.toLowerCase().split(/[-_]/)[0];
+
+  return READ_VERBS.includes(verb) ? 'read' : 'write';
+}
@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+
+// Tools are addressed as "<server>:<tool>" so several MCP servers can offer the same tool name
+export const DEFAULT_MCP_SERVER = 'servicenow-mcp';
+
+const SEPARATOR = ':';
+const PROVIDER_NAME_LIMIT = 64;
+
+export interface ParsedToolName {
+  server?: string;
+  tool: string;
+}
+
+export function namespaceToolName(server: string, tool: string): string {
+  return `${server}${SEPARATOR}${tool}`;
+}
+
+export function parseToolName(name: string): ParsedToolName {
+  const index = name.indexOf(SEPARATOR);
+  if (index <= 0) {
+    return { tool: name };
+  }
+  return { server: name.substring(0, index), tool: name.substring(index + 1) };
+}
+
+// The name the MCP server itself knows the tool by
+export function stripServerPrefix(name: string): string {
+  return parseToolName(name).tool;
+}
+
+/**
+ * LLM APIs only accept ^[a-zA-Z0-9_-]{1,64}$ as tool names. ServiceNow tools keep
+ * their bare names (the system prompt refers to them that way), tools from other
+ * servers become "<server>__<tool>" so they can't collide.
+ */
+export function toProviderToolName(name: string): string {
+  const { server, tool } = parseToolName(name);
+  const providerName = !server || server === DEFAULT_MCP_SERVER ? tool : `${server}__${tool}`;
+  return providerName.replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, PROVIDER_NAME_LIMIT);
+}
+
+/**
+ * Provider names for a set of tools, unique within the set. Sanitizing and
+ * truncation can give two tools the same name; one keeps it (a ServiceNow tool
+ * if there is one) and the others get a short hash of their full name.
+ */
+export function buildProviderToolNames(names: string[]): Map<string, string> {
+  const groups = new Map<string, string[]>();
+  for (const name of new Set(names)) {
+    const providerName = toProviderToolName(name);
+    groups.set(providerName, [...(groups.get(providerName) || []), name]);
+  }
+
+  const providerNames = new Map<string, string>();
+  for (const [providerName, group] of groups) {
+    const sorted = [...group].sort();
+    const keeper = sorted.find(isDefaultServerTool) ?? sorted[0];
+    for (const name of sorted) {
+      providerNames.set(name, name === keeper ? providerName : withHashSuffix(providerName, name));
+    }
+  }
+  return providerNames;
+}
+
+function isDefaultServerTool(name: string): boolean {
+  const { server } = parseToolName(name);
+  return !server || server === DEFAULT_MCP_SERVER;
+}
+
+function withHashSuffix(providerName: string, name: string): string {
+  const hash = createHash('sha1').update(name).digest('hex').substring(0, 8);
+  return `${providerName.substring(0, PROVIDER_NAME_LIMIT - hash.length - 1)}_${hash}`;
+}
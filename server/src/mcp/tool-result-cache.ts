@@ -0,0 +1,287 @@
+import { createHash } from 'crypto';
+import IORedis from 'ioredis';
+import { createLogger } from '../utils/logger';
+import { classifyToolOperation } from './tool-classification';
+import { stripServerPrefix } from './tool-namespace';
+import { matchesToolPattern } from '../utils/tool-pattern';
+import { MCPTool } from './protocols/mcp-protocol';
+
+const logger = createLogger();
+
+const KEY_PREFIX = 'mcp-cache';
+
+// These read live state (connectivity, validation runs), an old answer is a wrong answer
+const DEFAULT_TOOL_TTLS: Record<string, number> = {
+  'test-*': 0,
+  'check-*': 0,
+  'validate-*': 0
+};
+
+export interface ToolResultCacheBackend {
+  get(key: string): Promise<string | null>;
+  // Tags group entries so a write can drop every query it may have made stale
+  set(key: string, value: string, ttlMs: number, tags: string[]): Promise<void>;
+  invalidateTag(tag: string): Promise<number>;
+  close(): Promise<void>;
+}
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+  tags: string[];
+}
+
+export class MemoryCacheBackend implements ToolResultCacheBackend {
+  private entries: Map<string, MemoryEntry> = new Map();
+  private tags: Map<string, Set<string>> = new Map();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number, tags: string[]): Promise<void> {
+    this.remove(key);
+    // Maps keep insertion order, so the first key is the oldest
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.remove(oldest);
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, tags });
+    for (const tag of tags) {
+      if (!this.tags.has(tag)) {
+        this.tags.set(tag, new Set());
+      }
+      this.tags.get(tag)!.add(key);
+    }
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const keys = Array.from(this.tags.get(tag) || []);
+    keys.forEach(key => this.remove(key));
+    this.tags.delete(tag);
+    return keys.length;
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+    this.tags.clear();
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tags.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) {
+        this.tags.delete(tag);
+      }
+    }
+  }
+}
+
+// Shared by every app instance, so a write on one invalidates the others' entries too
+export class RedisCacheBackend implements ToolResultCacheBackend {
+  private redis = new IORedis({
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD,
+  });
+  private longestTtlMs = 0;
+
+  async get(key: string): Promise<string | null> {
+    return this.redis.get(key);
+  }
+
+  async set(key: string, value: string, ttlMs: number, tags: string[]): Promise<void> {
+    // A tag set has to outlive every entry in it, whatever order they were added in
+    this.longestTtlMs = Math.max(this.longestTtlMs, ttlMs);
+    const pipeline = this.redis.pipeline();
+    pipeline.set(key, value, 'PX', ttlMs);
+    for (const tag of tags) {
+      const tagKey = `${KEY_PREFIX}:tag:${tag}`;
+      pipeline.sadd(tagKey, key);
+      pipeline.pexpire(tagKey, this.longestTtlMs);
+    }
+    await pipeline.exec();
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const tagKey = `${KEY_PREFIX}:tag:${tag}`;
+    const keys = await this.redis.smembers(tagKey);
+    if (keys.length > 0) {
+      await this.redis.del(...keys);
+    }
+    await this.redis.del(tagKey);
+    return keys.length;
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+export interface CachedToolResult<T> {
+  result: T;
+  cachedAt: string;
+}
+
+export interface ToolResultCacheStats {
+  enabled: boolean;
+  backend: string;
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+/**
+ * Read-through cache for read-only tool calls. Entries are keyed by user,
+ * tool and arguments, and tagged with the table they read so a write to that
+ * table drops them. Backend errors are logged and treated as misses; the
+ * cache must never be the reason a tool call fails.
+ */
+export class ToolResultCache {
+  private backend: ToolResultCacheBackend;
+  private backendName: string;
+  private enabled = process.env.MCP_CACHE_ENABLED !== 'false';
+  private defaultTtlMs = parseInt(process.env.MCP_CACHE_TTL_MS || '60000');
+  private toolTtls: Record<string, number>;
+  private stats = { hits: 0, misses: 0, invalidations: 0 };
+
+  constructor() {
+    this.backendName = process.env.MCP_CACHE_BACKEND === 'redis' ? 'redis' : 'memory';
+    this.backend = this.backendName === 'redis'
+      ? new RedisCacheBackend()
+      : new MemoryCacheBackend(parseInt(process.env.MCP_CACHE_MAX_ENTRIES || '1000'));
+    // Configured patterns are checked before the defaults so they can override them
+    this.toolTtls = { ...parseToolTtls(process.env.MCP_CACHE_TOOL_TTLS) };
+    for (const [pattern, ttl] of Object.entries(DEFAULT_TOOL_TTLS)) {
+      if (!(pattern in this.toolTtls)) {
+        this.toolTtls[pattern] = ttl;
+      }
+    }
+  }
+
+  // 0 means the tool is never cached
+  getTtl(toolName: string, tool?: Pick<MCPTool, 'annotations'>): number {
+    if (!this.enabled || classifyToolOperation(toolName, tool) !== 'read') {
+      return 0;
+    }
+    const pattern = Object.keys(this.toolTtls).find(candidate => matchesToolPattern(candidate, toolName));
+    return pattern !== undefined ? this.toolTtls[pattern] : this.defaultTtlMs;
+  }
+
+  async get<T>(userId: string, serverName: string, toolName: string, args: any): Promise<CachedToolResult<T> | null> {
+    try {
+      const value = await this.backend.get(buildCacheKey(userId, serverName, toolName, args));
+      if (value === null) {
+        this.stats.misses++;
+        return null;
+      }
+      this.stats.hits++;
+      return JSON.parse(value);
+    } catch (error) {
+      logger.warn(`[TOOL-CACHE] Lookup failed for ${toolName}, calling the tool:`, error);
+      return null;
+    }
+  }
+
+  async set<T>(userId: string, serverName: string, toolName: string, args: any, result: T, ttlMs: number): Promise<void> {
+    const table = getToolTable(args);
+    // A read that names no table could have read any of them, so any write on the server clears it
+    const tags = [`server:${serverName}`, table ? `table:${serverName}:${table}` : `untabled:${serverName}`];
+
+    try {
+      const entry: CachedToolResult<T> = { result, cachedAt: new Date().toISOString() };
+      await this.backend.set(buildCacheKey(userId, serverName, toolName, args), JSON.stringify(entry), ttlMs, tags);
+    } catch (error) {
+      logger.warn(`[TOOL-CACHE] Could not store result of ${toolName}:`, error);
+    }
+  }
+
+  /**
+   * Drop cached reads a write may have made stale, for every user since they
+   * all see the same instance. A write to a table clears reads of that table
+   * and reads that named no table; writes that don't name a table (most
+   * command-style tools) clear everything cached for the server.
+   */
+  async invalidateForWrite(serverName: string, toolName: string, args: any): Promise<void> {
+    const table = getToolTable(args);
+    const tags = table ? [`table:${serverName}:${table}`, `untabled:${serverName}`] : [`server:${serverName}`];
+
+    for (const tag of tags) {
+      try {
+        const removed = await this.backend.invalidateTag(tag);
+        this.stats.invalidations += removed;
+        if (removed > 0) {
+          logger.info(`[TOOL-CACHE] ${toolName} invalidated ${removed} cached results (${tag})`);
+        }
+      } catch (error) {
+        logger.warn(`[TOOL-CACHE] Could not invalidate ${tag} after ${toolName}:`, error);
+      }
+    }
+  }
+
+  getStats(): ToolResultCacheStats {
+    return { enabled: this.enabled, backend: this.backendName, ...this.stats };
+  }
+
+  async close(): Promise<void> {
+    await this.backend.close();
+  }
+}
+
+function buildCacheKey(userId: string, serverName: string, toolName: string, args: any): string {
+  const argsHash = createHash('sha256').update(stableStringify(args ?? {})).digest('hex');
+  return `${KEY_PREFIX}:${userId}:${serverName}:${stripServerPrefix(toolName)}:${argsHash}`;
+}
+
+// Same arguments in a different key order must hit the same entry
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function getToolTable(args: any): string | null {
+  const table = args?.table ?? args?.table_name;
+  return typeof table === 'string' && table.trim() ? table.trim().toLowerCase() : null;
+}
+
+function parseToolTtls(value?: string): Record<string, number> {
+  if (!value) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, ttl]) => typeof ttl === 'number' && ttl >= 0)
+    ) as Record<string, number>;
+  } catch (error) {
+    logger.error('MCP_CACHE_TOOL_TTLS is not valid JSON, using the default TTL for every tool:', error);
+    return {};
+  }
+}
+
+export const toolResultCache = new ToolResultCache();
@@ -0,0 +1,49 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../utils/logger';
+import { matchesToolPattern } from '../utils/tool-pattern';
+import { OperationCancelledError, ToolTimeoutError } from '../utils/error-handler';
+
+const logger = createLogger();
+
+const defaultTimeoutMs = parseInt(process.env.MCP_TOOL_TIMEOUT_MS || '60000');
+const toolTimeouts = parseToolTimeouts(process.env.MCP_TOOL_TIMEOUTS);
+
+/**
+ * How long a tool call may run before it is cancelled on the server. The
+ * first MCP_TOOL_TIMEOUTS pattern matching the tool name wins. Calls that
+ * report progress restart the clock with every notification.
+ */
+export function getToolTimeoutMs(toolName: string): number {
+  const pattern = Object.keys(toolTimeouts).find(candidate => matchesToolPattern(candidate, toolName));
+  return pattern !== undefined ? toolTimeouts[pattern] : defaultTimeoutMs;
+}
+
+/**
+ * The SDK rejects with the abort reason or a RequestTimeout McpError after it
+ * has sent notifications/cancelled; turn those into errors the chat handlers
+ * can tell apart from real failures.
+ */
+export function toToolCallError(error: unknown, toolName: string, timeoutMs: number, signal?: AbortSignal): unknown {
+  if (signal?.aborted) {
+    return new OperationCancelledError(`tool ${toolName}`);
+  }
+  if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+    return new ToolTimeoutError(toolName, timeoutMs);
+  }
+  return error;
+}
+
+function parseToolTimeouts(value?: string): Record<string, number> {
+  if (!value) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, timeout]) => typeof timeout === 'number' && timeout > 0)
+    ) as Record<string, number>;
+  } catch (error) {
+    logger.error('MCP_TOOL_TIMEOUTS is not valid JSON, using MCP_TOOL_TIMEOUT_MS for every tool:', error);
+    return {};
+  }
+}
@@ -8,6 +8,7 @@ export interface AuthenticatedSocket extends Socket {
   user?: {
     userId: string;
     email: string;
+    role?: string;
   };
 }
 
@@ -22,7 +23,8 @@ export const authenticateSocket = (socket: AuthenticatedSocket, next: (err?: Err
     const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as any;
     socket.user = {
       userId: decoded.userId,
-      email: decoded.email
+      email: decoded.email,
+      role: decoded.role
     };
 
     logger.info(`Socket authenticated for user: ${socket.user.email} (${socket.user.userId})`);
@@ -0,0 +1,116 @@
+import { MockRecord } from './mock-tables';
+
+interface Condition {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+interface OrderBy {
+  field: string;
+  descending: boolean;
+}
+
+export interface EncodedQuery {
+  // Every clause has to match; a clause matches when any of its conditions does
+  clauses: Condition[][];
+  orderBy: OrderBy[];
+}
+
+// Longest operators first so "!=" isn't read as "=" and "NOT LIKE" as "LIKE"
+const OPERATORS = ['ISNOTEMPTY', 'ISEMPTY', 'NOT LIKE', 'NOT IN', 'STARTSWITH', 'ENDSWITH', 'LIKE', 'IN', '!=', '>=', '<=', '=', '>', '<'];
+const CONDITION_PATTERN = new RegExp(`^([A-Za-z0-9_.]+?)(${OPERATORS.join('|')})(.*)$`);
+
+/**
+ * Parses the subset of sysparm_query the mock needs: ^ and ^OR joins,
+ * ORDERBY/ORDERBYDESC and the common operators. Throws on anything else so a
+ * bad query fails loudly, as it would against a real instance's validation.
+ */
+export function parseEncodedQuery(query: string = ''): EncodedQuery {
+  const parsed: EncodedQuery = { clauses: [], orderBy: [] };
+
+  for (const rawToken of query.split('^')) {
+    const token = rawToken.trim();
+    if (!token) continue;
+
+    if (token.startsWith('ORDERBYDESC')) {
+      parsed.orderBy.push({ field: token.substring('ORDERBYDESC'.length), descending: true });
+      continue;
+    }
+    if (token.startsWith('ORDERBY')) {
+      parsed.orderBy.push({ field: token.substring('ORDERBY'.length), descending: false });
+      continue;
+    }
+
+    const isOr = token.startsWith('OR') && parsed.clauses.length > 0;
+    const condition = parseCondition(isOr ? token.substring(2) : token);
+    if (isOr) {
+      parsed.clauses[parsed.clauses.length - 1].push(condition);
+    } else {
+      parsed.clauses.push([condition]);
+    }
+  }
+
+  return parsed;
+}
+
+export function applyEncodedQuery(records: MockRecord[], query: EncodedQuery): MockRecord[] {
+  const matching = records.filter(record =>
+    query.clauses.every(clause => clause.some(condition => matchesCondition(record, condition)))
+  );
+
+  if (query.orderBy.length === 0) {
+    return matching;
+  }
+  return [...matching].sort((a, b) => {
+    for (const { field, descending } of query.orderBy) {
+      const order = compareValues(a[field] ?? '', b[field] ?? '');
+      if (order !== 0) {
+        return descending ? -order : order;
+      }
+    }
+    return 0;
+  });
+}
+
+function parseCondition(token: string): Condition {
+  const match = token.match(CONDITION_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid query condition: ${token}`);
+  }
+  return { field: match[1], operator: match[2], value: match[3] };
+}
+
+function matchesCondition(record: MockRecord, { field, operator, value }: Condition): boolean {
+  const actual = record[field] ?? '';
+  const lowerActual = actual.toLowerCase();
+  const lowerValue = value.toLowerCase();
+
+  switch (operator) {
+    case '=': return actual === value;
+    case '!=': return actual !== value;
+    case 'LIKE': return lowerActual.includes(lowerValue);
+    case 'NOT LIKE': return !lowerActual.includes(lowerValue);
+    case 'STARTSWITH': return lowerActual.startsWith(lowerValue);
+    case 'ENDSWITH': return lowerActual.endsWith(lowerValue);
+    case 'IN': return value.split(',').includes(actual);
+    case 'NOT IN': return !value.split(',').includes(actual);
+    case 'ISEMPTY': return actual === '';
+    case 'ISNOTEMPTY': return actual !== '';
+    case '>': return compareValues(actual, value) > 0;
+    case '>=': return compareValues(actual, value) >= 0;
+    case '<': return compareValues(actual, value) < 0;
+    case '<=': return compareValues(actual, value) <= 0;
+    default: return false;
+  }
+}
+
+// Numbers compare numerically, everything else (including glide date times) as text
+function compareValues(a: string, b: string): number {
+  const numberA = Number(a);
+  const numberB = Number(b);
+  if (a !== '' && b !== '' && !isNaN(numberA) && !isNaN(numberB)) {
+    return numberA - numberB;
+  }
+  return a.localeCompare(b);
+}
@@ -0,0 +1,205 @@
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+
+export type MockRecord = Record<string, string>;
+
+interface TableDefinition {
+  // Tables with a prefix number their records the way the instance does, e.g. INC0010001
+  numberPrefix?: string;
+  seed: Array<Record<string, string>>;
+}
+
+const TABLES: Record<string, TableDefinition> = {
+  sys_user: {
+    seed: [
+      { user_name: 'admin', first_name: 'System', last_name: 'Administrator', email: 'admin@example.com' },
+      { user_name: 'abel.tuter', first_name: 'Abel', last_name: 'Tuter', email: 'abel.tuter@example.com' },
+      { user_name: 'beth.anglin', first_name: 'Beth', last_name: 'Anglin', email: 'beth.anglin@example.com' }
+    ]
+  },
+  sys_user_group: {
+    seed: [
+      { name: 'Service Desk', description: 'First line support' },
+      { name: 'Hardware', description: 'Hardware support and provisioning' }
+    ]
+  },
+  sc_catalog: {
+    seed: [{ title: 'Service Catalog', active: 'true' }]
+  },
+  sc_category: {
+    seed: [
+      { title: 'General', active: 'true' },
+      { title: 'Hardware', active: 'true' },
+      { title: 'Software', active: 'true' },
+      { title: 'IT', active: 'true' }
+    ]
+  },
+  sc_cat_item: {
+    seed: [
+      { name: 'Standard Laptop', short_description: 'Lenovo ThinkPad for general use', category: 'Hardware', active: 'true', price: '1100' },
+      { name: 'Password Reset', short_description: 'Reset your network password', category: 'IT', active: 'true', price: '0' }
+    ]
+  },
+  item_option_new: { seed: [] },
+  question_choice: { seed: [] },
+  incident: {
+    numberPrefix: 'INC',
+    seed: [
+      { short_description: 'Email server is down', priority: '1', state: '2', category: 'network', caller_id: 'abel.tuter' },
+      { short_description: 'Unable to connect to VPN', priority: '2', state: '1', category: 'network', caller_id: 'beth.anglin' },
+      { short_description: 'Printer out of toner on floor 3', priority: '4', state: '1', category: 'hardware', caller_id: 'abel.tuter' }
+    ]
+  },
+  problem: {
+    numberPrefix: 'PRB',
+    seed: [{ short_description: 'Recurring email outages', priority: '2', state: '101' }]
+  },
+  change_request: {
+    numberPrefix: 'CHG',
+    seed: [{ short_description: 'Upgrade email server', priority: '3', state: '-5', type: 'normal' }]
+  },
+  sc_request: { numberPrefix: 'REQ', seed: [] },
+  sc_req_item: { numberPrefix: 'RITM', seed: [] },
+  task: { numberPrefix: 'TASK', seed: [] }
+};
+
+interface StoreState {
+  tables: Record<string, MockRecord[]>;
+  counters: Record<string, number>;
+}
+
+export function generateSysId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+// The format the Table API returns, in UTC
+function glideDateTime(date: Date = new Date()): string {
+  return date.toISOString().replace('T', ' ').substring(0, 19);
+}
+
+/**
+ * In-memory stand-in for the instance's tables. Each pooled connection runs
+ * its own server process, so `stateFile` lets them share one set of tables;
+ * it is small enough to simply re-read on every call.
+ */
+export class MockTableStore {
+  private state: StoreState;
+
+  constructor(private stateFile?: string) {
+    this.state = this.seed();
+    if (stateFile) {
+      if (fs.existsSync(stateFile)) {
+        this.sync();
+      } else {
+        this.persist();
+      }
+    }
+  }
+
+  hasTable(table: string): boolean {
+    return table in TABLES;
+  }
+
+  getTableNames(): string[] {
+    return Object.keys(TABLES);
+  }
+
+  list(table: string): MockRecord[] {
+    this.sync();
+    return this.state.tables[table] || [];
+  }
+
+  get(table: string, sysId: string): MockRecord | undefined {
+    return this.list(table).find(record => record.sys_id === sysId);
+  }
+
+  insert(table: string, fields: Record<string, unknown>): MockRecord {
+    this.sync();
+    const record = this.buildRecord(table, fields);
+    this.state.tables[table].push(record);
+    this.persist();
+    return record;
+  }
+
+  update(table: string, sysId: string, fields: Record<string, unknown>): MockRecord | undefined {
+    this.sync();
+    const record = this.state.tables[table]?.find(candidate => candidate.sys_id === sysId);
+    if (!record) {
+      return undefined;
+    }
+
+    for (const [field, value] of Object.entries(fields)) {
+      // System fields are owned by the instance
+      if (!field.startsWith('sys_')) {
+        record[field] = toFieldValue(value);
+      }
+    }
+    record.sys_updated_on = glideDateTime();
+    record.sys_updated_by = 'admin';
+    record.sys_mod_count = String(parseInt(record.sys_mod_count || '0') + 1);
+    this.persist();
+    return record;
+  }
+
+  private buildRecord(table: string, fields: Record<string, unknown>): MockRecord {
+    const now = glideDateTime();
+    const record: MockRecord = {};
+    for (const [field, value] of Object.entries(fields)) {
+      record[field] = toFieldValue(value);
+    }
+
+    const prefix = TABLES[table].numberPrefix;
+    if (prefix && !record.number) {
+      const next = (this.state.counters[table] || 10000) + 1;
+      this.state.counters[table] = next;
+      record.number = `${prefix}${String(next).padStart(7, '0')}`;
+    }
+
+    return {
+      ...record,
+      sys_id: generateSysId(),
+      sys_created_on: now,
+      sys_created_by: 'admin',
+      sys_updated_on: now,
+      sys_updated_by: 'admin',
+      sys_mod_count: '0'
+    };
+  }
+
+  private seed(): StoreState {
+    this.state = { tables: {}, counters: {} };
+    for (const [table, definition] of Object.entries(TABLES)) {
+      this.state.tables[table] = definition.seed.map(fields => this.buildRecord(table, fields));
+    }
+    return this.state;
+  }
+
+  private sync(): void {
+    if (!this.stateFile || !fs.existsSync(this.stateFile)) {
+      return;
+    }
+    try {
+      this.state = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8'));
+    } catch (error) {
+      console.error(`[MOCK-SERVICENOW] Could not read ${this.stateFile}:`, error);
+    }
+  }
+
+  private persist(): void {
+    if (!this.stateFile) {
+      return;
+    }
+    // Rename so readers never see a half-written file
+    const tempFile = `${this.stateFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(this.state));
+    fs.renameSync(tempFile, this.stateFile);
+  }
+}
+
+// The Table API hands every field back as a string
+function toFieldValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
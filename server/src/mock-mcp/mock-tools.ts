@@ -0,0 +1,306 @@
+import { MockRecord, MockTableStore } from './mock-tables';
+import { applyEncodedQuery, parseEncodedQuery } from './encoded-query';
+
+// A type rather than an interface so it satisfies the SDK's open-ended result type
+export type MockToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+};
+
+export interface MockTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  annotations?: { readOnlyHint?: boolean; destructiveHint?: boolean };
+  handler: (args: Record<string, any>, store: MockTableStore) => MockToolResult;
+}
+
+// Friendly names the LLM is told to use, mapped to item_option_new type codes
+const VARIABLE_TYPES: Record<string, string> = {
+  boolean: '1',
+  multi_line_text: '2',
+  multiple_choice: '3',
+  numeric_scale: '4',
+  choice: '5',
+  select_box: '5',
+  string: '6',
+  single_line_text: '6',
+  checkbox: '7',
+  reference: '8',
+  date: '9',
+  date_time: '10',
+  integer: '6',
+  email: '26'
+};
+
+const DEFAULT_QUERY_LIMIT = 10;
+
+function text(message: string): MockToolResult {
+  return { content: [{ type: 'text', text: message }] };
+}
+
+function error(message: string): MockToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+function pickFields(record: MockRecord, fields?: string): MockRecord {
+  if (!fields) {
+    return record;
+  }
+  return Object.fromEntries(
+    fields.split(',').map(field => field.trim()).filter(Boolean).map(field => [field, record[field] ?? ''])
+  );
+}
+
+function requireTable(table: unknown, store: MockTableStore): string | MockToolResult {
+  if (typeof table !== 'string' || !table.trim()) {
+    return error('Required parameter "table" is missing');
+  }
+  if (!store.hasTable(table)) {
+    return error(`Invalid table ${table}. Available tables: ${store.getTableNames().join(', ')}`);
+  }
+  return table;
+}
+
+// Catalog items are referenced by sys_id, but the LLM often only knows the name
+function findCatalogItem(reference: string, store: MockTableStore): MockRecord | undefined {
+  return store.get('sc_cat_item', reference)
+    || store.list('sc_cat_item').find(item => item.name.toLowerCase() === reference.toLowerCase());
+}
+
+function createCatalogItem(args: Record<string, any>, store: MockTableStore): MockToolResult {
+  const command = typeof args.command === 'string' ? args.command : '';
+  const match = command.match(/called\s+['"]?(.+?)['"]?(?:\s+in\s+(?:the\s+)?['"]?(.+?)['"]?(?:\s+category)?)?\s*$/i);
+  if (!match) {
+    return error(`Could not extract catalog item name from command: "${command}". Use: Create a catalog item called 'Name' in Category`);
+  }
+
+  const name = match[1].trim();
+  const categoryName = (match[2] || 'General').trim();
+  const category = store.list('sc_category').find(candidate => candidate.title.toLowerCase() === categoryName.toLowerCase())
+    || store.insert('sc_category', { title: categoryName, active: 'true' });
+
+  const item = store.insert('sc_cat_item', {
+    name,
+    short_description: name,
+    category: category.title,
+    active: 'true',
+    price: '0'
+  });
+
+  return text([
+    `✅ Catalog item '${item.name}' created successfully`,
+    '',
+    `Item ID: ${item.sys_id}`,
+    `Name: ${item.name}`,
+    `Category: ${category.title}`,
+    `Catalog: Service Catalog`
+  ].join('\n'));
+}
+
+function createVariable(args: Record<string, any>, store: MockTableStore): MockToolResult {
+  for (const field of ['name', 'question_text', 'catalog_item']) {
+    if (!args[field]) {
+      return error(`Required parameter "${field}" is missing`);
+    }
+  }
+
+  const item = findCatalogItem(String(args.catalog_item), store);
+  if (!item) {
+    return error(`Catalog item ${args.catalog_item} not found. Pass the sys_id returned when the catalog item was created.`);
+  }
+
+  const type = String(args.type || 'string').toLowerCase();
+  const typeCode = VARIABLE_TYPES[type];
+  if (!typeCode) {
+    return error(`Unsupported variable type "${type}". Supported types: ${Object.keys(VARIABLE_TYPES).join(', ')}`);
+  }
+  if (typeCode === '8' && !args.reference_table) {
+    return error('Reference variables need a "reference_table"');
+  }
+
+  const existingOrder = store.list('item_option_new').filter(variable => variable.cat_item === item.sys_id).length;
+  const variable = store.insert('item_option_new', {
+    name: args.name,
+    question_text: args.question_text,
+    type: typeCode,
+    cat_item: item.sys_id,
+    mandatory: args.mandatory ? 'true' : 'false',
+    reference: args.reference_table || '',
+    default_value: args.default_value || '',
+    order: String((existingOrder + 1) * 100)
+  });
+
+  const choices = typeof args.choices === 'string'
+    ? args.choices.split(',').map((choice: string) => choice.trim()).filter(Boolean)
+    : Array.isArray(args.choices) ? args.choices.map(String) : [];
+  choices.forEach((choice: string, index: number) => {
+    store.insert('question_choice', {
+      question: variable.sys_id,
+      text: choice,
+      value: choice.toLowerCase().replace(/\s+/g, '_'),
+      order: String((index + 1) * 100)
+    });
+  });
+
+  return text([
+    `✅ Variable '${variable.name}' added to catalog item '${item.name}'`,
+    '',
+    `sys_id: ${variable.sys_id}`,
+    `Question: ${variable.question_text}`,
+    `Type: ${type}`,
+    ...(choices.length > 0 ? [`Choices: ${choices.join(', ')}`] : [])
+  ].join('\n'));
+}
+
+function queryRecords(args: Record<string, any>, store: MockTableStore): MockToolResult {
+  const table = requireTable(args.table, store);
+  if (typeof table !== 'string') {
+    return table;
+  }
+
+  let query;
+  try {
+    query = parseEncodedQuery(args.sysparm_query);
+  } catch (queryError) {
+    return error(String(queryError instanceof Error ? queryError.message : queryError));
+  }
+
+  const limit = parseInt(args.sysparm_limit) || DEFAULT_QUERY_LIMIT;
+  const records = applyEncodedQuery(store.list(table), query);
+  const result = records.slice(0, limit).map(record => pickFields(record, args.sysparm_fields));
+
+  return text(JSON.stringify({ table, count: records.length, result }, null, 2));
+}
+
+function createRecord(args: Record<string, any>, store: MockTableStore): MockToolResult {
+  const table = requireTable(args.table, store);
+  if (typeof table !== 'string') {
+    return table;
+  }
+
+  // The LLM sometimes flattens the fields onto the arguments
+  const { table: _table, fields, ...rest } = args;
+  const values = fields && typeof fields === 'object' ? fields : rest;
+  if (Object.keys(values).length === 0) {
+    return error('Required parameter "fields" is missing');
+  }
+
+  const record = store.insert(table, values);
+  return text(JSON.stringify(record, null, 2));
+}
+
+function updateRecord(args: Record<string, any>, store: MockTableStore): MockToolResult {
+  const table = requireTable(args.table, store);
+  if (typeof table !== 'string') {
+    return table;
+  }
+  if (!args.sys_id) {
+    return error('Required parameter "sys_id" is missing');
+  }
+  if (!args.fields || typeof args.fields !== 'object' || Object.keys(args.fields).length === 0) {
+    return error('Required parameter "fields" is missing');
+  }
+
+  const record = store.update(table, String(args.sys_id), args.fields);
+  if (!record) {
+    return error(`No ${table} record found with sys_id ${args.sys_id}`);
+  }
+  return text(JSON.stringify(record, null, 2));
+}
+
+function testConnection(_args: Record<string, any>, store: MockTableStore): MockToolResult {
+  return text([
+    '✅ Connected to ServiceNow instance',
+    '',
+    'Instance: mock (offline, in-memory tables)',
+    'User: admin',
+    `Tables: ${store.getTableNames().join(', ')}`
+  ].join('\n'));
+}
+
+export const MOCK_TOOLS: MockTool[] = [
+  {
+    name: 'create-catalog-item',
+    description: 'Create a service catalog item from a natural language command, e.g. "Create a catalog item called \'Laptop Request\' in Hardware"',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'Natural language command naming the item and optionally its category' }
+      },
+      required: ['command']
+    },
+    handler: createCatalogItem
+  },
+  {
+    name: 'create-variable',
+    description: 'Add a variable (form field) to a catalog item',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Variable name in snake_case' },
+        question_text: { type: 'string', description: 'Label shown on the form' },
+        type: { type: 'string', description: `Variable type: ${Object.keys(VARIABLE_TYPES).join(', ')}` },
+        catalog_item: { type: 'string', description: 'sys_id of the catalog item' },
+        choices: { type: 'string', description: 'Comma-separated choices for choice variables' },
+        mandatory: { type: 'boolean' },
+        reference_table: { type: 'string', description: 'Table referenced by reference variables' },
+        default_value: { type: 'string' }
+      },
+      required: ['name', 'question_text', 'catalog_item']
+    },
+    handler: createVariable
+  },
+  {
+    name: 'query-records',
+    description: 'Query records from a table with an encoded query',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        table: { type: 'string', description: 'Table name, e.g. incident' },
+        sysparm_query: { type: 'string', description: 'Encoded query, e.g. active=true^priority=1^ORDERBYDESCsys_created_on' },
+        sysparm_limit: { type: 'string', description: `Maximum records to return (default ${DEFAULT_QUERY_LIMIT})` },
+        sysparm_fields: { type: 'string', description: 'Comma-separated fields to return' }
+      },
+      required: ['table']
+    },
+    annotations: { readOnlyHint: true },
+    handler: queryRecords
+  },
+  {
+    name: 'create-record',
+    description: 'Create a record in a table',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        table: { type: 'string', description: 'Table name, e.g. incident' },
+        fields: { type: 'object', description: 'Field values for the new record' }
+      },
+      required: ['table']
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    handler: createRecord
+  },
+  {
+    name: 'update-record',
+    description: 'Update fields on an existing record',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        table: { type: 'string', description: 'Table name' },
+        sys_id: { type: 'string', description: 'sys_id of the record to update' },
+        fields: { type: 'object', description: 'Field values to change' }
+      },
+      required: ['table', 'sys_id', 'fields']
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false },
+    handler: updateRecord
+  },
+  {
+    name: 'test-connection',
+    description: 'Check the connection to the ServiceNow instance',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true },
+    handler: testConnection
+  }
+];
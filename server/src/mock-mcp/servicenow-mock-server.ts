@@ -0,0 +1,74 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema, LoggingLevel, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MockTableStore } from './mock-tables';
+import { MOCK_TOOLS, MockToolResult } from './mock-tools';
+
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+/**
+ * Stdio MCP server that answers the core ServiceNow tools from in-memory
+ * tables, for developing and testing without an instance or network. Start
+ * it through bin/servicenow-mock-mcp by pointing SERVICENOW_MCP_PATH there.
+ *
+ * stdout carries the protocol, so everything else goes to stderr.
+ */
+async function main(): Promise<void> {
+  const store = new MockTableStore(process.env.MOCK_SERVICENOW_STATE_FILE || undefined);
+
+  const server = new Server(
+    { name: 'servicenow-mock', version: '1.0.0' },
+    { capabilities: { tools: {}, logging: {} } }
+  );
+
+  // Clients lower this to see the per-call debug messages
+  let logLevel: LoggingLevel = 'info';
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    logLevel = request.params.level;
+    return {};
+  });
+
+  const log = async (level: LoggingLevel, logger: string, data: unknown): Promise<void> => {
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(logLevel)) {
+      await server.sendLoggingMessage({ level, logger, data });
+    }
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: MOCK_TOOLS.map(({ handler, ...tool }) => tool)
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request): Promise<MockToolResult> => {
+    const tool = MOCK_TOOLS.find(candidate => candidate.name === request.params.name);
+    if (!tool) {
+      return {
+        content: [{ type: 'text', text: `Unknown tool: ${request.params.name}` }],
+        isError: true
+      };
+    }
+
+    try {
+      const result = tool.handler(request.params.arguments || {}, store);
+      await log(result.isError ? 'warning' : 'debug', tool.name, {
+        arguments: request.params.arguments || {},
+        isError: !!result.isError
+      });
+      return result;
+    } catch (error) {
+      console.error(`[MOCK-SERVICENOW] ${tool.name} failed:`, error);
+      await log('error', tool.name, String(error));
+      return {
+        content: [{ type: 'text', text: `${tool.name} failed: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true
+      };
+    }
+  });
+
+  await server.connect(new StdioServerTransport());
+  console.error(`[MOCK-SERVICENOW] Ready with ${MOCK_TOOLS.length} tools${process.env.MOCK_SERVICENOW_STATE_FILE ? `, state in ${process.env.MOCK_SERVICENOW_STATE_FILE}` : ''}`);
+}
+
+main().catch(error => {
+  console.error('[MOCK-SERVICENOW] Failed to start:', error);
+  process.exit(1);
+});
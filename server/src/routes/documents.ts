@@ -1,7 +1,9 @@
 import express from 'express';
 import multer from 'multer';
 import { authenticateToken } from '../middleware/auth';
+import * as path from 'path';
 import { documentService } from '../services/document';
+import { SUPPORTED_EXTENSIONS } from '../services/document-extractors';
 import { createLogger } from '../utils/logger';
 
 const router = express.Router();
@@ -18,13 +20,21 @@ const upload = multer({
       'text/plain',
       'text/markdown',
       'application/json',
-      // Future: 'application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      'application/pdf',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/csv',
+      'application/csv',
+      'application/vnd.ms-excel', // Windows browsers report .csv files with this type
+      'text/html',
     ];
 
-    if (allowedTypes.includes(file.mimetype)) {
+    // Extraction is driven by the extension, so it must be one we can read
+    const extension = path.extname(file.originalname).toLowerCase();
+
+    if (allowedTypes.includes(file.mimetype) && SUPPORTED_EXTENSIONS.includes(extension)) {
       cb(null, true);
     } else {
-      cb(new Error('Unsupported file type. Supported types: .txt, .md, .json'));
+      cb(new Error(`Unsupported file type. Supported types: ${SUPPORTED_EXTENSIONS.join(', ')}`));
     }
   },
 });
@@ -118,6 +128,20 @@ router.post('/:projectId/search', authenticateToken, async (req, res) => {
   }
 });
 
+// Compute embeddings for chunks that don't have one yet (e.g. documents uploaded before semantic search)
+router.post('/:projectId/embeddings/backfill', authenticateToken, async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user!.userId;
+
+    const updated = await documentService.backfillEmbeddings(projectId, userId);
+    res.json({ updated });
+  } catch (error) {
+    logger.error('Error backfilling embeddings:', error);
+    res.status(500).json({ error: 'Failed to backfill embeddings' });
+  }
+});
+
 // Handle multer errors
 router.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
   if (error instanceof multer.MulterError) {
@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client';
 import Redis from 'ioredis';
 import { getEnhancedMCPClient } from '../mcp/enhanced-mcp-client';
 import { MCPClientManager } from '../mcp/mcp-client';
+import { getTransportConfigFromEnv } from '../mcp/mcp-transport';
 import { createLogger } from '../utils/logger';
 
 const router = express.Router();
@@ -351,9 +352,11 @@ async function getPerformanceMetrics() {
 }
 
 async function checkConfiguration(): Promise<EnvironmentStatus & { requiredServices: RequiredServiceStatus }> {
+  // Remote MCP servers hold the ServiceNow connection themselves, only stdio needs a local install
+  const mcpTransport = getTransportConfigFromEnv().type;
   const requiredEnvVars = [
     'ANTHROPIC_API_KEY',
-    'SERVICENOW_MCP_PATH',
+    mcpTransport === 'stdio' ? 'SERVICENOW_MCP_PATH' : 'MCP_SERVER_URL',
     'SERVICENOW_INSTANCE_URL',
     'SERVICENOW_USERNAME',
     'SERVICENOW_PASSWORD',
@@ -372,12 +375,14 @@ async function checkConfiguration(): Promise<EnvironmentStatus & { requiredServi
   const configured = allEnvVars.filter(envVar => process.env[envVar]).length;
 
   // Check ServiceNow configuration
-  const servicenowConfigured = !!(
-    process.env.SERVICENOW_MCP_PATH &&
-    process.env.SERVICENOW_INSTANCE_URL &&
-    process.env.SERVICENOW_USERNAME &&
-    process.env.SERVICENOW_PASSWORD
-  );
+  const servicenowConfigured = mcpTransport === 'stdio'
+    ? !!(
+      process.env.SERVICENOW_MCP_PATH &&
+      process.env.SERVICENOW_INSTANCE_URL &&
+      process.env.SERVICENOW_USERNAME &&
+      process.env.SERVICENOW_PASSWORD
+    )
+    : !!process.env.MCP_SERVER_URL;
 
   return {
     required: requiredEnvVars,
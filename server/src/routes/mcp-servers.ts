@@ -0,0 +1,111 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { mcpServerRegistry, ProjectMCPSettings } from '../mcp/mcp-server-registry';
+import { MCPContentSource } from '../mcp/mcp-content';
+import { DEFAULT_MCP_SERVER, parseToolName } from '../mcp/tool-namespace';
+import { projectService } from '../services/project';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+
+// Each app runs its own MCP client, so it hands it in when mounting these routes
+export function createMcpServerRoutes(mcpClient: MCPContentSource): express.Router {
+  const router = express.Router();
+
+  // With a projectId, only servers that project has enabled are included
+  const loadProjectSettings = async (req: express.Request, projectId?: string): Promise<ProjectMCPSettings | undefined> => {
+    if (!projectId) {
+      return undefined;
+    }
+    const project = await projectService.getProject(projectId, req.user!.userId);
+    return (project?.settings as ProjectMCPSettings) || undefined;
+  };
+
+  // Registered MCP servers, so projects can choose which ones their chats may use
+  router.get('/', authenticateToken, async (req, res) => {
+    try {
+      const servers = mcpServerRegistry.getServers().map(server => ({
+        name: server.name,
+        description: server.description,
+        transport: server.transport.type,
+        enabled: server.enabled
+      }));
+      res.json(servers);
+    } catch (error) {
+      logger.error('Error listing MCP servers:', error);
+      res.status(500).json({ error: 'Failed to list MCP servers' });
+    }
+  });
+
+  router.get('/resources', authenticateToken, async (req, res) => {
+    try {
+      const settings = await loadProjectSettings(req, req.query.projectId as string | undefined);
+      const resources = await mcpClient.listResources();
+      res.json(resources.filter(resource => mcpServerRegistry.isServerEnabledForProject(resource.server, settings)));
+    } catch (error) {
+      logger.error('Error listing MCP resources:', error);
+      res.status(500).json({ error: 'Failed to list MCP resources' });
+    }
+  });
+
+  router.get('/resources/read', authenticateToken, async (req, res) => {
+    try {
+      const { server, uri, projectId } = req.query as { server?: string; uri?: string; projectId?: string };
+      if (!server || !uri) {
+        return res.status(400).json({ error: 'server and uri are required' });
+      }
+      if (!mcpServerRegistry.hasServer(server)) {
+        return res.status(404).json({ error: `Unknown MCP server: ${server}` });
+      }
+      if (!mcpServerRegistry.isServerEnabledForProject(server, await loadProjectSettings(req, projectId))) {
+        return res.status(403).json({ error: `MCP server ${server} is disabled` });
+      }
+
+      const contents = await mcpClient.readResource(server, uri);
+      res.json({ server, uri, contents });
+    } catch (error) {
+      logger.error('Error reading MCP resource:', error);
+      res.status(500).json({ error: 'Failed to read MCP resource' });
+    }
+  });
+
+  router.get('/prompts', authenticateToken, async (req, res) => {
+    try {
+      const settings = await loadProjectSettings(req, req.query.projectId as string | undefined);
+      const prompts = await mcpClient.listPrompts();
+      res.json(prompts.filter(prompt => mcpServerRegistry.isServerEnabledForProject(prompt.server, settings)));
+    } catch (error) {
+      logger.error('Error listing MCP prompts:', error);
+      res.status(500).json({ error: 'Failed to list MCP prompts' });
+    }
+  });
+
+  // Prompt names are namespaced ("servicenow-mcp:triage"), so they travel in the body
+  router.post('/prompts/get', authenticateToken, async (req, res) => {
+    try {
+      const { name, arguments: args, projectId } = req.body;
+      if (!name || typeof name !== 'string') {
+        return res.status(400).json({ error: 'name is required' });
+      }
+      if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+        return res.status(400).json({ error: 'arguments must be an object' });
+      }
+      const server = parseToolName(name).server || DEFAULT_MCP_SERVER;
+      if (!mcpServerRegistry.isServerEnabledForProject(server, await loadProjectSettings(req, projectId))) {
+        return res.status(403).json({ error: `MCP server ${server} is disabled` });
+      }
+
+      // MCP prompt arguments are always strings
+      const stringArgs = Object.fromEntries(
+        Object.entries(args || {}).map(([key, value]) => [key, String(value)])
+      );
+      const result = await mcpClient.getPrompt(name, stringArgs);
+      res.json(result);
+    } catch (error) {
+      logger.error('Error getting MCP prompt:', error);
+      res.status(500).json({ error: 'Failed to get MCP prompt' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,25 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { modelDiscoveryService } from '../llm/model-discovery';
+import { modelRegistry } from '../llm/model-registry';
+import { createLogger } from '../utils/logger';
+
+const router = express.Router();
+const logger = createLogger();
+
+// Models the chat can use, with context window, output limit, capabilities and pricing
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    if (req.query.refresh === 'true') {
+      modelDiscoveryService.invalidate();
+    }
+
+    const models = await modelRegistry.listAvailableModels();
+    res.json(models);
+  } catch (error) {
+    logger.error('Error listing models:', error);
+    res.status(500).json({ error: 'Failed to list models' });
+  }
+});
+
+export default router;
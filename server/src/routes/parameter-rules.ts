@@ -0,0 +1,59 @@
+import express from 'express';
+import { parameterRules, applyParameterRule, validateParameterRule } from '../mcp/parameter-rules';
+import { createLogger } from '../utils/logger';
+
+const router = express.Router();
+const logger = createLogger();
+
+// Admin only, each app mounts this behind its own auth and role checks
+
+router.get('/', async (req, res) => {
+  try {
+    res.json({ ...parameterRules.getStatus(), rules: parameterRules.getRules().rules });
+  } catch (error) {
+    logger.error('Error fetching parameter rules:', error);
+    res.status(500).json({ error: 'Failed to fetch parameter rules' });
+  }
+});
+
+// The file is watched anyway, this is for when an admin wants the result now
+router.post('/reload', async (req, res) => {
+  try {
+    const ruleSet = parameterRules.reload();
+    res.json({ ...parameterRules.getStatus(), rules: ruleSet.rules });
+  } catch (error) {
+    logger.error('Error reloading parameter rules:', error);
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to reload parameter rules' });
+  }
+});
+
+// Dry run: what a tool call's arguments become, with the loaded rules or a candidate rule
+router.post('/test', async (req, res) => {
+  try {
+    const { toolName, arguments: args, userMessage, rule } = req.body;
+    if (!toolName || typeof toolName !== 'string') {
+      return res.status(400).json({ error: 'toolName is required' });
+    }
+    if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+      return res.status(400).json({ error: 'arguments must be an object' });
+    }
+    if (userMessage !== undefined && typeof userMessage !== 'string') {
+      return res.status(400).json({ error: 'userMessage must be a string' });
+    }
+
+    if (rule !== undefined) {
+      const validationError = validateParameterRule(rule);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      return res.json(applyParameterRule(rule, toolName, args || {}, userMessage));
+    }
+
+    res.json(parameterRules.apply(toolName, args || {}, userMessage));
+  } catch (error) {
+    logger.error('Error testing parameter rules:', error);
+    res.status(500).json({ error: 'Failed to test parameter rules' });
+  }
+});
+
+export default router;
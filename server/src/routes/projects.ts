@@ -1,6 +1,8 @@
 import express from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { projectService } from '../services/project';
+import { validateChunkingSettings } from '../services/chunkers';
+import { validateMcpServerSettings } from '../mcp/mcp-server-registry';
 import { createLogger } from '../utils/logger';
 
 const router = express.Router();
@@ -59,16 +61,27 @@ router.get('/:id', authenticateToken, async (req, res) => {
 router.put('/:id', authenticateToken, async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, description } = req.body;
+    const { name, description, settings } = req.body;
     const userId = req.user!.userId;
 
     if (name && name.trim().length === 0) {
       return res.status(400).json({ error: 'Project name cannot be empty' });
     }
 
+    if (settings !== undefined && (typeof settings !== 'object' || settings === null || Array.isArray(settings))) {
+      return res.status(400).json({ error: 'Project settings must be an object' });
+    }
+
+    const settingsError = validateChunkingSettings(settings?.chunking)
+      || validateMcpServerSettings(settings?.disabledMcpServers);
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
+
     const project = await projectService.updateProject(id, userId, {
       name: name?.trim(),
       description: description?.trim(),
+      settings,
     });
 
     res.json(project);
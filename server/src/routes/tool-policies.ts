@@ -0,0 +1,131 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { toolApprovalPolicyService, validatePolicyData } from '../services/tool-approval-policy';
+import { createLogger } from '../utils/logger';
+
+const router = express.Router();
+const logger = createLogger();
+
+// List policies, optionally only those for one project
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const projectId = req.query.projectId as string | undefined;
+
+    const policies = await toolApprovalPolicyService.listPolicies(userId, projectId);
+    res.json(policies);
+  } catch (error) {
+    logger.error('Error fetching tool approval policies:', error);
+    res.status(500).json({ error: 'Failed to fetch tool approval policies' });
+  }
+});
+
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+
+    const validationError = validatePolicyData(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { projectId, toolPattern, action, conditions, priority, description, enabled } = req.body;
+    const policy = await toolApprovalPolicyService.createPolicy(userId, {
+      projectId,
+      toolPattern: toolPattern.trim(),
+      action,
+      conditions,
+      priority,
+      description,
+      enabled,
+    });
+
+    res.status(201).json(policy);
+  } catch (error) {
+    logger.error('Error creating tool approval policy:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to create tool approval policy' });
+  }
+});
+
+// Dry-run the rules against a tool call without executing anything
+router.post('/evaluate', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const { toolName, arguments: args, projectId } = req.body;
+
+    if (!toolName) {
+      return res.status(400).json({ error: 'toolName is required' });
+    }
+
+    const decision = await toolApprovalPolicyService.evaluate(userId, toolName, args || {}, projectId);
+    res.json({
+      action: decision.action,
+      reason: decision.reason,
+      policyId: decision.policy?.id,
+    });
+  } catch (error) {
+    logger.error('Error evaluating tool approval policies:', error);
+    res.status(500).json({ error: 'Failed to evaluate tool approval policies' });
+  }
+});
+
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const validationError = validatePolicyData(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { projectId, toolPattern, action, conditions, priority, description, enabled } = req.body;
+    const policy = await toolApprovalPolicyService.updatePolicy(id, userId, {
+      projectId,
+      toolPattern: toolPattern?.trim(),
+      action,
+      conditions,
+      priority,
+      description,
+      enabled,
+    });
+
+    if (!policy) {
+      return res.status(404).json({ error: 'Tool approval policy not found' });
+    }
+
+    res.json(policy);
+  } catch (error) {
+    logger.error('Error updating tool approval policy:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to update tool approval policy' });
+  }
+});
+
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const deleted = await toolApprovalPolicyService.deletePolicy(id, userId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Tool approval policy not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting tool approval policy:', error);
+    res.status(500).json({ error: 'Failed to delete tool approval policy' });
+  }
+});
+
+export default router;
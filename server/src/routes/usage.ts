@@ -0,0 +1,145 @@
+import express from 'express';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import {
+  tokenUsageService,
+  isQuotaPeriod,
+  isRole,
+  UsageFilter,
+  UsageGrouping,
+  USAGE_GROUPINGS
+} from '../services/token-usage';
+import { createLogger } from '../utils/logger';
+
+const router = express.Router();
+const logger = createLogger();
+
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * The caller's token usage between from and to (default: the last 30 days),
+ * grouped by day, month, session, project or model, plus their quota status.
+ * Admins may pass userId to look at someone else's.
+ */
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const requestedUser = req.query.userId as string | undefined;
+    if (requestedUser && requestedUser !== req.user!.userId && req.user!.role !== 'ADMIN') {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    const userId = requestedUser || req.user!.userId;
+
+    const query = parseUsageQuery(req.query, 'day');
+    if (typeof query === 'string') {
+      return res.status(400).json({ error: query });
+    }
+
+    const [report, quotas] = await Promise.all([
+      tokenUsageService.getUsage({ ...query.filter, userId }, query.groupBy),
+      tokenUsageService.getQuotaStatus(userId, userId === req.user!.userId ? req.user!.role : undefined),
+    ]);
+    res.json({ ...query.filter, userId, groupBy: query.groupBy, ...report, quotas });
+  } catch (error) {
+    logger.error('Error fetching token usage:', error);
+    res.status(500).json({ error: 'Failed to fetch token usage' });
+  }
+});
+
+// Everyone's usage, by user unless grouped otherwise
+router.get('/all', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const query = parseUsageQuery(req.query, 'user');
+    if (typeof query === 'string') {
+      return res.status(400).json({ error: query });
+    }
+
+    const report = await tokenUsageService.getUsage(query.filter, query.groupBy);
+    res.json({ ...query.filter, groupBy: query.groupBy, ...report });
+  } catch (error) {
+    logger.error('Error fetching token usage report:', error);
+    res.status(500).json({ error: 'Failed to fetch token usage report' });
+  }
+});
+
+router.get('/quotas', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const quotas = await tokenUsageService.listQuotas();
+    res.json(quotas);
+  } catch (error) {
+    logger.error('Error fetching token quotas:', error);
+    res.status(500).json({ error: 'Failed to fetch token quotas' });
+  }
+});
+
+// Body: { limit } in tokens per member of the role
+router.put('/quotas/:role/:period', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const role = req.params.role.toUpperCase();
+    const period = req.params.period.toUpperCase();
+    const { limit } = req.body;
+
+    if (!isRole(role)) {
+      return res.status(400).json({ error: `Unknown role: ${req.params.role}` });
+    }
+    if (!isQuotaPeriod(period)) {
+      return res.status(400).json({ error: 'period must be DAILY or MONTHLY' });
+    }
+    if (!Number.isInteger(limit) || limit < 0) {
+      return res.status(400).json({ error: 'limit must be a non-negative integer' });
+    }
+
+    const quota = await tokenUsageService.setQuota(role, period, limit);
+    logger.info(`Token quota for ${role} set to ${limit} ${period.toLowerCase()}`, { by: req.user!.userId });
+    res.json(quota);
+  } catch (error) {
+    logger.error('Error saving token quota:', error);
+    res.status(500).json({ error: 'Failed to save token quota' });
+  }
+});
+
+router.delete('/quotas/:role/:period', authenticateToken, requireRole(['ADMIN']), async (req, res) => {
+  try {
+    const role = req.params.role.toUpperCase();
+    const period = req.params.period.toUpperCase();
+
+    if (!isRole(role) || !isQuotaPeriod(period)) {
+      return res.status(404).json({ error: 'Token quota not found' });
+    }
+
+    await tokenUsageService.deleteQuota(role, period);
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting token quota:', error);
+    res.status(500).json({ error: 'Failed to delete token quota' });
+  }
+});
+
+function parseUsageQuery(
+  query: any,
+  defaultGrouping: UsageGrouping
+): { filter: UsageFilter; groupBy: UsageGrouping } | string {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from ? new Date(query.from) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return 'from and to must be ISO dates';
+  }
+  if (from >= to) {
+    return 'from must be before to';
+  }
+
+  const groupBy = (query.groupBy || defaultGrouping) as UsageGrouping;
+  if (!USAGE_GROUPINGS.includes(groupBy)) {
+    return `groupBy must be one of ${USAGE_GROUPINGS.join(', ')}`;
+  }
+
+  return {
+    filter: {
+      from,
+      to,
+      projectId: query.projectId as string | undefined,
+      chatSessionId: query.sessionId as string | undefined,
+    },
+    groupBy,
+  };
+}
+
+export default router;
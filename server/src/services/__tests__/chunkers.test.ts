@@ -0,0 +1,115 @@
+import {
+  createChunker,
+  FixedSizeChunker,
+  JsonChunker,
+  MarkdownChunker,
+  resolveChunkingStrategy,
+  TokenChunker,
+  validateChunkingSettings
+} from '../chunkers';
+
+describe('FixedSizeChunker', () => {
+  it('breaks at sentence ends and overlaps consecutive chunks', () => {
+    const text = 'First sentence here. Second sentence here. Third sentence here. Fourth sentence.';
+    const chunks = new FixedSizeChunker(50, 10).chunk(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].content).toBe('First sentence here. Second sentence here.');
+    expect(chunks.every(chunk => chunk.content.length <= 50)).toBe(true);
+    expect(chunks[chunks.length - 1].content.endsWith('Fourth sentence.')).toBe(true);
+  });
+
+  it('does not repeat the last chunk when the text ends inside the overlap', () => {
+    const chunks = new FixedSizeChunker(100, 20).chunk('short text');
+    expect(chunks).toEqual([{ content: 'short text', headingPath: [] }]);
+  });
+});
+
+describe('MarkdownChunker', () => {
+  it('records the heading path of each section', () => {
+    const text = '# Guide\nIntro.\n## Install\nRun it.\n## Usage\nUse it.\n# Appendix\nMore.';
+    const chunks = new MarkdownChunker(1000, 0).chunk(text);
+
+    expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+      ['Guide', 'Usage'],
+      ['Appendix']
+    ]);
+  });
+
+  it('ignores headings inside fenced code blocks', () => {
+    const text = '# Script\n```bash\n# not a heading\necho hi\n```';
+    const chunks = new MarkdownChunker(1000, 0).chunk(text);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headingPath).toEqual(['Script']);
+    expect(chunks[0].content).toContain('# not a heading');
+  });
+
+  it('keeps a code block whole when it is only somewhat over the chunk size', () => {
+    const code = ['```js', ...Array.from({ length: 8 }, (_, i) => `const value${i} = ${i};`), '```'].join('\n');
+    const chunks = new MarkdownChunker(100, 0).chunk(`# Code\n\n${code}`);
+
+    expect(chunks.some(chunk => chunk.content === code)).toBe(true);
+  });
+});
+
+describe('JsonChunker', () => {
+  it('splits large values and labels each chunk with its JSON path', () => {
+    const text = JSON.stringify({
+      users: [{ name: 'a'.repeat(60) }, { name: 'b'.repeat(60) }],
+      'odd key': 'x'.repeat(80)
+    });
+    const chunks = new JsonChunker(100, 0).chunk(text);
+
+    expect(chunks.map(chunk => chunk.jsonPath)).toEqual(['$.users[0]', '$.users[1]', '$["odd key"]']);
+    chunks.forEach(chunk => expect(() => JSON.parse(chunk.content)).not.toThrow());
+  });
+
+  it('falls back to fixed windows for invalid JSON', () => {
+    const chunks = new JsonChunker(100, 0).chunk('{ not json');
+    expect(chunks).toEqual([{ content: '{ not json', headingPath: [] }]);
+  });
+});
+
+describe('TokenChunker', () => {
+  it('windows over tokens with overlap and never splits a word', () => {
+    const chunks = new TokenChunker(4, 1).chunk('one two three four five six seven');
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      'one two three four',
+      'four five six seven'
+    ]);
+  });
+});
+
+describe('createChunker', () => {
+  it('caps the overlap at half the chunk size', () => {
+    const chunks = createChunker('token', { chunkSize: 4, overlap: 10 }).chunk('a b c d e f g h');
+    expect(chunks.map(chunk => chunk.content)).toEqual(['a b c d', 'c d e f', 'e f g h']);
+  });
+});
+
+describe('resolveChunkingStrategy', () => {
+  it('uses the configured strategy unless it is auto', () => {
+    expect(resolveChunkingStrategy({ strategy: 'token' }, '.md')).toBe('token');
+    expect(resolveChunkingStrategy({ strategy: 'auto' }, '.MD')).toBe('markdown');
+    expect(resolveChunkingStrategy({}, '.json')).toBe('json');
+    expect(resolveChunkingStrategy({}, '.txt')).toBe('fixed');
+  });
+});
+
+describe('validateChunkingSettings', () => {
+  it('accepts missing and valid settings', () => {
+    expect(validateChunkingSettings(undefined)).toBeNull();
+    expect(validateChunkingSettings({ strategy: 'markdown', chunkSize: 500, overlap: 0 })).toBeNull();
+  });
+
+  it('rejects unknown strategies and out-of-range sizes', () => {
+    expect(validateChunkingSettings([])).toBe('chunking must be an object');
+    expect(validateChunkingSettings({ strategy: 'words' })).toMatch(/^chunking.strategy must be one of/);
+    expect(validateChunkingSettings({ chunkSize: 10 })).toMatch(/chunkSize/);
+    expect(validateChunkingSettings({ overlap: -1 })).toMatch(/overlap/);
+  });
+});
@@ -0,0 +1,78 @@
+const create = jest.fn((args: unknown) => ({ create: args }));
+const updateMessage = jest.fn((args: unknown) => ({ updateMessage: args }));
+const updateSession = jest.fn((args: unknown) => ({ updateSession: args }));
+const transaction = jest.fn(async (writes: unknown[]) => writes);
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    tokenUsage = { create: (args: unknown) => create(args) };
+    message = { update: (args: unknown) => updateMessage(args) };
+    chatSession = { update: (args: unknown) => updateSession(args) };
+    $transaction = (writes: unknown[]) => transaction(writes);
+  }
+}));
+
+import { periodBounds, tokenUsageService } from '../token-usage';
+
+describe('periodBounds', () => {
+  it('uses the UTC day', () => {
+    // Still the 14th in UTC, already the 15th east of it
+    expect(periodBounds('DAILY', new Date('2026-03-14T23:30:00Z'))).toEqual({
+      start: new Date('2026-03-14T00:00:00Z'),
+      end: new Date('2026-03-15T00:00:00Z')
+    });
+  });
+
+  it('uses the UTC calendar month, across a year end', () => {
+    expect(periodBounds('MONTHLY', new Date('2026-02-28T12:00:00Z'))).toEqual({
+      start: new Date('2026-02-01T00:00:00Z'),
+      end: new Date('2026-03-01T00:00:00Z')
+    });
+    expect(periodBounds('MONTHLY', new Date('2026-12-31T23:59:59Z'))).toEqual({
+      start: new Date('2026-12-01T00:00:00Z'),
+      end: new Date('2027-01-01T00:00:00Z')
+    });
+  });
+});
+
+describe('TokenUsageService.recordUsage', () => {
+  const usage = { promptTokens: 40, completionTokens: 10, totalTokens: 50 };
+
+  beforeEach(() => {
+    [create, updateMessage, updateSession, transaction].forEach(mock => mock.mockClear());
+  });
+
+  it('books sampling in the ledger and session, but not on the chat message', async () => {
+    await tokenUsageService.recordUsage({
+      userId: 'user-1',
+      model: 'gpt-4o',
+      chatSessionId: 'session-1',
+      messageId: 'message-1',
+      source: 'SAMPLING',
+      server: 'servicenow-mcp',
+      toolName: 'create-script-include'
+    }, usage);
+
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        source: 'SAMPLING',
+        server: 'servicenow-mcp',
+        toolName: 'create-script-include',
+        totalTokens: 50,
+        cachedTokens: 0
+      })
+    });
+    expect(updateMessage).not.toHaveBeenCalled();
+    expect(updateSession).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: { totalTokensUsed: { increment: 50 } }
+    });
+  });
+
+  it('skips calls that reported no usage', async () => {
+    await tokenUsageService.recordUsage({ userId: 'user-1', model: 'local' }, undefined);
+    await tokenUsageService.recordUsage({ userId: 'user-1', model: 'local' }, { ...usage, totalTokens: 0 });
+
+    expect(transaction).not.toHaveBeenCalled();
+  });
+});
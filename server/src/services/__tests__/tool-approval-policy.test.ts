@@ -0,0 +1,136 @@
+const findMany = jest.fn();
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    toolApprovalPolicy = { findMany: (...args: unknown[]) => findMany(...args) };
+  },
+  ApprovalAction: { ALLOW: 'ALLOW', ASK: 'ASK', DENY: 'DENY' }
+}));
+
+import { ApprovalAction, ToolApprovalPolicy } from '@prisma/client';
+import {
+  ArgumentPredicate,
+  matchesConditions,
+  toolApprovalPolicyService,
+  validatePolicyData
+} from '../tool-approval-policy';
+
+let nextId = 0;
+
+function policy(overrides: Partial<ToolApprovalPolicy>): ToolApprovalPolicy {
+  return {
+    id: `policy-${++nextId}`,
+    userId: 'user-1',
+    projectId: null,
+    toolPattern: '*',
+    action: ApprovalAction.ALLOW,
+    conditions: [],
+    priority: 0,
+    description: null,
+    enabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('matchesConditions', () => {
+  const args = { table: 'sys_script', query: { field: 'active', value: true }, limit: 5 };
+
+  it('requires every condition to hold', () => {
+    const conditions: ArgumentPredicate[] = [
+      { path: 'table', operator: 'equals', value: 'SYS_SCRIPT' },
+      { path: 'query.field', operator: 'exists' }
+    ];
+    expect(matchesConditions(conditions, args)).toBe(true);
+    expect(matchesConditions([...conditions, { path: 'missing', operator: 'exists' }], args)).toBe(false);
+  });
+
+  it('checks every value for a "*" path', () => {
+    expect(matchesConditions([{ path: '*', operator: 'contains', value: 'script' }], args)).toBe(true);
+    expect(matchesConditions([{ path: '*', operator: 'notEquals', value: 5 }], args)).toBe(false);
+    expect(matchesConditions([{ path: '*', operator: 'notEquals', value: 6 }], args)).toBe(true);
+  });
+
+  it('supports matches and in', () => {
+    expect(matchesConditions([{ path: 'table', operator: 'matches', value: '^sys_' }], args)).toBe(true);
+    expect(matchesConditions([{ path: 'table', operator: 'in', value: ['incident', 'sys_script'] }], args)).toBe(true);
+    expect(matchesConditions([{ path: 'table', operator: 'in', value: ['incident'] }], args)).toBe(false);
+  });
+});
+
+describe('validatePolicyData', () => {
+  it('rejects missing fields and malformed conditions', () => {
+    expect(validatePolicyData({ action: 'ALLOW' })).toBe('toolPattern is required');
+    expect(validatePolicyData({ toolPattern: '*', action: 'MAYBE' })).toMatch(/^action must be one of/);
+    expect(validatePolicyData({ toolPattern: '*', action: 'ASK', conditions: [{ path: 'a', operator: 'in', value: 1 }] }))
+      .toBe('The "in" operator needs an array value');
+    expect(validatePolicyData({ toolPattern: '*', action: 'ASK', conditions: [{ path: 'a', operator: 'matches', value: '(' }] }))
+      .toMatch(/^Invalid regular expression/);
+  });
+
+  it('only checks the fields given for a partial update', () => {
+    expect(validatePolicyData({ priority: 2 }, true)).toBeNull();
+    expect(validatePolicyData({ priority: 1.5 }, true)).toBe('priority must be an integer');
+  });
+});
+
+describe('ToolApprovalPolicyService.evaluate', () => {
+  beforeEach(() => findMany.mockReset());
+
+  it('lets a more specific ALLOW lift a broader ASK', async () => {
+    findMany.mockResolvedValue([
+      policy({ action: ApprovalAction.ASK }),
+      policy({ toolPattern: 'query-records', action: ApprovalAction.ALLOW }),
+      policy({ projectId: 'project-1', toolPattern: 'servicenow-mcp:update-record', action: ApprovalAction.ALLOW })
+    ]);
+
+    const query = await toolApprovalPolicyService.evaluate('user-1', 'servicenow-mcp:query-records', {});
+    const update = await toolApprovalPolicyService.evaluate('user-1', 'servicenow-mcp:update-record', {}, 'project-1');
+    const other = await toolApprovalPolicyService.evaluate('user-1', 'servicenow-mcp:delete-record', {}, 'project-1');
+
+    expect(query.action).toBe(ApprovalAction.ALLOW);
+    expect(update.action).toBe(ApprovalAction.ALLOW);
+    expect(other.action).toBe(ApprovalAction.ASK);
+  });
+
+  it('ranks by priority before specificity', async () => {
+    findMany.mockResolvedValue([
+      policy({ projectId: 'project-1', toolPattern: 'servicenow-mcp:update-record', action: ApprovalAction.ALLOW }),
+      policy({
+        toolPattern: 'update-*',
+        action: ApprovalAction.DENY,
+        priority: 10,
+        conditions: [{ path: 'table', operator: 'equals', value: 'sys_user' }]
+      })
+    ]);
+
+    const denied = await toolApprovalPolicyService.evaluate('user-1', 'servicenow-mcp:update-record', { table: 'sys_user' }, 'project-1');
+    const allowed = await toolApprovalPolicyService.evaluate('user-1', 'servicenow-mcp:update-record', { table: 'incident' }, 'project-1');
+
+    expect(denied.action).toBe(ApprovalAction.DENY);
+    expect(allowed.action).toBe(ApprovalAction.ALLOW);
+  });
+
+  it('lets the most cautious rule win a tie', async () => {
+    const deny = policy({ toolPattern: 'query-records', action: ApprovalAction.DENY, description: 'Denied' });
+    findMany.mockResolvedValue([
+      policy({ toolPattern: 'query-records', action: ApprovalAction.ALLOW }),
+      deny,
+      policy({ toolPattern: 'query-records', action: ApprovalAction.ASK })
+    ]);
+
+    const decision = await toolApprovalPolicyService.evaluate('user-1', 'servicenow-mcp:query-records', {});
+
+    expect(decision.policy).toBe(deny);
+    expect(decision.reason).toBe('Denied');
+  });
+
+  it('falls back to the default action when nothing matches', async () => {
+    findMany.mockResolvedValue([policy({ toolPattern: 'delete-*', action: ApprovalAction.DENY })]);
+
+    const decision = await toolApprovalPolicyService.evaluate('user-1', 'servicenow-mcp:query-records', {});
+
+    expect(decision).toEqual({ action: ApprovalAction.ASK, reason: 'No matching approval policy' });
+  });
+});
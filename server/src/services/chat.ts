@@ -1,5 +1,6 @@
 import { PrismaClient, ChatSession, Message, MessageRole } from '@prisma/client';
 import { createLogger } from '../utils/logger';
+import { modelRegistry } from '../llm/model-registry';
 
 const prisma = new PrismaClient();
 const logger = createLogger();
@@ -85,7 +86,7 @@ export class ChatService {
           userId,
           title: data.title,
           model: data.model,
-          contextLimit: this.getContextLimit(data.model),
+          contextLimit: modelRegistry.getContextLimit(data.model),
           projectId: data.projectId || null
         }
       });
@@ -213,11 +214,4 @@ export class ChatService {
     }
   }
 
-  private getContextLimit(model: string): number {
-    if (model.startsWith('gpt-4')) return 8000;
-    if (model.startsWith('gpt-3.5')) return 4000;
-    if (model.startsWith('o4-')) return 128000;
-    if (model.startsWith('claude-')) return 200000;
-    return 4000; // default
-  }
 }
\ No newline at end of file
@@ -0,0 +1,377 @@
+export type ChunkingStrategy = 'fixed' | 'markdown' | 'json' | 'code' | 'token';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['fixed', 'markdown', 'json', 'code', 'token'];
+
+// Stored under Project.settings.chunking
+export interface ChunkingSettings {
+  strategy?: ChunkingStrategy | 'auto';
+  chunkSize?: number; // characters, or tokens for the token strategy
+  overlap?: number;
+}
+
+export interface TextChunk {
+  content: string;
+  headingPath: string[];
+  jsonPath?: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_OVERLAP = 200;
+const DEFAULT_TOKEN_CHUNK_SIZE = 256;
+const DEFAULT_TOKEN_OVERLAP = 32;
+
+// Code blocks up to this multiple of the chunk size are kept whole
+const CODE_BLOCK_OVERSIZE_FACTOR = 3;
+
+export abstract class Chunker {
+  abstract readonly strategy: ChunkingStrategy;
+
+  constructor(protected chunkSize: number, protected overlap: number) {}
+
+  abstract chunk(text: string, headingPath?: string[]): TextChunk[];
+}
+
+// Fixed character window that prefers to break at sentence or line ends
+export class FixedSizeChunker extends Chunker {
+  readonly strategy = 'fixed';
+
+  chunk(text: string, headingPath: string[] = []): TextChunk[] {
+    return this.splitText(text).map(content => ({ content, headingPath }));
+  }
+
+  splitText(content: string): string[] {
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < content.length) {
+      const end = Math.min(start + this.chunkSize, content.length);
+      let chunkContent = content.slice(start, end);
+
+      // Try to break at sentence boundaries
+      if (end < content.length) {
+        const lastPeriod = chunkContent.lastIndexOf('.');
+        const lastNewline = chunkContent.lastIndexOf('\n');
+        const breakPoint = Math.max(lastPeriod, lastNewline);
+
+        if (breakPoint > this.chunkSize * 0.5) { // Don't break too early
+          chunkContent = chunkContent.slice(0, breakPoint + 1);
+        }
+      }
+
+      chunks.push(chunkContent.trim());
+
+      // The final chunk reached the end; stepping back by the overlap would repeat it
+      if (end >= content.length) {
+        break;
+      }
+
+      start += chunkContent.length - this.overlap;
+    }
+
+    return chunks.filter(chunk => chunk.length > 0);
+  }
+}
+
+// Packs paragraphs into chunks without ever cutting a fenced code block in half
+export class CodeBlockChunker extends Chunker {
+  readonly strategy: ChunkingStrategy = 'code';
+
+  chunk(text: string, headingPath: string[] = []): TextChunk[] {
+    const fallback = new FixedSizeChunker(this.chunkSize, this.overlap);
+    const chunks: TextChunk[] = [];
+    let current = '';
+
+    const flush = () => {
+      if (current.trim()) {
+        chunks.push({ content: current.trim(), headingPath });
+      }
+      current = '';
+    };
+
+    for (const block of splitBlocks(text)) {
+      if (current && current.length + block.text.length + 2 > this.chunkSize) {
+        flush();
+      }
+
+      if (block.text.length <= this.chunkSize) {
+        current += current ? `\n\n${block.text}` : block.text;
+        continue;
+      }
+
+      // Oversized block: scripts stay whole within reason, prose is windowed
+      flush();
+      if (block.isCode && block.text.length <= this.chunkSize * CODE_BLOCK_OVERSIZE_FACTOR) {
+        chunks.push({ content: block.text, headingPath });
+      } else if (block.isCode) {
+        chunks.push(...splitLines(block.text, this.chunkSize).map(content => ({ content, headingPath })));
+      } else {
+        chunks.push(...fallback.chunk(block.text, headingPath));
+      }
+    }
+    flush();
+
+    return chunks;
+  }
+}
+
+// Splits at headings and records the heading path; long sections are packed by block
+export class MarkdownChunker extends Chunker {
+  readonly strategy = 'markdown';
+
+  chunk(text: string, headingPath: string[] = []): TextChunk[] {
+    const blockChunker = new CodeBlockChunker(this.chunkSize, this.overlap);
+    const chunks: TextChunk[] = [];
+    const headings: { level: number; title: string }[] = [];
+    let sectionLines: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+      const sectionText = sectionLines.join('\n').trim();
+      if (sectionText) {
+        const path = [...headingPath, ...headings.map(heading => heading.title)];
+        chunks.push(...blockChunker.chunk(sectionText, path));
+      }
+      sectionLines = [];
+    };
+
+    for (const line of text.split('\n')) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+
+      const match = !inFence ? line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/) : null;
+      if (match) {
+        flush();
+        const level = match[1].length;
+        while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+          headings.pop();
+        }
+        headings.push({ level, title: match[2] });
+      }
+
+      sectionLines.push(line);
+    }
+    flush();
+
+    return chunks;
+  }
+}
+
+// Walks the JSON tree so each chunk is a complete value with its JSON path
+export class JsonChunker extends Chunker {
+  readonly strategy = 'json';
+
+  chunk(text: string, headingPath: string[] = []): TextChunk[] {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      return new FixedSizeChunker(this.chunkSize, this.overlap).chunk(text, headingPath);
+    }
+
+    const chunks: TextChunk[] = [];
+    this.walk(value, '$', headingPath, chunks);
+    return chunks;
+  }
+
+  private walk(value: unknown, jsonPath: string, headingPath: string[], chunks: TextChunk[]): void {
+    const serialized = JSON.stringify(value, null, 2);
+
+    if (serialized.length <= this.chunkSize) {
+      chunks.push({ content: serialized, headingPath, jsonPath });
+      return;
+    }
+
+    if (value === null || typeof value !== 'object') {
+      // A single huge primitive, usually a long string
+      const fixed = new FixedSizeChunker(this.chunkSize, this.overlap);
+      chunks.push(...fixed.chunk(serialized, headingPath).map(chunk => ({ ...chunk, jsonPath })));
+      return;
+    }
+
+    const entries: [string, unknown][] = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item])
+      : Object.entries(value as Record<string, unknown>);
+    const childPath = (key: string) => Array.isArray(value)
+      ? `${jsonPath}[${key}]`
+      : /^[A-Za-z_$][\w$]*$/.test(key) ? `${jsonPath}.${key}` : `${jsonPath}[${JSON.stringify(key)}]`;
+
+    // Small siblings are grouped into one chunk under the parent path
+    let group: [string, unknown][] = [];
+    let groupSize = 0;
+
+    const flushGroup = () => {
+      if (group.length === 0) return;
+      if (group.length === 1) {
+        chunks.push({ content: JSON.stringify(group[0][1], null, 2), headingPath, jsonPath: childPath(group[0][0]) });
+      } else {
+        const content = Array.isArray(value)
+          ? JSON.stringify(group.map(([, item]) => item), null, 2)
+          : JSON.stringify(Object.fromEntries(group), null, 2);
+        chunks.push({ content, headingPath, jsonPath });
+      }
+      group = [];
+      groupSize = 0;
+    };
+
+    for (const [key, child] of entries) {
+      const childSize = JSON.stringify(child, null, 2).length + key.length;
+
+      if (childSize > this.chunkSize) {
+        flushGroup();
+        this.walk(child, childPath(key), headingPath, chunks);
+        continue;
+      }
+
+      if (groupSize + childSize > this.chunkSize) {
+        flushGroup();
+      }
+      group.push([key, child]);
+      groupSize += childSize;
+    }
+    flushGroup();
+  }
+}
+
+// Windows over approximate tokens (words and punctuation), never splitting a word
+export class TokenChunker extends Chunker {
+  readonly strategy = 'token';
+
+  chunk(text: string, headingPath: string[] = []): TextChunk[] {
+    const tokens = Array.from(text.matchAll(/\w+|[^\w\s]/g));
+    const chunks: TextChunk[] = [];
+    const step = Math.max(this.chunkSize - this.overlap, 1);
+
+    for (let start = 0; start < tokens.length; start += step) {
+      const end = Math.min(start + this.chunkSize, tokens.length);
+      const from = tokens[start].index!;
+      const lastToken = tokens[end - 1];
+      const content = text.slice(from, lastToken.index! + lastToken[0].length).trim();
+
+      if (content) {
+        chunks.push({ content, headingPath });
+      }
+
+      if (end >= tokens.length) {
+        break;
+      }
+    }
+
+    return chunks;
+  }
+}
+
+export function createChunker(strategy: ChunkingStrategy, settings: ChunkingSettings = {}): Chunker {
+  const isToken = strategy === 'token';
+  const chunkSize = settings.chunkSize || (isToken ? DEFAULT_TOKEN_CHUNK_SIZE : DEFAULT_CHUNK_SIZE);
+  const overlap = Math.min(
+    settings.overlap ?? (isToken ? DEFAULT_TOKEN_OVERLAP : DEFAULT_OVERLAP),
+    Math.floor(chunkSize / 2)
+  );
+
+  switch (strategy) {
+    case 'markdown':
+      return new MarkdownChunker(chunkSize, overlap);
+    case 'json':
+      return new JsonChunker(chunkSize, overlap);
+    case 'code':
+      return new CodeBlockChunker(chunkSize, overlap);
+    case 'token':
+      return new TokenChunker(chunkSize, overlap);
+    case 'fixed':
+    default:
+      return new FixedSizeChunker(chunkSize, overlap);
+  }
+}
+
+// "auto" picks a strategy from the file type
+export function resolveChunkingStrategy(settings: ChunkingSettings = {}, fileExtension: string): ChunkingStrategy {
+  if (settings.strategy && settings.strategy !== 'auto') {
+    return settings.strategy;
+  }
+
+  switch (fileExtension.toLowerCase()) {
+    case '.md':
+      return 'markdown';
+    case '.json':
+      return 'json';
+    default:
+      return 'fixed';
+  }
+}
+
+export function validateChunkingSettings(settings: any): string | null {
+  if (settings === undefined || settings === null) return null;
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'chunking must be an object';
+  }
+  if (settings.strategy !== undefined && settings.strategy !== 'auto' && !CHUNKING_STRATEGIES.includes(settings.strategy)) {
+    return `chunking.strategy must be one of: auto, ${CHUNKING_STRATEGIES.join(', ')}`;
+  }
+  if (settings.chunkSize !== undefined && (!Number.isInteger(settings.chunkSize) || settings.chunkSize < 50)) {
+    return 'chunking.chunkSize must be an integer of at least 50';
+  }
+  if (settings.overlap !== undefined && (!Number.isInteger(settings.overlap) || settings.overlap < 0)) {
+    return 'chunking.overlap must be a non-negative integer';
+  }
+  return null;
+}
+
+interface TextBlock {
+  text: string;
+  isCode: boolean;
+}
+
+// Paragraphs separated by blank lines, with fenced code blocks kept as single blocks
+function splitBlocks(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const push = (isCode: boolean) => {
+    const blockText = lines.join('\n').trim();
+    if (blockText) blocks.push({ text: blockText, isCode });
+    lines = [];
+  };
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      if (!inFence) {
+        push(false);
+        lines.push(line);
+        inFence = true;
+      } else {
+        lines.push(line);
+        push(true);
+        inFence = false;
+      }
+      continue;
+    }
+
+    if (!inFence && line.trim() === '') {
+      push(false);
+      continue;
+    }
+
+    lines.push(line);
+  }
+  push(inFence);
+
+  return blocks;
+}
+
+function splitLines(text: string, maxLength: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+
+  for (const line of text.split('\n')) {
+    if (current && current.length + line.length + 1 > maxLength) {
+      parts.push(current);
+      current = '';
+    }
+    current += current ? `\n${line}` : line;
+  }
+  if (current) parts.push(current);
+
+  return parts;
+}
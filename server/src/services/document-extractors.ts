@@ -0,0 +1,167 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import { parse as parseCsv } from 'csv-parse/sync';
+
+// Where a piece of extracted text came from, carried into chunk metadata
+export interface SectionLocation {
+  page?: number;
+  section?: string;
+  rowStart?: number;
+  rowEnd?: number;
+}
+
+export interface ExtractedSection {
+  text: string;
+  location: SectionLocation;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  sections: ExtractedSection[];
+}
+
+export const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.json', '.pdf', '.docx', '.csv', '.html', '.htm'];
+
+const CSV_ROWS_PER_SECTION = 25;
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, tr, dt, dd';
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+export async function extractDocument(filePath: string): Promise<ExtractedDocument> {
+  const fileExtension = path.extname(filePath).toLowerCase();
+
+  switch (fileExtension) {
+    case '.txt':
+    case '.md':
+      return singleSection(await fs.readFile(filePath, 'utf-8'));
+
+    case '.json': {
+      const jsonContent = await fs.readFile(filePath, 'utf-8');
+      return singleSection(JSON.stringify(JSON.parse(jsonContent), null, 2));
+    }
+
+    case '.pdf':
+      return extractPdf(await fs.readFile(filePath));
+
+    case '.docx': {
+      const { value: html } = await mammoth.convertToHtml({ path: filePath });
+      return extractHtmlSections(html);
+    }
+
+    case '.html':
+    case '.htm':
+      return extractHtmlSections(await fs.readFile(filePath, 'utf-8'));
+
+    case '.csv':
+      return extractCsv(await fs.readFile(filePath, 'utf-8'));
+
+    default:
+      throw new Error(`Unsupported file type: ${fileExtension}`);
+  }
+}
+
+function singleSection(text: string): ExtractedDocument {
+  return { text, sections: [{ text, location: {} }] };
+}
+
+async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+  const parser = new PDFParse({ data: buffer });
+
+  try {
+    const result = await parser.getText();
+    const sections = result.pages
+      .map(page => ({ text: page.text.trim(), location: { page: page.num } }))
+      .filter(section => section.text.length > 0);
+
+    return {
+      text: sections.map(section => section.text).join('\n\n'),
+      sections,
+    };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Splits HTML (including DOCX converted by mammoth) into sections at each heading
+function extractHtmlSections(html: string): ExtractedDocument {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, nav, header, footer').remove();
+
+  const sections: ExtractedSection[] = [];
+  let current: ExtractedSection = { text: '', location: {} };
+
+  const flush = () => {
+    current.text = current.text.trim();
+    if (current.text.length > 0) {
+      sections.push(current);
+    }
+  };
+
+  $(BLOCK_SELECTOR)
+    // Nested blocks (a <p> inside an <li>) are covered by their outermost block
+    .filter((_, el) => $(el).parents(BLOCK_SELECTOR).length === 0)
+    .each((_, el) => {
+      const tag = el.tagName.toLowerCase();
+
+      if (HEADING_TAGS.has(tag)) {
+        const heading = normalizeWhitespace($(el).text());
+        flush();
+        current = { text: heading ? `${heading}\n` : '', location: heading ? { section: heading } : {} };
+        return;
+      }
+
+      const text = tag === 'tr'
+        ? $(el).children('th, td').map((_, cell) => normalizeWhitespace($(cell).text())).get().join(' | ')
+        : normalizeWhitespace($(el).text());
+
+      if (text) {
+        current.text += `${tag === 'li' ? '- ' : ''}${text}\n`;
+      }
+    });
+  flush();
+
+  // Pages without block markup still have text worth indexing
+  if (sections.length === 0) {
+    return singleSection(normalizeWhitespace($('body').text() || $.root().text()));
+  }
+
+  return {
+    text: sections.map(section => section.text).join('\n\n'),
+    sections,
+  };
+}
+
+function extractCsv(content: string): ExtractedDocument {
+  const records: Record<string, string>[] = parseCsv(content, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+    relax_column_count: true,
+    bom: true,
+  });
+
+  const sections: ExtractedSection[] = [];
+  for (let i = 0; i < records.length; i += CSV_ROWS_PER_SECTION) {
+    const rows = records.slice(i, i + CSV_ROWS_PER_SECTION);
+    const text = rows
+      .map(row => Object.entries(row)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([column, value]) => `${column}: ${value}`)
+        .join('; '))
+      .join('\n');
+
+    // Row numbers match the spreadsheet, where row 1 is the header
+    sections.push({ text, location: { rowStart: i + 2, rowEnd: i + rows.length + 1 } });
+  }
+
+  return {
+    text: sections.map(section => section.text).join('\n'),
+    sections,
+  };
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -1,8 +1,13 @@
-import { PrismaClient, Document, DocumentChunk, ProcessingStatus } from '@prisma/client';
+import { PrismaClient, Prisma, Document, DocumentChunk, ProcessingStatus } from '@prisma/client';
 import { createLogger } from '../utils/logger';
+import { isJsonObject } from '../utils/json';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { getEmbeddingProvider, cosineSimilarity } from './embeddings';
+import { extractDocument, ExtractedSection, SectionLocation } from './document-extractors';
+import { ChunkingSettings, ChunkingStrategy, createChunker, resolveChunkingStrategy } from './chunkers';
+import { ProjectSettings } from './project';
 
 const prisma = new PrismaClient();
 const logger = createLogger();
@@ -18,8 +23,33 @@ export interface DocumentChunkData {
   content: string;
   chunkIndex: number;
   embedding?: number[];
+  metadata?: SectionLocation & {
+    chunkingStrategy: ChunkingStrategy;
+    headingPath: string[];
+    jsonPath?: string;
+  };
 }
 
+// A saved chunk's metadata, plus which provider embedded it
+export type StoredChunkMetadata = Partial<NonNullable<DocumentChunkData['metadata']>> & {
+  embeddingProvider?: string;
+};
+
+// Chunk metadata is only written by this service, so an object there has this shape
+export function readChunkMetadata(metadata: Prisma.JsonValue): StoredChunkMetadata {
+  return isJsonObject(metadata) ? (metadata as StoredChunkMetadata) : {};
+}
+
+export interface ScoredDocumentChunk extends Omit<DocumentChunk, 'embedding'> {
+  score: number;
+  document: {
+    originalName: string;
+    contentType: string;
+  };
+}
+
+const EMBEDDING_BATCH_SIZE = 64;
+
 export class DocumentService {
   private uploadsDir = path.join(process.cwd(), 'uploads');
 
@@ -91,11 +121,22 @@ export class DocumentService {
         data: { processingStatus: ProcessingStatus.PROCESSING },
       });
 
-      // Extract text content
-      const content = await this.extractTextContent(filePath);
+      // Extract text content, keeping page and section boundaries
+      const { text: content, sections } = await this.extractTextContent(filePath);
 
-      // Split into chunks
-      const chunks = await this.splitIntoChunks(content);
+      // Split into chunks using the project's chunking strategy
+      const document = await prisma.document.findUnique({
+        where: { id: documentId },
+        select: { project: { select: { settings: true } } },
+      });
+      const projectSettings = document?.project.settings;
+      const chunkingSettings: ChunkingSettings =
+        (isJsonObject(projectSettings) && (projectSettings as ProjectSettings).chunking) || {};
+      const chunks = await this.splitIntoChunks(sections, chunkingSettings, path.extname(filePath));
+
+      // Compute embeddings for semantic search
+      const provider = getEmbeddingProvider();
+      const embeddings = await this.embedInBatches(chunks.map(chunk => chunk.content));
 
       // Save chunks to database
       const chunkPromises = chunks.map((chunk, index) =>
@@ -104,7 +145,8 @@ export class DocumentService {
             documentId,
             content: chunk.content,
             chunkIndex: index,
-            // We'll add embeddings later
+            embedding: embeddings[index],
+            metadata: { ...chunk.metadata, embeddingProvider: provider.name },
           },
         })
       );
@@ -136,61 +178,61 @@ export class DocumentService {
     }
   }
 
-  private async extractTextContent(filePath: string): Promise<string> {
+  private async extractTextContent(filePath: string): Promise<{ text: string; sections: ExtractedSection[] }> {
     try {
-      const fileExtension = path.extname(filePath).toLowerCase();
-
-      switch (fileExtension) {
-        case '.txt':
-        case '.md':
-          return await fs.readFile(filePath, 'utf-8');
-        
-        case '.json':
-          const jsonContent = await fs.readFile(filePath, 'utf-8');
-          return JSON.stringify(JSON.parse(jsonContent), null, 2);
-        
-        // TODO: Add support for PDF, DOCX, etc.
-        default:
-          throw new Error(`Unsupported file type: ${fileExtension}`);
+      const extracted = await extractDocument(filePath);
+
+      if (extracted.text.trim().length === 0) {
+        throw new Error('No text content found');
       }
+
+      return extracted;
     } catch (error) {
       logger.error('Error extracting text content:', error);
       throw new Error('Failed to extract content from file');
     }
   }
 
-  private async splitIntoChunks(content: string): Promise<DocumentChunkData[]> {
-    // Simple text splitting - we'll enhance this later
-    const chunkSize = 1000; // characters
-    const overlap = 200; // character overlap between chunks
-    
-    const chunks: DocumentChunkData[] = [];
-    let start = 0;
-
-    while (start < content.length) {
-      const end = Math.min(start + chunkSize, content.length);
-      let chunkContent = content.slice(start, end);
-
-      // Try to break at sentence boundaries
-      if (end < content.length) {
-        const lastPeriod = chunkContent.lastIndexOf('.');
-        const lastNewline = chunkContent.lastIndexOf('\n');
-        const breakPoint = Math.max(lastPeriod, lastNewline);
-        
-        if (breakPoint > chunkSize * 0.5) { // Don't break too early
-          chunkContent = chunkContent.slice(0, breakPoint + 1);
-        }
-      }
+  private async embedInBatches(texts: string[]): Promise<number[][]> {
+    const provider = getEmbeddingProvider();
+    const embeddings: number[][] = [];
 
-      chunks.push({
-        content: chunkContent.trim(),
-        chunkIndex: chunks.length,
-      });
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+      embeddings.push(...await provider.embed(batch));
+    }
+
+    return embeddings;
+  }
 
-      start += chunkContent.length - overlap;
+  private async splitIntoChunks(
+    sections: ExtractedSection[],
+    settings: ChunkingSettings,
+    fileExtension: string
+  ): Promise<DocumentChunkData[]> {
+    const strategy = resolveChunkingStrategy(settings, fileExtension);
+    const chunker = createChunker(strategy, settings);
+    const chunks: DocumentChunkData[] = [];
+
+    // Chunks never span sections, so each one maps to a single page or heading
+    for (const section of sections) {
+      const basePath = section.location.section ? [section.location.section] : [];
+
+      for (const chunk of chunker.chunk(section.text, basePath)) {
+        chunks.push({
+          content: chunk.content,
+          chunkIndex: chunks.length,
+          metadata: {
+            ...section.location,
+            chunkingStrategy: strategy,
+            headingPath: chunk.headingPath,
+            ...(chunk.jsonPath && { jsonPath: chunk.jsonPath }),
+          },
+        });
+      }
     }
 
-    return chunks.filter(chunk => chunk.content.length > 0);
+    return chunks;
   }
 
   async getProjectDocuments(projectId: string, userId: string): Promise<Document[]> {
@@ -262,7 +304,7 @@ export class DocumentService {
     projectId: string,
     userId: string,
     limit: number = 5
-  ): Promise<DocumentChunk[]> {
+  ): Promise<ScoredDocumentChunk[]> {
     try {
       // Verify user owns the project
       const project = await prisma.project.findFirst({
@@ -273,14 +315,15 @@ export class DocumentService {
         throw new Error('Project not found or access denied');
       }
 
-      // For now, do simple text search
-      // TODO: Implement proper vector similarity search
+      // Chunks processed before embeddings existed are embedded on first search
+      await this.embedMissingChunks(projectId);
+
+      const provider = getEmbeddingProvider();
+      const queryEmbedding = await provider.embedOne(query);
+
       const chunks = await prisma.documentChunk.findMany({
         where: {
-          document: { projectId },
-          content: {
-            contains: query,
-          },
+          document: { projectId, processingStatus: ProcessingStatus.COMPLETED },
         },
         include: {
           document: {
@@ -290,16 +333,76 @@ export class DocumentService {
             },
           },
         },
-        orderBy: { createdAt: 'desc' },
-        take: limit,
       });
 
-      return chunks;
+      return chunks
+        .map(({ embedding, ...chunk }) => ({
+          ...chunk,
+          score: cosineSimilarity(queryEmbedding, embedding),
+        }))
+        .filter(chunk => chunk.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
     } catch (error) {
       logger.error('Error searching content:', error);
       throw error;
     }
   }
+
+  async backfillEmbeddings(projectId: string, userId: string): Promise<number> {
+    try {
+      // Verify user owns the project
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId },
+      });
+
+      if (!project) {
+        throw new Error('Project not found or access denied');
+      }
+
+      return await this.embedMissingChunks(projectId);
+    } catch (error) {
+      logger.error('Error backfilling embeddings:', error);
+      throw error;
+    }
+  }
+
+  // Embeds chunks that have no vector yet or were embedded by a different provider
+  private async embedMissingChunks(projectId: string): Promise<number> {
+    const provider = getEmbeddingProvider();
+
+    const chunks = await prisma.documentChunk.findMany({
+      where: { document: { projectId } },
+      select: { id: true, content: true, embedding: true, metadata: true },
+    });
+
+    const stale = chunks.filter(chunk =>
+      chunk.embedding.length !== provider.dimensions ||
+      readChunkMetadata(chunk.metadata).embeddingProvider !== provider.name
+    );
+
+    if (stale.length === 0) {
+      return 0;
+    }
+
+    const embeddings = await this.embedInBatches(stale.map(chunk => chunk.content));
+
+    await Promise.all(stale.map((chunk, index) =>
+      prisma.documentChunk.update({
+        where: { id: chunk.id },
+        data: {
+          embedding: embeddings[index],
+          metadata: {
+            ...readChunkMetadata(chunk.metadata),
+            embeddingProvider: provider.name,
+          },
+        },
+      })
+    ));
+
+    logger.info(`Backfilled embeddings for ${stale.length} chunks in project ${projectId}`);
+    return stale.length;
+  }
 }
 
 export const documentService = new DocumentService();
\ No newline at end of file
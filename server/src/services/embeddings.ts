@@ -0,0 +1,155 @@
+import OpenAI from 'openai';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+
+export abstract class EmbeddingProvider {
+  abstract readonly name: string;
+  abstract readonly dimensions: number;
+  abstract embed(texts: string[]): Promise<number[][]>;
+
+  async embedOne(text: string): Promise<number[]> {
+    const [vector] = await this.embed([text]);
+    return vector;
+  }
+}
+
+// Deterministic, offline provider based on the hashing trick. Words and
+// adjacent word pairs are hashed into a fixed number of buckets with
+// sublinear term frequency, then L2-normalised so cosine similarity works.
+export class HashingEmbeddingProvider extends EmbeddingProvider {
+  readonly name = 'local-hashing';
+
+  constructor(readonly dimensions: number = 512) {
+    super();
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedSync(text));
+  }
+
+  embedSync(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = this.tokenize(text);
+    const counts = new Map<string, number>();
+
+    for (let i = 0; i < tokens.length; i++) {
+      counts.set(tokens[i], (counts.get(tokens[i]) || 0) + 1);
+      if (i + 1 < tokens.length) {
+        const bigram = `${tokens[i]} ${tokens[i + 1]}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 1);
+      }
+    }
+
+    for (const [term, count] of counts) {
+      const hash = this.hash(term);
+      const index = hash % this.dimensions;
+      // Use a second bit of the hash as the sign to reduce collision bias
+      const sign = (hash >>> 16) & 1 ? 1 : -1;
+      vector[index] += sign * (1 + Math.log(count));
+    }
+
+    return normalize(vector);
+  }
+
+  private tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9_]+/g) || [])
+      .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+  }
+
+  // 32-bit FNV-1a
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+export class OpenAIEmbeddingProvider extends EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  private client: OpenAI;
+
+  constructor(private model: string = 'text-embedding-3-small', dimensions: number = 1536) {
+    super();
+    this.name = `openai:${model}`;
+    this.dimensions = dimensions;
+    this.client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: this.dimensions,
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'her', 'was', 'one',
+  'our', 'out', 'his', 'has', 'had', 'how', 'its', 'may', 'who', 'did', 'get', 'let', 'she',
+  'too', 'use', 'that', 'with', 'have', 'this', 'will', 'your', 'from', 'they', 'been', 'were',
+  'what', 'when', 'which', 'their', 'there', 'then', 'them', 'these', 'into', 'than', 'is',
+  'it', 'of', 'on', 'or', 'to', 'in', 'an', 'as', 'at', 'be', 'by', 'do', 'if', 'no', 'so', 'we',
+]);
+
+let providerInstance: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!providerInstance) {
+    const provider = process.env.EMBEDDING_PROVIDER || 'local';
+
+    switch (provider) {
+      case 'openai':
+        providerInstance = new OpenAIEmbeddingProvider(
+          process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+          parseInt(process.env.EMBEDDING_DIMENSIONS || '1536')
+        );
+        break;
+      case 'local':
+        providerInstance = new HashingEmbeddingProvider(
+          parseInt(process.env.EMBEDDING_DIMENSIONS || '512')
+        );
+        break;
+      default:
+        logger.warn(`Unknown embedding provider "${provider}", falling back to local hashing`);
+        providerInstance = new HashingEmbeddingProvider();
+    }
+
+    logger.info(`Using embedding provider: ${providerInstance.name} (${providerInstance.dimensions} dimensions)`);
+  }
+  return providerInstance;
+}
@@ -1,5 +1,6 @@
 import { PrismaClient, Project, Document } from '@prisma/client';
 import { createLogger } from '../utils/logger';
+import { ChunkingSettings } from './chunkers';
 
 const prisma = new PrismaClient();
 const logger = createLogger();
@@ -9,9 +10,17 @@ export interface CreateProjectData {
   description?: string;
 }
 
+export interface ProjectSettings {
+  chunking?: ChunkingSettings;
+  // MCP servers whose tools are hidden from this project's chats
+  disabledMcpServers?: string[];
+  [key: string]: any;
+}
+
 export interface UpdateProjectData {
   name?: string;
   description?: string;
+  settings?: ProjectSettings;
 }
 
 export class ProjectService {
@@ -113,6 +122,16 @@ export class ProjectService {
     data: UpdateProjectData
   ): Promise<Project> {
     try {
+      // Settings are merged so clients can update one group at a time
+      let settings: ProjectSettings | undefined;
+      if (data.settings) {
+        const existing = await prisma.project.findFirst({
+          where: { id: projectId, userId },
+          select: { settings: true },
+        });
+        settings = { ...((existing?.settings as ProjectSettings) || {}), ...data.settings };
+      }
+
       const project = await prisma.project.update({
         where: {
           id: projectId,
@@ -121,6 +140,7 @@ export class ProjectService {
         data: {
           name: data.name,
           description: data.description,
+          settings,
           updatedAt: new Date(),
         },
       });
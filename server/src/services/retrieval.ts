@@ -0,0 +1,119 @@
+import { documentService, readChunkMetadata, ScoredDocumentChunk } from './document';
+import { MessageSource } from '../types/websocket-types';
+import { createLogger } from '../utils/logger';
+import { estimateTokens } from '../utils/token-estimate';
+
+const logger = createLogger();
+
+export interface RetrievalResult {
+  promptSection: string;
+  sources: MessageSource[];
+  tokensUsed: number;
+}
+
+export interface RetrievalOptions {
+  tokenBudget?: number;
+  maxChunks?: number;
+  minScore?: number;
+}
+
+const EXCERPT_LENGTH = 240;
+
+export class RetrievalService {
+  private tokenBudget = parseInt(process.env.RAG_TOKEN_BUDGET || '2000');
+  private maxChunks = parseInt(process.env.RAG_MAX_CHUNKS || '8');
+  private minScore = parseFloat(process.env.RAG_MIN_SCORE || '0.1');
+
+  async retrieveProjectContext(
+    projectId: string,
+    userId: string,
+    query: string,
+    options: RetrievalOptions = {}
+  ): Promise<RetrievalResult> {
+    const tokenBudget = options.tokenBudget ?? this.tokenBudget;
+    const maxChunks = options.maxChunks ?? this.maxChunks;
+    const minScore = options.minScore ?? this.minScore;
+
+    const chunks = await documentService.searchSimilarContent(query, projectId, userId, maxChunks);
+    const relevant = chunks.filter(chunk => chunk.score >= minScore);
+
+    const selected: ScoredDocumentChunk[] = [];
+    const blocks: string[] = [];
+    let tokensUsed = 0;
+
+    for (const chunk of relevant) {
+      const block = this.formatChunk(selected.length + 1, chunk);
+      const blockTokens = estimateTokens(block);
+
+      // Chunks are ranked, so stop at the first one that doesn't fit
+      if (tokensUsed + blockTokens > tokenBudget) {
+        break;
+      }
+
+      selected.push(chunk);
+      blocks.push(block);
+      tokensUsed += blockTokens;
+    }
+
+    if (selected.length === 0) {
+      return { promptSection: '', sources: [], tokensUsed: 0 };
+    }
+
+    const promptSection = [
+      '## Project Documents',
+      'The following excerpts were retrieved from documents uploaded to this project. ' +
+        'Use them when they are relevant and cite them inline as [1], [2], etc. ' +
+        'If they do not answer the question, say so rather than guessing.',
+      ...blocks,
+    ].join('\n\n');
+
+    const sources = selected.map((chunk, index) => ({
+      index: index + 1,
+      projectId,
+      documentId: chunk.documentId,
+      documentName: chunk.document.originalName,
+      chunkId: chunk.id,
+      chunkIndex: chunk.chunkIndex,
+      page: readChunkMetadata(chunk.metadata).page,
+      section: this.sectionLabel(chunk),
+      score: Number(chunk.score.toFixed(4)),
+      excerpt: this.excerpt(chunk.content),
+    }));
+
+    logger.info(`Retrieved ${sources.length} document chunks for project ${projectId}`, {
+      tokensUsed,
+      tokenBudget,
+    });
+
+    return { promptSection, sources, tokensUsed };
+  }
+
+  private formatChunk(index: number, chunk: ScoredDocumentChunk): string {
+    return `[${index}] ${chunk.document.originalName} (${this.describeLocation(chunk)})\n${chunk.content.trim()}`;
+  }
+
+  private describeLocation(chunk: ScoredDocumentChunk): string {
+    const metadata = readChunkMetadata(chunk.metadata);
+    const parts: string[] = [];
+
+    if (metadata.page) parts.push(`page ${metadata.page}`);
+    const section = this.sectionLabel(chunk);
+    if (section) parts.push(`section "${section}"`);
+    if (metadata.jsonPath) parts.push(metadata.jsonPath);
+    if (metadata.rowStart) parts.push(`rows ${metadata.rowStart}-${metadata.rowEnd}`);
+
+    return parts.length > 0 ? parts.join(', ') : `chunk ${chunk.chunkIndex + 1}`;
+  }
+
+  private sectionLabel(chunk: ScoredDocumentChunk): string | undefined {
+    const metadata = readChunkMetadata(chunk.metadata);
+    return metadata.headingPath?.length ? metadata.headingPath.join(' > ') : metadata.section;
+  }
+
+  private excerpt(content: string): string {
+    const text = content.replace(/\s+/g, ' ').trim();
+    return text.length > EXCERPT_LENGTH ? `${text.substring(0, EXCERPT_LENGTH)}...` : text;
+  }
+}
+
+export const retrievalService = new RetrievalService();
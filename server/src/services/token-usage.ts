@@ -0,0 +1,303 @@
+import { PrismaClient, Prisma, QuotaPeriod, Role, TokenQuota, TokenUsageSource } from '@prisma/client';
+import { LLMResponse } from '../llm/llm-interface';
+import { TokenQuotaExceededError } from '../utils/error-handler';
+import { createLogger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+const logger = createLogger();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UsageGrouping = 'day' | 'month' | 'session' | 'project' | 'model' | 'user';
+
+export const USAGE_GROUPINGS: UsageGrouping[] = ['day', 'month', 'session', 'project', 'model', 'user'];
+
+// Where a call's tokens are booked
+export interface UsageContext {
+  userId: string;
+  model: string;
+  projectId?: string;
+  chatSessionId?: string;
+  messageId?: string;
+  source?: TokenUsageSource;
+  // For SAMPLING, the MCP server and tool that asked for the completion
+  server?: string;
+  toolName?: string;
+}
+
+export interface UsageFilter {
+  // Omitted only for the admin report across all users
+  userId?: string;
+  projectId?: string;
+  chatSessionId?: string;
+  from: Date;
+  to: Date;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  // key is the day (YYYY-MM-DD), month (YYYY-MM), or the session, project, model or user id
+  groups: Array<UsageTotals & { key: string | null }>;
+}
+
+export interface QuotaStatus {
+  period: QuotaPeriod;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+const GROUP_FIELDS = {
+  session: 'chatSessionId',
+  project: 'projectId',
+  model: 'model',
+  user: 'userId',
+} as const;
+
+export class TokenUsageService {
+  /**
+   * Books one LLM call: a ledger row, the session's running total and, for
+   * chat responses, the message's own counts. Never throws, the tokens are
+   * spent whether or not the bookkeeping works.
+   */
+  async recordUsage(context: UsageContext, usage: LLMResponse['usage']): Promise<void> {
+    if (!usage || usage.totalTokens <= 0) {
+      logger.debug(`No token usage reported by ${context.model}`, { messageId: context.messageId });
+      return;
+    }
+
+    const source = context.source || 'CHAT';
+    const counts = {
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cachedTokens: usage.cachedTokens || 0,
+    };
+
+    try {
+      const writes: Prisma.PrismaPromise<unknown>[] = [
+        prisma.tokenUsage.create({
+          data: {
+            userId: context.userId,
+            projectId: context.projectId,
+            chatSessionId: context.chatSessionId,
+            messageId: context.messageId,
+            source,
+            server: context.server,
+            toolName: context.toolName,
+            model: context.model,
+            ...counts,
+            totalTokens: usage.totalTokens,
+          },
+        }),
+      ];
+
+      if (source === 'CHAT' && context.messageId) {
+        writes.push(prisma.message.update({
+          where: { id: context.messageId },
+          data: {
+            tokenCount: { increment: usage.totalTokens },
+            promptTokens: { increment: counts.promptTokens },
+            completionTokens: { increment: counts.completionTokens },
+            cachedTokens: { increment: counts.cachedTokens },
+          },
+        }));
+      }
+      if (context.chatSessionId) {
+        writes.push(prisma.chatSession.update({
+          where: { id: context.chatSessionId },
+          data: { totalTokensUsed: { increment: usage.totalTokens } },
+        }));
+      }
+
+      await prisma.$transaction(writes);
+    } catch (error) {
+      logger.error('Failed to record token usage:', error);
+    }
+  }
+
+  async getUsage(filter: UsageFilter, groupBy: UsageGrouping): Promise<UsageReport> {
+    const where: Prisma.TokenUsageWhereInput = {
+      ...(filter.userId && { userId: filter.userId }),
+      ...(filter.projectId && { projectId: filter.projectId }),
+      ...(filter.chatSessionId && { chatSessionId: filter.chatSessionId }),
+      createdAt: { gte: filter.from, lt: filter.to },
+    };
+
+    try {
+      const groups = groupBy === 'day' || groupBy === 'month'
+        ? await this.groupByPeriod(where, groupBy)
+        : await this.groupByField(where, GROUP_FIELDS[groupBy]);
+
+      const totals = groups.reduce((sum, group) => addTotals(sum, group), emptyTotals());
+      return { totals, groups };
+    } catch (error) {
+      logger.error('Error fetching token usage:', error);
+      throw new Error('Failed to fetch token usage');
+    }
+  }
+
+  async listQuotas(): Promise<TokenQuota[]> {
+    try {
+      return await prisma.tokenQuota.findMany({ orderBy: [{ role: 'asc' }, { period: 'asc' }] });
+    } catch (error) {
+      logger.error('Error fetching token quotas:', error);
+      throw new Error('Failed to fetch token quotas');
+    }
+  }
+
+  async setQuota(role: Role, period: QuotaPeriod, limit: number): Promise<TokenQuota> {
+    try {
+      return await prisma.tokenQuota.upsert({
+        where: { role_period: { role, period } },
+        create: { role, period, limit },
+        update: { limit },
+      });
+    } catch (error) {
+      logger.error('Error saving token quota:', error);
+      throw new Error('Failed to save token quota');
+    }
+  }
+
+  async deleteQuota(role: Role, period: QuotaPeriod): Promise<void> {
+    try {
+      await prisma.tokenQuota.deleteMany({ where: { role, period } });
+    } catch (error) {
+      logger.error('Error deleting token quota:', error);
+      throw new Error('Failed to delete token quota');
+    }
+  }
+
+  // One entry per quota set for the user's role, in the current period
+  async getQuotaStatus(userId: string, role?: string): Promise<QuotaStatus[]> {
+    const quotas = await prisma.tokenQuota.findMany({
+      where: { role: await this.resolveRole(userId, role) },
+    });
+    const now = new Date();
+
+    return Promise.all(quotas.map(async quota => {
+      const { start, end } = periodBounds(quota.period, now);
+      const { _sum } = await prisma.tokenUsage.aggregate({
+        where: { userId, createdAt: { gte: start } },
+        _sum: { totalTokens: true },
+      });
+      const used = _sum.totalTokens || 0;
+
+      return {
+        period: quota.period,
+        limit: quota.limit,
+        used,
+        remaining: Math.max(0, quota.limit - used),
+        resetsAt: end,
+      };
+    }));
+  }
+
+  async findExceededQuota(userId: string, role?: string): Promise<QuotaStatus | null> {
+    const statuses = await this.getQuotaStatus(userId, role);
+    return statuses.find(status => status.remaining <= 0) || null;
+  }
+
+  // Call before asking a model for anything on the user's behalf
+  async assertWithinQuota(userId: string, role?: string): Promise<void> {
+    const exceeded = await this.findExceededQuota(userId, role);
+    if (exceeded) {
+      throw new TokenQuotaExceededError(exceeded.period, exceeded.limit, exceeded.used, exceeded.resetsAt);
+    }
+  }
+
+  // Sockets and tokens carry the role, but older tokens may not
+  private async resolveRole(userId: string, role?: string): Promise<Role> {
+    if (role && isRole(role)) {
+      return role;
+    }
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+    return user?.role || 'USER';
+  }
+
+  private async groupByField(
+    where: Prisma.TokenUsageWhereInput,
+    field: (typeof GROUP_FIELDS)[keyof typeof GROUP_FIELDS]
+  ): Promise<UsageReport['groups']> {
+    const rows = await prisma.tokenUsage.groupBy({
+      by: [field],
+      where,
+      _count: { _all: true },
+      _sum: { promptTokens: true, completionTokens: true, cachedTokens: true, totalTokens: true },
+    });
+
+    return rows
+      .map(row => ({
+        key: row[field] as string | null,
+        calls: row._count._all,
+        promptTokens: row._sum.promptTokens || 0,
+        completionTokens: row._sum.completionTokens || 0,
+        cachedTokens: row._sum.cachedTokens || 0,
+        totalTokens: row._sum.totalTokens || 0,
+      }))
+      .sort((a, b) => b.totalTokens - a.totalTokens);
+  }
+
+  // Prisma can't group on a truncated date, so buckets are summed here
+  private async groupByPeriod(
+    where: Prisma.TokenUsageWhereInput,
+    groupBy: 'day' | 'month'
+  ): Promise<UsageReport['groups']> {
+    const rows = await prisma.tokenUsage.findMany({
+      where,
+      select: { createdAt: true, promptTokens: true, completionTokens: true, cachedTokens: true, totalTokens: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const buckets = new Map<string, UsageTotals>();
+    for (const row of rows) {
+      const key = row.createdAt.toISOString().substring(0, groupBy === 'day' ? 10 : 7);
+      buckets.set(key, addTotals(buckets.get(key) || emptyTotals(), { ...row, calls: 1 }));
+    }
+    return Array.from(buckets, ([key, totals]) => ({ key, ...totals }));
+  }
+}
+
+// Quota periods are UTC calendar days and months
+export function periodBounds(period: QuotaPeriod, now: Date): { start: Date; end: Date } {
+  if (period === 'DAILY') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return { start, end: new Date(start.getTime() + DAY_MS) };
+  }
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+export function isRole(value: unknown): value is Role {
+  return value === 'USER' || value === 'ADMIN';
+}
+
+export function isQuotaPeriod(value: unknown): value is QuotaPeriod {
+  return value === 'DAILY' || value === 'MONTHLY';
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, cachedTokens: 0, totalTokens: 0 };
+}
+
+function addTotals(sum: UsageTotals, add: UsageTotals): UsageTotals {
+  return {
+    calls: sum.calls + add.calls,
+    promptTokens: sum.promptTokens + add.promptTokens,
+    completionTokens: sum.completionTokens + add.completionTokens,
+    cachedTokens: sum.cachedTokens + add.cachedTokens,
+    totalTokens: sum.totalTokens + add.totalTokens,
+  };
+}
+
+export const tokenUsageService = new TokenUsageService();
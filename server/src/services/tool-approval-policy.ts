@@ -0,0 +1,325 @@
+import { PrismaClient, Prisma, ToolApprovalPolicy, ApprovalAction } from '@prisma/client';
+import { createLogger } from '../utils/logger';
+import { matchesToolPattern } from '../utils/tool-pattern';
+
+const prisma = new PrismaClient();
+const logger = createLogger();
+
+export type PredicateOperator = 'equals' | 'notEquals' | 'contains' | 'matches' | 'exists' | 'in';
+
+// Matches a value in the tool arguments. A path of "*" checks every value, so
+// { path: '*', operator: 'contains', value: 'sys_script' } catches any argument mentioning it.
+export type ArgumentPredicate = {
+  path: string;
+  operator: PredicateOperator;
+  value?: Prisma.JsonValue;
+};
+
+export interface PolicyData {
+  projectId?: string | null;
+  toolPattern: string;
+  action: ApprovalAction;
+  conditions?: ArgumentPredicate[];
+  priority?: number;
+  description?: string;
+  enabled?: boolean;
+}
+
+export interface ApprovalDecision {
+  action: ApprovalAction;
+  policy?: ToolApprovalPolicy;
+  reason: string;
+}
+
+const PREDICATE_OPERATORS: PredicateOperator[] = ['equals', 'notEquals', 'contains', 'matches', 'exists', 'in'];
+
+// Breaks ties between equally ranked rules: the most cautious one wins
+const ACTION_SEVERITY: Record<ApprovalAction, number> = {
+  DENY: 2,
+  ASK: 1,
+  ALLOW: 0,
+};
+
+export class ToolApprovalPolicyService {
+  private defaultAction = resolveDefaultAction(process.env.TOOL_APPROVAL_DEFAULT_ACTION);
+
+  async listPolicies(userId: string, projectId?: string): Promise<ToolApprovalPolicy[]> {
+    try {
+      return await prisma.toolApprovalPolicy.findMany({
+        where: {
+          userId,
+          ...(projectId !== undefined && { projectId }),
+        },
+        orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      logger.error('Error fetching tool approval policies:', error);
+      throw new Error('Failed to fetch tool approval policies');
+    }
+  }
+
+  async createPolicy(userId: string, data: PolicyData): Promise<ToolApprovalPolicy> {
+    try {
+      await this.verifyProject(userId, data.projectId);
+
+      const policy = await prisma.toolApprovalPolicy.create({
+        data: {
+          userId,
+          projectId: data.projectId || null,
+          toolPattern: data.toolPattern,
+          action: data.action,
+          conditions: data.conditions || [],
+          priority: data.priority ?? 0,
+          description: data.description,
+          enabled: data.enabled ?? true,
+        },
+      });
+
+      logger.info(`Tool approval policy created: ${policy.action} ${policy.toolPattern} for user ${userId}`);
+      return policy;
+    } catch (error) {
+      logger.error('Error creating tool approval policy:', error);
+      throw error;
+    }
+  }
+
+  async updatePolicy(policyId: string, userId: string, data: Partial<PolicyData>): Promise<ToolApprovalPolicy | null> {
+    try {
+      const existing = await prisma.toolApprovalPolicy.findFirst({
+        where: { id: policyId, userId },
+      });
+
+      if (!existing) {
+        return null;
+      }
+
+      await this.verifyProject(userId, data.projectId);
+
+      return await prisma.toolApprovalPolicy.update({
+        where: { id: policyId },
+        data: {
+          projectId: data.projectId,
+          toolPattern: data.toolPattern,
+          action: data.action,
+          conditions: data.conditions,
+          priority: data.priority,
+          description: data.description,
+          enabled: data.enabled,
+        },
+      });
+    } catch (error) {
+      logger.error('Error updating tool approval policy:', error);
+      throw error;
+    }
+  }
+
+  async deletePolicy(policyId: string, userId: string): Promise<boolean> {
+    try {
+      const existing = await prisma.toolApprovalPolicy.findFirst({
+        where: { id: policyId, userId },
+      });
+
+      if (!existing) {
+        return false;
+      }
+
+      await prisma.toolApprovalPolicy.delete({
+        where: { id: policyId },
+      });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting tool approval policy:', error);
+      throw error;
+    }
+  }
+
+  // Remembers an "always allow" choice from the approval dialog
+  async rememberApproval(userId: string, toolName: string, projectId?: string): Promise<ToolApprovalPolicy> {
+    const existing = await prisma.toolApprovalPolicy.findFirst({
+      where: {
+        userId,
+        projectId: projectId || null,
+        toolPattern: toolName,
+        action: ApprovalAction.ALLOW,
+        enabled: true,
+      },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    return this.createPolicy(userId, {
+      projectId,
+      toolPattern: toolName,
+      action: ApprovalAction.ALLOW,
+      description: projectId ? 'Always allowed for this project' : 'Always allowed',
+    });
+  }
+
+  async evaluate(
+    userId: string,
+    toolName: string,
+    args: any,
+    projectId?: string
+  ): Promise<ApprovalDecision> {
+    const policies = await prisma.toolApprovalPolicy.findMany({
+      where: {
+        userId,
+        enabled: true,
+        OR: [{ projectId: null }, ...(projectId ? [{ projectId }] : [])],
+      },
+    });
+
+    // Priority first, then the more specific rule: a project rule over a user-wide one,
+    // an exact tool name over a glob. So "ask for everything" can carve out an ALLOW for
+    // one tool, and "always allow for this project" lifts a user-wide ASK. Only a tie
+    // falls back to the most cautious action.
+    const ranked = policies.sort((a, b) =>
+      b.priority - a.priority ||
+      Number(!!b.projectId) - Number(!!a.projectId) ||
+      patternSpecificity(b.toolPattern) - patternSpecificity(a.toolPattern) ||
+      ACTION_SEVERITY[b.action] - ACTION_SEVERITY[a.action]
+    );
+
+    const match = ranked.find(policy =>
+      matchesToolPattern(policy.toolPattern, toolName) &&
+      matchesConditions(readConditions(policy.conditions), args)
+    );
+
+    if (match) {
+      return {
+        action: match.action,
+        policy: match,
+        reason: match.description || `Matched ${match.action.toLowerCase()} rule for "${match.toolPattern}"`,
+      };
+    }
+
+    return { action: this.defaultAction, reason: 'No matching approval policy' };
+  }
+
+  private async verifyProject(userId: string, projectId?: string | null): Promise<void> {
+    if (!projectId) return;
+
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, userId },
+    });
+
+    if (!project) {
+      throw new Error('Project not found or access denied');
+    }
+  }
+}
+
+// An exact tool name outranks any glob; between globs, the one with more literal text
+function patternSpecificity(pattern: string): number {
+  return /[*?]/.test(pattern) ? pattern.replace(/[*?]/g, '').length : Number.MAX_SAFE_INTEGER;
+}
+
+// An unknown default would otherwise reach the client as an action it can't handle
+function resolveDefaultAction(value?: string): ApprovalAction {
+  const action = (value || ApprovalAction.ASK).toUpperCase();
+  if (isApprovalAction(action)) {
+    return action;
+  }
+  logger.warn(`Ignoring invalid TOOL_APPROVAL_DEFAULT_ACTION "${value}", using ASK`);
+  return ApprovalAction.ASK;
+}
+
+function isApprovalAction(value: unknown): value is ApprovalAction {
+  return Object.values(ApprovalAction).includes(value as ApprovalAction);
+}
+
+// Conditions are validated before they're saved, so an array here holds predicates
+function readConditions(conditions: Prisma.JsonValue): ArgumentPredicate[] {
+  return Array.isArray(conditions) ? (conditions as ArgumentPredicate[]) : [];
+}
+
+export function validatePolicyData(data: any, partial = false): string | null {
+  if (!partial || data.toolPattern !== undefined) {
+    if (typeof data.toolPattern !== 'string' || data.toolPattern.trim().length === 0) {
+      return 'toolPattern is required';
+    }
+  }
+  if (!partial || data.action !== undefined) {
+    if (!isApprovalAction(data.action)) {
+      return `action must be one of: ${Object.values(ApprovalAction).join(', ')}`;
+    }
+  }
+  if (data.priority !== undefined && !Number.isInteger(data.priority)) {
+    return 'priority must be an integer';
+  }
+  if (data.conditions !== undefined) {
+    if (!Array.isArray(data.conditions)) {
+      return 'conditions must be an array';
+    }
+    for (const condition of data.conditions) {
+      if (!condition || typeof condition.path !== 'string' || !PREDICATE_OPERATORS.includes(condition.operator)) {
+        return `Each condition needs a path and an operator (${PREDICATE_OPERATORS.join(', ')})`;
+      }
+      if (condition.operator === 'in' && !Array.isArray(condition.value)) {
+        return 'The "in" operator needs an array value';
+      }
+      if (condition.operator === 'matches') {
+        try {
+          new RegExp(condition.value);
+        } catch {
+          return `Invalid regular expression: ${condition.value}`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export function matchesConditions(conditions: ArgumentPredicate[], args: any): boolean {
+  return conditions.every(condition => {
+    const values = condition.path === '*'
+      ? collectValues(args)
+      : [getPath(args, condition.path)];
+
+    if (condition.operator === 'notEquals') {
+      return values.every(value => !valueEquals(value, condition.value));
+    }
+    return values.some(value => matchesPredicate(condition, value));
+  });
+}
+
+function matchesPredicate(condition: ArgumentPredicate, value: any): boolean {
+  switch (condition.operator) {
+    case 'exists':
+      return value !== undefined && value !== null;
+    case 'equals':
+      return valueEquals(value, condition.value);
+    case 'contains':
+      return value !== undefined && value !== null &&
+        String(typeof value === 'object' ? JSON.stringify(value) : value)
+          .toLowerCase()
+          .includes(String(condition.value).toLowerCase());
+    case 'matches':
+      return typeof value === 'string' && new RegExp(String(condition.value), 'i').test(value);
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.some(item => valueEquals(value, item));
+    default:
+      return false;
+  }
+}
+
+function valueEquals(value: any, expected: any): boolean {
+  if (typeof value === 'string' && typeof expected === 'string') {
+    return value.toLowerCase() === expected.toLowerCase();
+  }
+  return value === expected;
+}
+
+function getPath(source: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), source);
+}
+
+function collectValues(source: any): any[] {
+  if (source === null || source === undefined) return [];
+  if (typeof source !== 'object') return [source];
+  return Object.values(source).flatMap(collectValues);
+}
+
+export const toolApprovalPolicyService = new ToolApprovalPolicyService();
@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import { getEnhancedMCPClient } from './mcp/enhanced-mcp-client';
 import { MCPParameterTransformer } from './mcp/mcp-parameter-transformer';
+import { parameterRules } from './mcp/parameter-rules';
 import { createLogger } from './utils/logger';
 
 dotenv.config();
@@ -105,7 +106,7 @@ async function testMCPParameters() {
     ];
     
     for (const message of extractionTests) {
-      const extracted = MCPParameterTransformer.extractCatalogItemName(message);
+      const extracted = parameterRules.apply('servicenow-mcp:create-catalog-item', {}, message).fields.name;
       logger.info(`Message: "${message}" => Extracted: "${extracted}"`);
     }
     
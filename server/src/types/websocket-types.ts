@@ -22,8 +22,24 @@ export interface ChatMessage {
   isStreaming?: boolean;
   isThinking?: boolean;
   currentTool?: string;
+  sources?: MessageSource[];
 }
 
+// Project document excerpt the assistant was grounded on. A type alias, not an
+// interface, so it can be stored in the message's Json sources column
+export type MessageSource = {
+  index: number;
+  projectId: string;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  chunkIndex: number;
+  page?: number;
+  section?: string;
+  score: number;
+  excerpt: string;
+};
+
 // Client to Server Events
 export interface ClientToServerEvents {
   // Chat message events
@@ -31,6 +47,9 @@ export interface ClientToServerEvents {
     message: string;
     model: string;
     sessionId?: string;
+    projectId?: string;
+    planMode?: boolean; // Propose tool calls as a plan instead of running them
+    resources?: Array<{ server: string; uri: string; name?: string }>; // MCP resources attached as context
   }) => void;
 
   // Tool retry events
@@ -47,6 +66,11 @@ export interface ClientToServerEvents {
     messageId: string;
   }) => void;
 
+  // Stop the response in progress: the LLM stream, running tools and pending approvals
+  'chat:cancel': (data: {
+    messageId?: string; // Every response in progress on this socket when omitted
+  }) => void;
+
   // Connection events
   'disconnect': () => void;
   'connect': () => void;
@@ -78,7 +102,8 @@ export interface ServerToClientEvents {
   'chat:tool_progress': (data: {
     messageId: string;
     toolName: string;
-    progress: number; // 0-100
+    progress?: number; // 0-100, absent when the MCP server doesn't report a total
+    message?: string;
   }) => void;
 
   'chat:tool_complete': (data: {
@@ -92,6 +117,7 @@ export interface ServerToClientEvents {
     messageId: string;
     toolName: string;
     error: string;
+    status?: 'cancelled' | 'timeout'; // Set when the tool was stopped rather than failing
   }) => void;
 
   // Text streaming events
@@ -100,11 +126,21 @@ export interface ServerToClientEvents {
     chunk: string;
   }) => void;
 
+  // An MCP server changed its tool list (notifications/tools/list_changed)
+  'tools:updated': (data: {
+    tools: Array<{ name: string; description?: string }>;
+    count: number;
+    updatedAt: string;
+  }) => void;
+
   // Error events
   'chat:error': (data: {
     message: string;
     error: string;
     messageId?: string;
+    // e.g. TOKEN_QUOTA_EXCEEDED, with quota: { period, limit, used, resetsAt }
+    code?: string;
+    quota?: { period: string; limit: number; used: number; resetsAt: string };
   }) => void;
 
   // Legacy events (for backward compatibility)
@@ -0,0 +1,17 @@
+import { matchesToolPattern } from '../tool-pattern';
+
+describe('matchesToolPattern', () => {
+  it('matches globs against the full name or the name without its server', () => {
+    expect(matchesToolPattern('servicenow-mcp:query-*', 'servicenow-mcp:query-records')).toBe(true);
+    expect(matchesToolPattern('query-*', 'servicenow-mcp:query-records')).toBe(true);
+    expect(matchesToolPattern('QUERY-RECORDS', 'servicenow-mcp:query-records')).toBe(true);
+    expect(matchesToolPattern('get-?', 'get-1')).toBe(true);
+    expect(matchesToolPattern('get-?', 'get-10')).toBe(false);
+    expect(matchesToolPattern('delete-*', 'servicenow-mcp:query-records')).toBe(false);
+  });
+
+  it('treats regex characters in the pattern literally', () => {
+    expect(matchesToolPattern('a.b', 'a.b')).toBe(true);
+    expect(matchesToolPattern('a.b', 'axb')).toBe(false);
+  });
+});
@@ -1,4 +1,5 @@
 import { createLogger } from './logger';
+import { LLMUsage } from '../llm/llm-interface';
 
 const logger = createLogger();
 
@@ -54,6 +55,46 @@ export class ToolApprovalTimeoutError extends ServiceNowMCPError {
   }
 }
 
+export class ToolTimeoutError extends ServiceNowMCPError {
+  constructor(toolName: string, timeoutMs: number) {
+    const message = `Tool timed out after ${timeoutMs}ms: ${toolName}`;
+    const details = { toolName, timeoutMs };
+
+    super(message, 'TOOL_TIMEOUT', details, false);
+  }
+}
+
+// The user stopped the response; not a failure, so never retried or counted against the tool
+export class OperationCancelledError extends ServiceNowMCPError {
+  // Set when a model stream was stopped, the tokens it used are still billed
+  constructor(operation: string, public readonly usage?: LLMUsage) {
+    const message = `Cancelled by user: ${operation}`;
+    const details = { operation };
+
+    super(message, 'OPERATION_CANCELLED', details, false);
+  }
+}
+
+// Thrown by a server's pool while its circuit breaker is open, instead of waiting on a server that keeps failing
+export class CircuitOpenError extends ServiceNowMCPError {
+  constructor(serverName: string, retryAfterMs: number) {
+    const message = `MCP server ${serverName} is unavailable after repeated failures, retry in ${Math.ceil(retryAfterMs / 1000)}s`;
+    const details = { serverName, retryAfterMs };
+
+    super(message, 'CIRCUIT_OPEN', details, false);
+  }
+}
+
+// The user's role has used up a token quota; the message never reaches the model
+export class TokenQuotaExceededError extends ServiceNowMCPError {
+  constructor(period: string, limit: number, used: number, resetsAt: Date) {
+    const message = `${period === 'DAILY' ? 'Daily' : 'Monthly'} token quota reached: ${used.toLocaleString('en-US')} of ${limit.toLocaleString('en-US')} tokens used. It resets at ${resetsAt.toISOString()}.`;
+    const details = { period, limit, used, resetsAt };
+
+    super(message, 'TOKEN_QUOTA_EXCEEDED', details, false);
+  }
+}
+
 export class LLMServiceError extends ServiceNowMCPError {
   constructor(provider: string, originalError: any, retryable = true) {
     const message = `LLM service failed: ${provider}`;
@@ -0,0 +1,12 @@
+import { Prisma } from '@prisma/client';
+
+// Json columns can hold any JSON value, ours mostly hold objects
+export function isJsonObject(value: Prisma.JsonValue | undefined): value is Prisma.JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Tool results and MCP log entries arrived as JSON but are typed with interfaces,
+// which TypeScript won't accept as Json without an index signature
+export function asJsonValue(value: object): Prisma.InputJsonValue {
+  return value as Prisma.InputJsonValue;
+}
@@ -285,7 +285,7 @@ export class ResultFormatter {
   
   private getToolDisplayName(toolName: string): string {
     return toolName
-      .replace('servicenow-mcp:', '')
+      .split(':').pop()!
       .split('-')
       .map(word => word.charAt(0).toUpperCase() + word.slice(1))
       .join(' ');
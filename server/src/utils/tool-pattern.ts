@@ -0,0 +1,13 @@
+// Globs ("*", "?") match either the full tool name or the name without its server prefix
+export function matchesToolPattern(pattern: string, toolName: string): boolean {
+  const regex = new RegExp(
+    '^' + pattern.split('*').map(part => part.split('?').map(escapeRegex).join('.')).join('.*') + '$',
+    'i'
+  );
+  const shortName = toolName.includes(':') ? toolName.substring(toolName.lastIndexOf(':') + 1) : toolName;
+  return regex.test(toolName) || regex.test(shortName);
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
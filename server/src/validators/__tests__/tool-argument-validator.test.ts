@@ -0,0 +1,74 @@
+import { formatToolArgumentIssues, ToolArgumentValidator } from '../tool-argument-validator';
+
+const schema = {
+  type: 'object',
+  properties: {
+    table: { type: 'string', enum: ['incident', 'problem'] },
+    limit: { type: 'integer' },
+    active: { type: 'boolean' },
+    fields: { type: 'array', items: { type: 'string' } },
+    order: { type: 'string', default: 'sys_created_on' }
+  },
+  required: ['table'],
+  additionalProperties: false
+};
+
+describe('ToolArgumentValidator', () => {
+  let validator: ToolArgumentValidator;
+
+  beforeEach(() => {
+    validator = new ToolArgumentValidator();
+  });
+
+  it('coerces strings to the schema types and fills defaults', () => {
+    const args = { table: 'incident', limit: '5', active: 'true' };
+    const result = validator.validate('query-records', schema, args);
+
+    expect(result).toEqual({
+      valid: true,
+      arguments: { table: 'incident', limit: 5, active: true, order: 'sys_created_on' },
+      issues: []
+    });
+    // The caller's arguments are left as they were
+    expect(args).toEqual({ table: 'incident', limit: '5', active: 'true' });
+  });
+
+  it('reports every issue with its path', () => {
+    const result = validator.validate('query-records', schema, { table: 'change', limit: 'five', extra: 1 });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual(expect.arrayContaining([
+      { path: 'extra', message: 'is not an accepted argument', keyword: 'additionalProperties' },
+      { path: 'table', message: 'must be one of "incident", "problem"', keyword: 'enum' },
+      { path: 'limit', message: 'must be integer (got "five")', keyword: 'type' }
+    ]));
+  });
+
+  it('names missing required arguments', () => {
+    const result = validator.validate('query-records', schema, {});
+    expect(result.issues).toEqual([{ path: 'table', message: 'is required', keyword: 'required' }]);
+  });
+
+  it('skips tools without a schema or with one that does not compile', () => {
+    const args = { anything: true };
+    expect(validator.validate('no-schema', undefined, args)).toEqual({ valid: true, arguments: args, issues: [] });
+    expect(validator.validate('bad-schema', { type: 'object', properties: { a: { type: 'nonsense' } } }, args).valid)
+      .toBe(true);
+  });
+
+  it('ignores the draft a server declares', () => {
+    const declared = { ...schema, $schema: 'https://json-schema.org/draft/2020-12/schema' };
+    expect(validator.validate('query-records', declared, { table: 'incident' }).valid).toBe(true);
+  });
+});
+
+describe('formatToolArgumentIssues', () => {
+  it('tells the model what to fix', () => {
+    expect(formatToolArgumentIssues('query-records', [{ path: 'table', message: 'is required', keyword: 'required' }]))
+      .toBe([
+        'Invalid arguments for tool query-records. The tool was not called.',
+        '- table: is required',
+        'Correct these arguments and call the tool again.'
+      ].join('\n'));
+  });
+});
@@ -0,0 +1,127 @@
+import Ajv from 'ajv';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+
+// A type alias so issues can be stored in Json columns as they are
+export type ToolArgumentIssue = {
+  path: string;
+  message: string;
+  keyword: string;
+};
+
+export interface ToolArgumentValidationResult {
+  valid: boolean;
+  // Arguments after type coercion ("5" -> 5, "true" -> true), only meaningful when valid
+  arguments: any;
+  issues: ToolArgumentIssue[];
+}
+
+export class ToolArgumentValidator {
+  private ajv = new Ajv({
+    allErrors: true,
+    coerceTypes: true,
+    useDefaults: true,
+    verbose: true,
+    unknownFormats: 'ignore'
+  });
+  // Tool lists are rebuilt when servers change them, so compiled schemas go with the old objects
+  private compiled = new WeakMap<object, Ajv.ValidateFunction | null>();
+
+  /**
+   * Check arguments against a tool's inputSchema. Schemas that can't be
+   * compiled are logged and skipped so a quirky server doesn't block its tools.
+   */
+  validate(toolName: string, inputSchema: any, args: any): ToolArgumentValidationResult {
+    const validateFn = this.getValidator(toolName, inputSchema);
+    if (!validateFn) {
+      return { valid: true, arguments: args, issues: [] };
+    }
+
+    // Coercion rewrites the data in place, keep the caller's copy intact
+    const candidate = args && typeof args === 'object' ? JSON.parse(JSON.stringify(args)) : args ?? {};
+    if (validateFn(candidate)) {
+      return { valid: true, arguments: candidate, issues: [] };
+    }
+
+    return {
+      valid: false,
+      arguments: args,
+      issues: (validateFn.errors || []).map(toIssue)
+    };
+  }
+
+  private getValidator(toolName: string, inputSchema: any): Ajv.ValidateFunction | null {
+    if (!inputSchema || typeof inputSchema !== 'object') {
+      return null;
+    }
+
+    const cached = this.compiled.get(inputSchema);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let validateFn: Ajv.ValidateFunction | null = null;
+    try {
+      // Servers declare various drafts; Ajv only knows draft-07 by default
+      const { $schema, ...schema } = inputSchema;
+      validateFn = this.ajv.compile(schema);
+    } catch (error) {
+      logger.warn(`Skipping argument validation for ${toolName}, its inputSchema does not compile:`, error);
+    }
+
+    this.compiled.set(inputSchema, validateFn);
+    return validateFn;
+  }
+}
+
+function toIssue(error: Ajv.ErrorObject): ToolArgumentIssue {
+  const base = error.dataPath.replace(/^\./, '');
+
+  // The keyword decides which kind of params Ajv reports
+  switch (error.keyword) {
+    case 'required': {
+      const { missingProperty } = error.params as Ajv.RequiredParams;
+      return { path: joinPath(base, missingProperty), message: 'is required', keyword: error.keyword };
+    }
+    case 'additionalProperties': {
+      const { additionalProperty } = error.params as Ajv.AdditionalPropertiesParams;
+      return { path: joinPath(base, additionalProperty), message: 'is not an accepted argument', keyword: error.keyword };
+    }
+    case 'enum': {
+      const { allowedValues } = error.params as Ajv.EnumParams;
+      return {
+        path: base || '(arguments)',
+        message: `must be one of ${allowedValues.map(value => JSON.stringify(value)).join(', ')}`,
+        keyword: error.keyword
+      };
+    }
+    case 'type':
+      return {
+        path: base || '(arguments)',
+        message: `must be ${(error.params as Ajv.TypeParams).type} (got ${JSON.stringify(error.data)})`,
+        keyword: error.keyword
+      };
+    default:
+      return {
+        path: base || '(arguments)',
+        message: (error.message || 'is invalid').replace(/^should/, 'must'),
+        keyword: error.keyword
+      };
+  }
+}
+
+function joinPath(base: string, property: string): string {
+  return base ? `${base}.${property}` : property;
+}
+
+// Written for the LLM: it gets this as the tool result and can call again with fixed arguments
+export function formatToolArgumentIssues(toolName: string, issues: ToolArgumentIssue[]): string {
+  return [
+    `Invalid arguments for tool ${toolName}. The tool was not called.`,
+    ...issues.map(issue => `- ${issue.path}: ${issue.message}`),
+    'Correct these arguments and call the tool again.'
+  ].join('\n');
+}
+
+export const toolArgumentValidator = new ToolArgumentValidator();
@@ -0,0 +1,330 @@
+import { LLMMessage, LLMResponse } from '../../llm/llm-interface';
+
+// Every model method resolves; creates echo their data back with an id
+jest.mock('@prisma/client', () => {
+  let nextId = 0;
+  const model = () => ({
+    create: jest.fn(async (args: any) => ({ id: `row-${++nextId}`, createdAt: new Date(), ...args?.data })),
+    update: jest.fn(async (args: any) => ({ ...args?.data })),
+    findMany: jest.fn(async () => []),
+    findUnique: jest.fn(async () => null),
+    findFirst: jest.fn(async () => null),
+    aggregate: jest.fn(async () => ({ _sum: {} }))
+  });
+  class PrismaClient {
+    [key: string]: any;
+    constructor() {
+      return new Proxy(this, {
+        get: (target, prop: string) => {
+          if (prop === '$transaction') {
+            return (writes: Promise<unknown>[]) => Promise.all(writes);
+          }
+          if (!(prop in target)) {
+            target[prop] = model();
+          }
+          return target[prop];
+        }
+      });
+    }
+  }
+  return {
+    PrismaClient,
+    ApprovalAction: { ALLOW: 'ALLOW', ASK: 'ASK', DENY: 'DENY' },
+    ToolExecutionStatus: { COMPLETED: 'COMPLETED', FAILED: 'FAILED', CANCELLED: 'CANCELLED', TIMEOUT: 'TIMEOUT' }
+  };
+});
+
+const generateResponse = jest.fn<Promise<LLMResponse>, [LLMMessage[], any, any]>();
+jest.mock('../../llm/llm-factory', () => ({
+  createLLMService: () => ({
+    setAvailableTools: jest.fn(),
+    generateResponse: (...args: [LLMMessage[], any, any]) => generateResponse(...args)
+  })
+}));
+
+import { EnhancedChatHandlerWithApproval } from '../enhanced-chat-handler-with-approval';
+import { MCPClientManager } from '../../mcp/mcp-client';
+import { AuthenticatedSocket } from '../../middleware/socketAuth';
+import { toolApprovalPolicyService } from '../../services/tool-approval-policy';
+import { tokenUsageService } from '../../services/token-usage';
+import { mcpServerRegistry } from '../../mcp/mcp-server-registry';
+import { globalErrorRecovery, OperationCancelledError, TokenQuotaExceededError } from '../../utils/error-handler';
+
+const QUERY_TOOL = 'servicenow-mcp:query-records';
+
+type TestSocket = AuthenticatedSocket & { emit: jest.Mock };
+
+function createSocket(): TestSocket {
+  const socket = {
+    id: 'socket-1',
+    user: { userId: 'user-1', email: 'user@example.com', role: 'USER' },
+    emit: jest.fn()
+  };
+  return socket as unknown as TestSocket;
+}
+
+function emitted(socket: TestSocket, event: string): any[] {
+  return socket.emit.mock.calls.filter(([name]) => name === event).map(([, data]) => data);
+}
+
+function toolCallResponse(id: string, message = ''): LLMResponse {
+  return {
+    message,
+    toolCalls: [{ id, name: QUERY_TOOL, arguments: { table: 'incident' } }],
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+  };
+}
+
+describe('EnhancedChatHandlerWithApproval tool loop', () => {
+  const originalMaxRounds = process.env.AGENT_MAX_TOOL_ITERATIONS;
+  let executeTool: jest.Mock;
+  let evaluate: jest.SpyInstance;
+
+  beforeEach(() => {
+    generateResponse.mockReset();
+    executeTool = jest.fn(async () => ({ content: [{ type: 'text', text: '3 incidents found' }] }));
+    evaluate = jest.spyOn(toolApprovalPolicyService, 'evaluate').mockResolvedValue({ action: 'ALLOW', reason: 'test' });
+  });
+
+  afterEach(() => {
+    evaluate.mockRestore();
+    process.env.AGENT_MAX_TOOL_ITERATIONS = originalMaxRounds;
+  });
+
+  function createHandler() {
+    const mcpClientManager = { getAvailableTools: () => [], executeTool };
+    return new EnhancedChatHandlerWithApproval(mcpClientManager as unknown as MCPClientManager);
+  }
+
+  it('sends tool results back to the model in the same turn', async () => {
+    generateResponse
+      .mockResolvedValueOnce(toolCallResponse('call-1', 'Let me look.'))
+      .mockResolvedValueOnce({ message: 'There are 3 incidents.', toolCalls: [] });
+    const socket = createSocket();
+
+    await createHandler().handleMessage(socket, { message: 'How many incidents?' });
+
+    expect(executeTool).toHaveBeenCalledTimes(1);
+    expect(generateResponse).toHaveBeenCalledTimes(2);
+
+    const secondRound = generateResponse.mock.calls[1][0];
+    expect(secondRound.slice(-2)).toEqual([
+      { role: 'assistant', content: 'Let me look.', toolCalls: [expect.objectContaining({ id: 'call-1' })] },
+      { role: 'tool', toolCallId: 'call-1', toolName: QUERY_TOOL, content: '3 incidents found', isError: false }
+    ]);
+
+    const [complete] = emitted(socket, 'chat:stream_complete');
+    expect(complete.message.content).toBe('Let me look.\n\nThere are 3 incidents.');
+  });
+
+  it('gives the model argument errors in the same turn', async () => {
+    executeTool.mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'Invalid arguments for tool query-records.' }],
+      isError: true,
+      validationErrors: [{ path: 'table', message: 'is required', keyword: 'required' }]
+    });
+    generateResponse
+      .mockResolvedValueOnce(toolCallResponse('call-1'))
+      .mockResolvedValueOnce({ message: 'Fixed.', toolCalls: [] });
+
+    await createHandler().handleMessage(createSocket(), { message: 'How many incidents?' });
+
+    const toolMessage = generateResponse.mock.calls[1][0].find(message => message.role === 'tool');
+    expect(toolMessage).toMatchObject({ content: 'Invalid arguments for tool query-records.', isError: true });
+  });
+
+  it('tells the model when a tool\'s server is disabled for the project', async () => {
+    const enabled = jest.spyOn(mcpServerRegistry, 'isServerEnabledForProject').mockReturnValue(false);
+    generateResponse
+      .mockResolvedValueOnce(toolCallResponse('call-1'))
+      .mockResolvedValueOnce({ message: 'That server is off.', toolCalls: [] });
+    const socket = createSocket();
+
+    await createHandler().handleMessage(socket, { message: 'How many incidents?' });
+
+    expect(executeTool).not.toHaveBeenCalled();
+    const toolMessage = generateResponse.mock.calls[1][0].find(message => message.role === 'tool');
+    expect(toolMessage).toMatchObject({ content: expect.stringContaining('is disabled for this project'), isError: true });
+    expect(emitted(socket, 'chat:stream_complete')).toHaveLength(1);
+    enabled.mockRestore();
+  });
+
+  it('tells the model when a tool\'s circuit breaker is open', async () => {
+    const shouldAttempt = jest.spyOn(globalErrorRecovery, 'shouldAttemptOperation').mockReturnValue(false);
+    generateResponse
+      .mockResolvedValueOnce(toolCallResponse('call-1'))
+      .mockResolvedValueOnce({ message: 'The tool is failing.', toolCalls: [] });
+    const socket = createSocket();
+
+    await createHandler().handleMessage(socket, { message: 'How many incidents?' });
+
+    expect(executeTool).not.toHaveBeenCalled();
+    const toolMessage = generateResponse.mock.calls[1][0].find(message => message.role === 'tool');
+    expect(toolMessage).toMatchObject({ content: expect.stringContaining('repeated failures'), isError: true });
+    expect(emitted(socket, 'chat:stream_complete')).toHaveLength(1);
+    shouldAttempt.mockRestore();
+  });
+
+  it('stops the tool loop once the token quota runs out', async () => {
+    const assertWithinQuota = jest.spyOn(tokenUsageService, 'assertWithinQuota')
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new TokenQuotaExceededError('DAILY', 1000, 1000, new Date()));
+    generateResponse.mockResolvedValueOnce(toolCallResponse('call-1', 'Let me look.'));
+    const socket = createSocket();
+
+    await createHandler().handleMessage(socket, { message: 'How many incidents?' });
+
+    expect(executeTool).toHaveBeenCalledTimes(1);
+    expect(generateResponse).toHaveBeenCalledTimes(1);
+    expect(emitted(socket, 'chat:error')).toEqual([expect.objectContaining({ error: 'Token quota exceeded' })]);
+    const [complete] = emitted(socket, 'chat:stream_complete');
+    expect(complete.message.content).toBe('Let me look.');
+    assertWithinQuota.mockRestore();
+  });
+
+  it('bills the tokens a cancelled response used', async () => {
+    const recordUsage = jest.spyOn(tokenUsageService, 'recordUsage');
+    const usage = { promptTokens: 100, completionTokens: 3, totalTokens: 103 };
+    generateResponse.mockRejectedValueOnce(new OperationCancelledError('LLM response', usage));
+    const socket = createSocket();
+
+    await createHandler().handleMessage(socket, { message: 'How many incidents?' });
+
+    expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1' }), usage);
+    expect(emitted(socket, 'chat:stream_complete')).toHaveLength(1);
+    recordUsage.mockRestore();
+  });
+
+  it('counts only the rounds that ran tools against the limit', async () => {
+    process.env.AGENT_MAX_TOOL_ITERATIONS = '2';
+    generateResponse.mockImplementation(async () => toolCallResponse(`call-${generateResponse.mock.calls.length}`));
+    const socket = createSocket();
+
+    await createHandler().handleMessage(socket, { message: 'Keep going' });
+
+    expect(executeTool).toHaveBeenCalledTimes(2);
+    expect(generateResponse).toHaveBeenCalledTimes(3);
+    const [complete] = emitted(socket, 'chat:stream_complete');
+    expect(complete.message.content).toContain('I stopped after 2 rounds of tool calls');
+  });
+
+  it('continues the loop once an asked-for tool is approved', async () => {
+    evaluate.mockResolvedValue({ action: 'ASK', reason: 'test' });
+    generateResponse
+      .mockResolvedValueOnce(toolCallResponse('call-1'))
+      .mockResolvedValueOnce({ message: 'Done.', toolCalls: [] });
+    const socket = createSocket();
+    const handler = createHandler();
+
+    await handler.handleMessage(socket, { message: 'How many incidents?' });
+    expect(generateResponse).toHaveBeenCalledTimes(1);
+
+    const [approval] = emitted(socket, 'tool:approval_required');
+    await handler.handleToolApproval(socket, { id: approval.id, approved: true });
+
+    expect(executeTool).toHaveBeenCalledTimes(1);
+    expect(generateResponse).toHaveBeenCalledTimes(2);
+    expect(emitted(socket, 'chat:stream_complete')).toHaveLength(1);
+    handler.cleanup(socket.id);
+  });
+
+  it('tells the model when the user denies a tool', async () => {
+    evaluate.mockResolvedValue({ action: 'ASK', reason: 'test' });
+    generateResponse
+      .mockResolvedValueOnce(toolCallResponse('call-1'))
+      .mockResolvedValueOnce({ message: 'Understood.', toolCalls: [] });
+    const socket = createSocket();
+    const handler = createHandler();
+
+    await handler.handleMessage(socket, { message: 'Delete it' });
+    const [approval] = emitted(socket, 'tool:approval_required');
+    await handler.handleToolApproval(socket, { id: approval.id, approved: false });
+
+    expect(executeTool).not.toHaveBeenCalled();
+    const toolMessage = generateResponse.mock.calls[1][0].find(message => message.role === 'tool');
+    expect(toolMessage).toMatchObject({ content: 'Error: User denied permission', isError: true });
+    handler.cleanup(socket.id);
+  });
+});
+
+describe('EnhancedChatHandlerWithApproval plan responses', () => {
+  let executeTool: jest.Mock;
+
+  beforeEach(() => {
+    generateResponse.mockReset();
+    executeTool = jest.fn(async () => ({ content: [{ type: 'text', text: 'done' }] }));
+  });
+
+  async function proposePlan() {
+    generateResponse
+      .mockResolvedValueOnce(toolCallResponse('call-1', 'Here is the plan.'))
+      .mockResolvedValueOnce({ message: 'Closed it.', toolCalls: [] });
+    const mcpClientManager = { getAvailableTools: () => [], executeTool };
+    const handler = new EnhancedChatHandlerWithApproval(mcpClientManager as unknown as MCPClientManager);
+    const socket = createSocket();
+
+    await handler.handleMessage(socket, { message: 'Close the incident', planMode: true });
+    const [plan] = emitted(socket, 'chat:plan_proposed');
+    return { handler, socket, plan };
+  }
+
+  it('keeps the turn open for review and gives the model the step results', async () => {
+    const { handler, socket, plan } = await proposePlan();
+    expect(emitted(socket, 'chat:stream_complete')).toHaveLength(0);
+
+    await handler.handlePlanResponse(socket, { planId: plan.id, approved: true });
+
+    expect(generateResponse).toHaveBeenCalledTimes(2);
+    expect(generateResponse.mock.calls[1][0].slice(-2)).toEqual([
+      { role: 'assistant', content: 'Here is the plan.', toolCalls: [expect.objectContaining({ id: 'call-1' })] },
+      { role: 'tool', toolCallId: 'call-1', toolName: QUERY_TOOL, content: 'done', isError: false }
+    ]);
+
+    const completions = emitted(socket, 'chat:stream_complete');
+    expect(completions).toHaveLength(1);
+    expect(completions[0].message.content).toBe('Here is the plan.\n\nClosed it.');
+  });
+
+  it('tells the model when the plan is rejected', async () => {
+    const { handler, socket, plan } = await proposePlan();
+
+    await handler.handlePlanResponse(socket, { planId: plan.id, approved: false });
+
+    expect(executeTool).not.toHaveBeenCalled();
+    const toolMessage = generateResponse.mock.calls[1][0].find(message => message.role === 'tool');
+    expect(toolMessage).toMatchObject({ content: 'Error: Plan cancelled by user', isError: true });
+    expect(emitted(socket, 'chat:stream_complete')).toHaveLength(1);
+  });
+
+  it('withdraws the plan when the response is cancelled', async () => {
+    const { handler, socket, plan } = await proposePlan();
+
+    await handler.handleCancel(socket, { messageId: plan.messageId });
+    await handler.handlePlanResponse(socket, { planId: plan.id, approved: true });
+
+    expect(executeTool).not.toHaveBeenCalled();
+    expect(emitted(socket, 'chat:stream_complete')).toHaveLength(1);
+  });
+
+  it('runs a step listed twice only once', async () => {
+    const { handler, socket, plan } = await proposePlan();
+    const stepId = plan.steps[0].id;
+
+    await handler.handlePlanResponse(socket, { planId: plan.id, approved: true, steps: [{ id: stepId }, { id: stepId }] });
+
+    expect(executeTool).toHaveBeenCalledTimes(1);
+    expect(emitted(socket, 'chat:plan_complete')).toEqual([expect.objectContaining({ executed: 1, dropped: 0 })]);
+  });
+
+  it('rejects steps that are not in the plan and keeps the plan pending', async () => {
+    const { handler, socket, plan } = await proposePlan();
+
+    await handler.handlePlanResponse(socket, { planId: plan.id, approved: true, steps: [{ id: 'made-up' }] });
+
+    expect(executeTool).not.toHaveBeenCalled();
+    expect(emitted(socket, 'chat:error')).toEqual([expect.objectContaining({ error: 'Unknown plan steps: made-up' })]);
+
+    await handler.handlePlanResponse(socket, { planId: plan.id, approved: true });
+    expect(executeTool).toHaveBeenCalledTimes(1);
+  });
+});
@@ -12,6 +12,7 @@ import { ContextAwareMessageHandler } from '../handlers/context-aware-handler';
 import { EnhancedChatHandlerIntegrated } from './enhanced-chat-handler-integrated';
 import { createLogger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import { modelRegistry } from '../llm/model-registry';
 
 const logger = createLogger();
 const prisma = new PrismaClient();
@@ -386,7 +387,7 @@ export class ChatHandler {
       data: {
         userId,
         model,
-        contextLimit: this.getContextLimit(model),
+        contextLimit: modelRegistry.getContextLimit(model),
         title: 'New Chat'
       }
     });
@@ -399,15 +400,6 @@ export class ChatHandler {
     };
   }
 
-  private getContextLimit(model: string): number {
-    if (model.startsWith('gpt-4o')) return 128000;
-    if (model.startsWith('gpt-4')) return 8000;
-    if (model.startsWith('gpt-3.5')) return 4000;
-    if (model.startsWith('o1-')) return 128000;
-    if (model.startsWith('claude-')) return 200000;
-    return 4000; // default
-  }
-
   private createLLMService(model: string): LLMService {
     // Only support Anthropic models now
     if (model.startsWith('claude-')) {
@@ -2,8 +2,7 @@ import { Socket } from 'socket.io';
 import { PrismaClient, ToolExecutionStatus } from '@prisma/client';
 import { MCPClientManager } from '../mcp/mcp-client';
 import { LLMService, LLMMessage } from '../llm/llm-interface';
-import { OpenAIService } from '../llm/openai-service';
-import { AnthropicService } from '../llm/anthropic-service';
+import { createLLMService } from '../llm/llm-factory';
 import { ActivityService } from '../services/activity';
 import { ChatService } from '../services/chat';
 import { AuthenticatedSocket } from '../middleware/socketAuth';
@@ -11,6 +10,7 @@ import { ContextAwareMessageHandler } from '../handlers/context-aware-handler';
 import { createLogger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 import { MCPParameterTransformer } from '../mcp/mcp-parameter-transformer';
+import { modelRegistry } from '../llm/model-registry';
 
 const logger = createLogger();
 const prisma = new PrismaClient();
@@ -55,16 +55,16 @@ export class ChatHandler {
       this.sessions.set(socketId, session);
     } else {
       session.model = model;
-      session.llmService = this.createLLMService(model);
+      session.llmService = createLLMService(model);
       session.llmService.setAvailableTools(this.mcpClientManager.getAvailableTools());
     }
   }
 
-  async handleMessage(socket: AuthenticatedSocket, data: { message: string; model?: string }): Promise<void> {
+  async handleMessage(socket: AuthenticatedSocket, data: { message: string; model?: string; projectId?: string }): Promise<void> {
     // Try context-aware handler first, fallback to legacy if it fails
     try {
       const model = data.model || 'claude-sonnet-4-20250514';
-      const llmService = this.createLLMService(model);
+      const llmService = createLLMService(model);
       const messageId = uuidv4();
       
       return await this.contextAwareHandler.processMessage(
@@ -72,7 +72,8 @@ export class ChatHandler {
         messageId,
         data.message,
         llmService,
-        model
+        model,
+        data.projectId
       );
     } catch (error) {
       logger.warn('Context-aware handler failed, falling back to legacy:', error);
@@ -308,7 +309,7 @@ export class ChatHandler {
   }
 
   private async createSession(model: string, userId: string): Promise<ChatSession> {
-    const llmService = this.createLLMService(model);
+    const llmService = createLLMService(model);
     llmService.setAvailableTools(this.mcpClientManager.getAvailableTools());
     
     // Create database session
@@ -316,7 +317,7 @@ export class ChatHandler {
       data: {
         userId,
         model,
-        contextLimit: this.getContextLimit(model),
+        contextLimit: modelRegistry.getContextLimit(model),
         title: 'New Chat'
       }
     });
@@ -329,25 +330,6 @@ export class ChatHandler {
     };
   }
 
-  private getContextLimit(model: string): number {
-    if (model.startsWith('gpt-4o')) return 128000;
-    if (model.startsWith('gpt-4')) return 8000;
-    if (model.startsWith('gpt-3.5')) return 4000;
-    if (model.startsWith('o1-')) return 128000;
-    if (model.startsWith('claude-')) return 200000;
-    return 4000; // default
-  }
-
-  private createLLMService(model: string): LLMService {
-    // Only support Anthropic models now
-    if (model.startsWith('claude-')) {
-      return new AnthropicService(model);
-    } else {
-      // Default to Claude Sonnet 4
-      return new AnthropicService('claude-sonnet-4-20250514');
-    }
-  }
-
   private formatToolResult(toolName: string, result: any): string {
     if (result.isError) {
       return `❌ ${toolName} failed: ${result.content?.[0]?.text || 'Unknown error'}`;
@@ -369,6 +351,14 @@ export class ChatHandler {
     return `✅ ${toolName} completed successfully`;
   }
 
+  // Sessions keep the tool list they were created with; swap in the current one
+  refreshSessionTools(): void {
+    const tools = { mcp: this.mcpClientManager.getAvailableTools(), web: [] };
+    for (const session of this.sessions.values()) {
+      session.llmService.setAvailableTools(tools);
+    }
+  }
+
   cleanup(socketId: string): void {
     const session = this.sessions.get(socketId);
     if (session && session.dbSessionId) {
@@ -17,6 +17,7 @@ import {
   StreamPhase,
   ToolExecutionPayload
 } from '../types/websocket-types';
+import { modelRegistry } from '../llm/model-registry';
 
 const logger = createLogger();
 const prisma = new PrismaClient();
@@ -99,7 +100,7 @@ export class EnhancedChatHandlerIntegrated {
           data: {
             userId,
             model: data.model,
-            contextLimit: this.getContextLimit(data.model),
+            contextLimit: modelRegistry.getContextLimit(data.model),
             title: this.generateSessionTitle(data.message),
           },
         });
@@ -473,17 +474,6 @@ export class EnhancedChatHandlerIntegrated {
     return title.length > 50 ? title.substring(0, 50) + '...' : title;
   }
 
-  private getContextLimit(model: string): number {
-    const limits: Record<string, number> = {
-      'gpt-4': 8192,
-      'gpt-3.5-turbo': 4096,
-      'claude-3-sonnet': 200000,
-      'claude-3-opus': 200000,
-      'claude-sonnet-4-20250514': 200000,
-    };
-    return limits[model] || 4096;
-  }
-
   private createLLMService(model: string): LLMService {
     // Only support Anthropic models
     if (model.startsWith('claude-')) {
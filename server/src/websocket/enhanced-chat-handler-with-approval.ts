@@ -1,17 +1,30 @@
 import { Socket } from 'socket.io';
+import { CreateMessageResult, ErrorCode, McpError, Progress } from '@modelcontextprotocol/sdk/types.js';
 import { PrismaClient, ToolExecutionStatus } from '@prisma/client';
 import { MCPClientManager, MCPToolCall, MCPToolResult } from '../mcp/mcp-client';
-import { LLMService, LLMMessage } from '../llm/llm-interface';
-import { AnthropicService } from '../llm/anthropic-service';
+import { MCPParameterTransformer } from '../mcp/mcp-parameter-transformer';
+import { classifyToolOperation } from '../mcp/tool-classification';
+import { mcpServerRegistry, ProjectMCPSettings } from '../mcp/mcp-server-registry';
+import { buildAttachedResourcesSection } from '../mcp/mcp-content';
+import { MCPSamplingRequest, toSamplingMessages, toSamplingResult } from '../mcp/mcp-sampling';
+import { LLMService, LLMMessage, LLMResponse, LLMToolCall } from '../llm/llm-interface';
+import { createLLMService } from '../llm/llm-factory';
 import { ActivityService } from '../services/activity';
 import { ChatService } from '../services/chat';
 import { AuthenticatedSocket } from '../middleware/socketAuth';
 import { createLogger } from '../utils/logger';
 import { buildSystemPrompt } from '../llm/system-prompt';
+import { retrievalService, RetrievalResult } from '../services/retrieval';
+import { toolApprovalPolicyService, ApprovalDecision } from '../services/tool-approval-policy';
+import { tokenUsageService, UsageContext } from '../services/token-usage';
+import { MessageSource } from '../types/websocket-types';
 import { 
   RetryManager, 
   ErrorRecoveryManager, 
   ToolExecutionError, 
+  ToolTimeoutError,
+  OperationCancelledError,
+  TokenQuotaExceededError,
   handleError,
   globalErrorRecovery 
 } from '../utils/error-handler';
@@ -20,8 +33,15 @@ import {
   ToolApprovalRequest, 
   ToolApprovalResponse, 
   ToolExecutionStatus as MCPToolExecutionStatus,
-  ConversationContext 
+  ConversationContext,
+  ExecutionPlan,
+  PlanStep,
+  PlanResponse,
+  ResourceReference
 } from '../../../shared/src/types/mcp';
+import { modelRegistry, fitMessagesToBudget } from '../llm/model-registry';
+import { estimateTokens } from '../utils/token-estimate';
+import { asJsonValue } from '../utils/json';
 
 const logger = createLogger();
 const prisma = new PrismaClient();
@@ -38,6 +58,7 @@ export interface EnhancedChatMessage {
   timestamp: Date;
   toolCalls?: MCPToolExecutionStatus[];
   model?: string;
+  sources?: MessageSource[];
 }
 
 export interface EnhancedChatSession {
@@ -47,8 +68,64 @@ export interface EnhancedChatSession {
   dbSessionId?: string;
   context: ConversationContext;
   pendingApprovals: Map<string, ToolApprovalRequest>;
-  approvedTools: Set<string>;
   lastUserMessage?: string;
+  projectId?: string;
+  planMode?: boolean;
+  pendingPlans: Map<string, ExecutionPlan>;
+  mcpSettings?: ProjectMCPSettings;
+  // One per assistant message still in progress, aborted by chat:cancel
+  abortControllers: Map<string, AbortController>;
+  // One per assistant message while the model is chaining tool calls
+  toolLoops: Map<string, ToolLoopTurn>;
+}
+
+// An assistant message's conversation with the model across tool rounds
+interface ToolLoopTurn {
+  // What the first round was sent, then every finished round's calls and results
+  llmMessages: LLMMessage[];
+  // Rounds whose tool calls were actually run
+  toolRounds: number;
+  // The round waiting on approvals or running tools, paired with the model's call ids
+  pendingRound: Array<{ call: LLMToolCall; status: MCPToolExecutionStatus }>;
+  roundText: string;
+}
+
+const MAX_TOOL_RESULT_CHARS = 8000;
+
+// A tool call in one of these states needs nothing more from the user or the server
+function isToolSettled(toolStatus: MCPToolExecutionStatus): boolean {
+  return ['completed', 'error', 'cancelled', 'timeout'].includes(toolStatus.status);
+}
+
+// What the model is told about a tool call once it has settled
+function toToolResultContent(toolStatus: MCPToolExecutionStatus): string {
+  if (toolStatus.status === 'timeout') {
+    return `Timed out and was cancelled (${toolStatus.error}). It may still have made changes in ServiceNow, check before calling it again.`;
+  }
+  if (toolStatus.status === 'cancelled') {
+    return 'Cancelled by the user before it finished.';
+  }
+
+  const content = toolStatus.result?.content;
+  const text = Array.isArray(content)
+    ? content
+        .map((part: any) => part.text ?? (part.json !== undefined ? JSON.stringify(part.json) : ''))
+        .filter(Boolean)
+        .join('\n')
+    : `Error: ${toolStatus.error || 'Unknown error'}`;
+
+  // Keep large query results from crowding out the rest of the context
+  return text.length > MAX_TOOL_RESULT_CHARS
+    ? `${text.substring(0, MAX_TOOL_RESULT_CHARS)}\n... [truncated ${text.length - MAX_TOOL_RESULT_CHARS} characters]`
+    : text;
+}
+
+// MCP progress is a running count with an optional total; only a known total makes a percentage
+function toProgressPercent(progress: Progress): number | undefined {
+  if (!progress.total || progress.total <= 0) {
+    return undefined;
+  }
+  return Math.min(100, Math.max(0, Math.round((progress.progress / progress.total) * 100)));
 }
 
 export class EnhancedChatHandlerWithApproval {
@@ -57,7 +134,11 @@ export class EnhancedChatHandlerWithApproval {
   private activityService: ActivityService;
   private chatService: ChatService;
   private toolApprovalTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  // Sampling approvals are awaited inside the tool call instead of starting one
+  private samplingApprovals: Map<string, (approved: boolean) => void> = new Map();
   private errorRecovery: ErrorRecoveryManager;
+  private approvalTimeoutMs = parseInt(process.env.TOOL_APPROVAL_TIMEOUT_MS || '30000');
+  private maxToolRounds = parseInt(process.env.AGENT_MAX_TOOL_ITERATIONS || '8');
 
   constructor(mcpClientManager: MCPClientManager) {
     this.mcpClientManager = mcpClientManager;
@@ -66,7 +147,10 @@ export class EnhancedChatHandlerWithApproval {
     this.errorRecovery = globalErrorRecovery;
   }
 
-  async handleMessage(socket: AuthenticatedSocket, data: { message: string; model?: string }): Promise<void> {
+  async handleMessage(
+    socket: AuthenticatedSocket,
+    data: { message: string; model?: string; projectId?: string; planMode?: boolean; resources?: ResourceReference[] }
+  ): Promise<void> {
     logger.info('Enhanced chat handler processing message', {
       userId: socket.user?.userId,
       model: data.model,
@@ -79,16 +163,28 @@ export class EnhancedChatHandlerWithApproval {
     const model = data.model || 'claude-sonnet-4-20250514';
     
     try {
+      // Over quota: refuse before anything is stored or sent to the model
+      await tokenUsageService.assertWithinQuota(userId, socket.user!.role);
+
       // Get or create session
       let session = this.sessions.get(socketId);
-      if (!session) {
-        session = await this.createSession(model, userId);
+      if (!session || session.projectId !== data.projectId) {
+        // Switching between general and project chats starts a fresh session
+        session = await this.createSession(model, userId, data.projectId);
         this.sessions.set(socketId, session);
-        logger.debug('Created new chat session', { userId, model });
+        logger.debug('Created new chat session', { userId, model, projectId: data.projectId });
       }
+      session.planMode = !!data.planMode;
       
-      // Always update LLM service with latest tools on every message
-      const mcpTools = this.mcpClientManager.getAvailableTools();
+      // Always update LLM service with latest tools on every message, minus the
+      // servers the project has switched off
+      session.mcpSettings = session.projectId
+        ? await this.loadProjectMcpSettings(session.projectId)
+        : undefined;
+      const mcpTools = mcpServerRegistry.filterToolsForProject(
+        this.mcpClientManager.getAvailableTools(),
+        session.mcpSettings
+      );
       const allAvailableTools = {
         mcp: mcpTools,
         web: [] // No web tools in enhanced version for now
@@ -100,13 +196,25 @@ export class EnhancedChatHandlerWithApproval {
         webCount: 0
       });
 
+      // Attached MCP resources travel with this turn, so later turns still see them
+      const attachedResources = (data.resources || []).filter(reference =>
+        mcpServerRegistry.isServerEnabledForProject(reference.server, session!.mcpSettings)
+      );
+      const resourcesSection = attachedResources.length > 0
+        ? await buildAttachedResourcesSection(this.mcpClientManager, attachedResources)
+        : '';
+
       // Create user message in database
       const userDbMessage = await prisma.message.create({
         data: {
           role: 'USER',
           content: data.message,
           sessionId: session.dbSessionId!,
-          model: session.model
+          model: session.model,
+          // Copied into plain objects, which Prisma accepts as Json
+          metadata: attachedResources.length > 0
+            ? { resources: attachedResources.map(({ server, uri, name }) => ({ server, uri, name })) }
+            : undefined
         }
       });
 
@@ -118,7 +226,9 @@ export class EnhancedChatHandlerWithApproval {
         timestamp: userDbMessage.createdAt
       };
       session.messages.push(userMessage);
-      session.context.messages.push(userMessage);
+      session.context.messages.push(resourcesSection
+        ? { ...userMessage, content: `${data.message}\n\n${resourcesSection}` }
+        : userMessage);
       
       // Store the latest user message for parameter extraction
       session.lastUserMessage = data.message;
@@ -136,10 +246,26 @@ export class EnhancedChatHandlerWithApproval {
         await this.chatService.updateSessionTitle(session.dbSessionId!, userId, '');
       }
 
+      // Ground project chats in the project's uploaded documents
+      const retrieval = session.projectId
+        ? await this.retrieveProjectContext(session.projectId, userId, data.message)
+        : null;
+
       // Generate AI response with enhanced context
-      await this.generateEnhancedResponse(socket, session, userMessage.id);
+      await this.generateEnhancedResponse(socket, session, userMessage.id, retrieval);
 
     } catch (error) {
+      if (error instanceof TokenQuotaExceededError) {
+        logger.info(`Token quota reached for user ${userId}`, error.details);
+        socket.emit('chat:error', {
+          message: error.message,
+          error: 'Token quota exceeded',
+          code: error.code,
+          quota: error.details
+        });
+        return;
+      }
+
       logger.error('Error in enhanced chat handler:', error);
       socket.emit('chat:error', {
         message: 'Failed to process message',
@@ -173,10 +299,24 @@ export class EnhancedChatHandlerWithApproval {
     // Remove from pending
     session.pendingApprovals.delete(data.id);
 
+    if (approval.kind === 'sampling') {
+      this.settleSamplingApproval(data.id, data.approved);
+      return;
+    }
+
     if (data.approved) {
-      // Add to approved tools if always allow was selected
-      if (data.alwaysAllow) {
-        session.approvedTools.add(approval.toolName);
+      // Persist "always allow" as an approval policy
+      const remember = data.remember || (data.alwaysAllow ? 'user' : undefined);
+      if (remember) {
+        try {
+          await toolApprovalPolicyService.rememberApproval(
+            socket.user!.userId,
+            approval.toolName,
+            remember === 'project' ? session.projectId : undefined
+          );
+        } catch (error) {
+          logger.error('Failed to save tool approval policy:', error);
+        }
       }
 
       // Execute the tool
@@ -190,14 +330,203 @@ export class EnhancedChatHandlerWithApproval {
       });
 
       // Continue with response without this tool
-      await this.continueResponseWithoutTool(socket, session, approval.messageId);
+      await this.continueResponseWithoutTool(socket, session, approval, 'User denied permission');
+    }
+  }
+
+  /**
+   * Stop a response in progress: abort its LLM stream, cancel its running tools
+   * on the MCP server and withdraw approvals still waiting on the user.
+   */
+  async handleCancel(socket: AuthenticatedSocket, data: { messageId?: string } = {}): Promise<void> {
+    const session = this.sessions.get(socket.id);
+    if (!session) {
+      return;
+    }
+
+    const messageIds = data.messageId ? [data.messageId] : Array.from(session.abortControllers.keys());
+    for (const messageId of messageIds) {
+      const abortController = session.abortControllers.get(messageId);
+      if (!abortController) {
+        continue;
+      }
+
+      logger.info('Cancelling response', { messageId });
+      abortController.abort();
+
+      for (const [approvalId, approval] of session.pendingApprovals) {
+        if (approval.messageId !== messageId) {
+          continue;
+        }
+        const timeout = this.toolApprovalTimeouts.get(approvalId);
+        if (timeout) {
+          clearTimeout(timeout);
+          this.toolApprovalTimeouts.delete(approvalId);
+        }
+        session.pendingApprovals.delete(approvalId);
+        this.settleSamplingApproval(approvalId, false);
+
+        socket.emit('chat:tool_denied', {
+          messageId,
+          toolName: approval.toolName,
+          reason: 'Cancelled by user'
+        });
+      }
+
+      // A plan still under review goes with the response, so a late answer can't run it
+      for (const [planId, plan] of session.pendingPlans) {
+        if (plan.messageId === messageId) {
+          session.pendingPlans.delete(planId);
+        }
+      }
+
+      const message = session.messages.find(m => m.id === messageId);
+      message?.toolCalls?.forEach(tc => {
+        if (tc.status === 'pending') {
+          tc.status = 'cancelled';
+          tc.error = 'Cancelled by user';
+          tc.endTime = new Date();
+        }
+      });
+
+      // The LLM stream and running tools complete the message once their abort lands;
+      // a message that was only waiting on approvals has nothing left to do that
+      if (message?.toolCalls?.length && message.toolCalls.every(isToolSettled)) {
+        await this.completeMessage(socket, session, message);
+      }
     }
   }
 
+  async handlePlanResponse(socket: AuthenticatedSocket, data: PlanResponse): Promise<void> {
+    const session = this.sessions.get(socket.id);
+    if (!session) {
+      logger.error('Plan response received for unknown session:', socket.id);
+      return;
+    }
+
+    const plan = session.pendingPlans.get(data.planId);
+    if (!plan) {
+      logger.error('Plan response received for unknown plan:', data.planId);
+      return;
+    }
+
+    // The plan stays pending so a corrected response can still run it
+    const unknownSteps = (data.steps || []).filter(step => !plan.steps.some(planStep => planStep.id === step.id));
+    if (data.approved && unknownSteps.length > 0) {
+      logger.warn(`Plan response for ${plan.id} names unknown steps`, { steps: unknownSteps.map(step => step.id) });
+      socket.emit('chat:error', {
+        message: 'Plan response rejected',
+        error: `Unknown plan steps: ${unknownSteps.map(step => step.id).join(', ')}`,
+        messageId: plan.messageId
+      });
+      return;
+    }
+    session.pendingPlans.delete(plan.id);
+
+    const message = session.messages.find(m => m.id === plan.messageId);
+    if (!message || !message.toolCalls) {
+      logger.error('Could not find message for plan', { planId: plan.id, messageId: plan.messageId });
+      return;
+    }
+
+    // Approving without a step list runs the plan exactly as proposed. A step
+    // listed twice runs once, with the first arguments given for it.
+    const requested = data.approved ? (data.steps ?? plan.steps.map(step => ({ id: step.id, arguments: undefined }))) : [];
+    const selectedIds = new Set<string>();
+    const selected = requested.filter(step => {
+      if (selectedIds.has(step.id)) {
+        return false;
+      }
+      selectedIds.add(step.id);
+      return true;
+    });
+
+    for (const toolStatus of message.toolCalls) {
+      if (!selectedIds.has(toolStatus.id)) {
+        toolStatus.status = 'error';
+        toolStatus.error = data.approved ? 'Dropped from plan' : 'Plan cancelled by user';
+      }
+    }
+
+    logger.info(`Executing plan ${plan.id}`, {
+      messageId: plan.messageId,
+      selectedSteps: selected.length,
+      droppedSteps: plan.steps.length - selected.length
+    });
+
+    let executed = 0;
+    let failed = 0;
+    const signal = session.abortControllers.get(message.id)?.signal;
+
+    for (const { id, arguments: editedArguments } of selected) {
+      const toolStatus = message.toolCalls.find(tc => tc.id === id);
+      if (!toolStatus) {
+        continue;
+      }
+
+      if (signal?.aborted) {
+        toolStatus.status = 'cancelled';
+        toolStatus.error = 'Cancelled by user';
+        continue;
+      }
+
+      // Later steps usually depend on earlier ones, so stop at the first failure
+      if (failed > 0) {
+        toolStatus.status = 'error';
+        toolStatus.error = 'Skipped after an earlier step failed';
+        continue;
+      }
+
+      if (editedArguments && typeof editedArguments === 'object') {
+        toolStatus.arguments = editedArguments;
+      }
+
+      // Deny rules still apply to approved plans
+      const decision = await this.evaluateApprovalPolicy(socket, session, {
+        name: toolStatus.toolName,
+        arguments: toolStatus.arguments
+      });
+      if (decision.action === 'DENY') {
+        toolStatus.status = 'error';
+        toolStatus.error = `Blocked by approval policy: ${decision.reason}`;
+        toolStatus.endTime = new Date();
+        socket.emit('chat:tool_denied', {
+          messageId: message.id,
+          toolName: toolStatus.toolName,
+          reason: toolStatus.error
+        });
+        failed++;
+        continue;
+      }
+
+      // Arguments were transformed when the plan was built and may have been edited since
+      await this.executeToolWithStatus(socket, session, message.id, toolStatus, {
+        skipTransform: true,
+        deferCompletion: true
+      });
+      executed++;
+      if (toolStatus.status === 'error' || toolStatus.status === 'timeout') {
+        failed++;
+      }
+    }
+
+    socket.emit('chat:plan_complete', {
+      planId: plan.id,
+      messageId: message.id,
+      executed,
+      dropped: plan.steps.length - selected.length,
+      failed
+    });
+
+    // The model gets the step results, or hears the plan was cancelled, and carries on the turn
+    await this.finishToolRound(socket, session, message);
+  }
+
   private async generateEnhancedResponse(
     socket: AuthenticatedSocket, 
     session: EnhancedChatSession, 
-    triggerMessageId: string
+    triggerMessageId: string,
+    retrieval: RetrievalResult | null = null
   ): Promise<void> {
     // Create assistant message
     const assistantDbMessage = await prisma.message.create({
@@ -215,62 +544,153 @@ export class EnhancedChatHandlerWithApproval {
       content: '',
       timestamp: assistantDbMessage.createdAt,
       toolCalls: [],
-      model: session.model
+      model: session.model,
+      sources: retrieval?.sources.length ? retrieval.sources : undefined
     };
 
+    // The history up to the user's message; this turn's rounds are appended to it
+    const llmMessages = this.buildLLMContext(session, retrieval);
+
     // Add assistant message to session immediately so it can be found during tool approval
     session.messages.push(assistantMessage);
     session.context.messages.push(assistantMessage);
 
+    this.startCancellableTurn(session, assistantMessage.id);
+    session.toolLoops.set(assistantMessage.id, {
+      llmMessages,
+      toolRounds: 0,
+      pendingRound: [],
+      roundText: ''
+    });
+
     // Start streaming
     socket.emit('chat:stream_start', { messageId: assistantMessage.id });
 
-    // Build context with all conversation history and available tools
-    const llmMessages = this.buildLLMContext(session);
-    
+    await this.runModelRound(socket, session, assistantMessage);
+  }
+
+  /**
+   * One call to the model for an assistant message. Tool calls it asks for go
+   * through approval, and once they have all settled finishToolRound sends the
+   * results back here, until the model answers without tools or the round
+   * limit is hit.
+   */
+  private async runModelRound(
+    socket: AuthenticatedSocket,
+    session: EnhancedChatSession,
+    assistantMessage: EnhancedChatMessage
+  ): Promise<void> {
+    const turn = session.toolLoops.get(assistantMessage.id)!;
+    const signal = session.abortControllers.get(assistantMessage.id)?.signal;
+    // Earlier rounds' text stays, separated from this round's by a blank line
+    const previousContent = assistantMessage.content;
+    let roundHasText = false;
+
     try {
-      // Generate response with tool awareness
-      logger.debug('Calling LLM service', { 
-        messageCount: llmMessages.length,
-        model: session.model 
+      // handleMessage checked before the first round, each later one spends more
+      if (turn.toolRounds > 0) {
+        await tokenUsageService.assertWithinQuota(socket.user!.userId, socket.user!.role);
+      }
+
+      logger.debug('Calling LLM service', {
+        messageCount: turn.llmMessages.length,
+        model: session.model,
+        toolRounds: turn.toolRounds
       });
-      
+
       const response = await session.llmService.generateResponse(
-        llmMessages,
+        turn.llmMessages,
         (chunk) => {
           if (chunk.type === 'text') {
-            assistantMessage.content += chunk.content;
+            const content = !roundHasText && previousContent ? `\n\n${chunk.content}` : chunk.content;
+            roundHasText = true;
+            assistantMessage.content += content;
             socket.emit('chat:stream', {
               messageId: assistantMessage.id,
               type: 'text',
-              content: chunk.content
+              content
             });
           }
-        }
+        },
+        { signal }
       );
 
       logger.info('LLM response received', {
         hasToolCalls: !!(response.toolCalls && response.toolCalls.length > 0),
         toolCallsCount: response.toolCalls?.length || 0,
-        responseLength: response.message?.length || 0
+        responseLength: response.message?.length || 0,
+        toolRounds: turn.toolRounds,
+        usage: response.usage
       });
+      await tokenUsageService.recordUsage({
+        userId: socket.user!.userId,
+        model: session.model,
+        projectId: session.projectId,
+        chatSessionId: session.dbSessionId,
+        messageId: assistantMessage.id
+      }, response.usage);
 
-      assistantMessage.content = response.message;
+      assistantMessage.content = previousContent && response.message
+        ? `${previousContent}\n\n${response.message}`
+        : previousContent + response.message;
 
-      // Handle tool calls with approval workflow
-      if (response.toolCalls && response.toolCalls.length > 0) {
-        logger.info('Processing tool calls with approval workflow', {
-          toolCallCount: response.toolCalls.length,
-          toolNames: response.toolCalls.map(tc => tc.name)
+      if (!response.toolCalls || response.toolCalls.length === 0) {
+        await this.completeMessage(socket, session, assistantMessage);
+        return;
+      }
+
+      if (turn.toolRounds >= this.maxToolRounds) {
+        logger.warn(`Tool loop reached ${turn.toolRounds} rounds, dropping ${response.toolCalls.length} tool calls`, {
+          messageId: assistantMessage.id
         });
-        await this.handleToolCallsWithApproval(socket, session, assistantMessage, response.toolCalls);
-      } else {
-        // No tool calls, complete the message
+        const notice = `I stopped after ${turn.toolRounds} rounds of tool calls. Let me know if you'd like me to continue.`;
+        const content = assistantMessage.content ? `\n\n${notice}` : notice;
+        assistantMessage.content += content;
+        socket.emit('chat:stream', { messageId: assistantMessage.id, type: 'text', content });
         await this.completeMessage(socket, session, assistantMessage);
+        return;
       }
 
+      // Handle tool calls with approval workflow
+      logger.info('Processing tool calls with approval workflow', {
+        toolCallCount: response.toolCalls.length,
+        toolNames: response.toolCalls.map(tc => tc.name),
+        round: turn.toolRounds + 1
+      });
+      await this.handleToolCallsWithApproval(socket, session, assistantMessage, response.toolCalls, response.message);
+
     } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        // Keep whatever streamed before the user stopped it, and bill what it used
+        logger.info('Response cancelled by user', { messageId: assistantMessage.id, usage: error.usage });
+        await tokenUsageService.recordUsage({
+          userId: socket.user!.userId,
+          model: session.model,
+          projectId: session.projectId,
+          chatSessionId: session.dbSessionId,
+          messageId: assistantMessage.id
+        }, error.usage);
+        await this.completeMessage(socket, session, assistantMessage);
+        return;
+      }
+
+      // The quota ran out mid-turn: keep what the earlier rounds said and stop
+      if (error instanceof TokenQuotaExceededError) {
+        logger.info(`Token quota reached for user ${socket.user!.userId} during a tool loop`, error.details);
+        socket.emit('chat:error', {
+          message: error.message,
+          error: 'Token quota exceeded',
+          code: error.code,
+          quota: error.details,
+          messageId: assistantMessage.id
+        });
+        await this.completeMessage(socket, session, assistantMessage);
+        return;
+      }
+
       logger.error('Error generating enhanced response:', error);
+      session.toolLoops.delete(assistantMessage.id);
+      session.abortControllers.delete(assistantMessage.id);
       socket.emit('chat:error', {
         message: 'Failed to generate response',
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -279,11 +699,52 @@ export class EnhancedChatHandlerWithApproval {
     }
   }
 
+  // Every tool call of the round has settled: give the results to the model
+  private async finishToolRound(
+    socket: AuthenticatedSocket,
+    session: EnhancedChatSession,
+    message: EnhancedChatMessage
+  ): Promise<void> {
+    const turn = session.toolLoops.get(message.id);
+    // Already completed, or another settled call moved the loop on
+    if (!turn || turn.pendingRound.length === 0) {
+      return;
+    }
+
+    const round = turn.pendingRound;
+    turn.pendingRound = [];
+
+    if (session.abortControllers.get(message.id)?.signal.aborted) {
+      await this.completeMessage(socket, session, message);
+      return;
+    }
+
+    turn.llmMessages.push({
+      role: 'assistant',
+      content: turn.roundText,
+      toolCalls: round.map(({ call }) => call)
+    });
+    for (const { call, status } of round) {
+      turn.llmMessages.push({
+        role: 'tool',
+        toolCallId: call.id,
+        toolName: call.name,
+        content: toToolResultContent(status),
+        isError: status.status !== 'completed'
+      });
+    }
+    turn.toolRounds++;
+
+    socket.emit('chat:thinking', { messageId: message.id });
+    await this.runModelRound(socket, session, message);
+  }
+
   private async handleToolCallsWithApproval(
     socket: AuthenticatedSocket,
     session: EnhancedChatSession,
     assistantMessage: EnhancedChatMessage,
-    toolCalls: MCPToolCall[]
+    toolCalls: LLMToolCall[],
+    roundText: string
   ): Promise<void> {
     // 🔍 DEBUG: Log what Claude is sending
     logger.info('🔍 [TOOL-CALL] Tool calls received from Claude:', {
@@ -297,7 +758,32 @@ export class EnhancedChatHandlerWithApproval {
       }))
     });
 
-    for (const toolCall of toolCalls) {
+    if (session.planMode) {
+      await this.proposePlan(socket, session, assistantMessage, toolCalls, roundText);
+      return;
+    }
+
+    const signal = session.abortControllers.get(assistantMessage.id)?.signal;
+
+    // Register the whole round first, so a tool finishing early can't look like the last one
+    const round = toolCalls.map(toolCall => ({
+      call: toolCall,
+      status: {
+        id: uuidv4(),
+        toolName: toolCall.name,
+        status: 'pending',
+        arguments: toolCall.arguments,
+        startTime: new Date()
+      } as MCPToolExecutionStatus
+    }));
+    assistantMessage.toolCalls!.push(...round.map(({ status }) => status));
+    const turn = session.toolLoops.get(assistantMessage.id);
+    if (turn) {
+      turn.pendingRound = round;
+      turn.roundText = roundText;
+    }
+
+    for (const { call: toolCall, status: toolExecutionStatus } of round) {
       // 🔍 DEBUG: Log individual tool call processing
       logger.info('🔍 [TOOL-CALL] Processing individual tool call:', {
         toolName: toolCall.name,
@@ -306,34 +792,94 @@ export class EnhancedChatHandlerWithApproval {
         argumentsEmpty: !toolCall.arguments || Object.keys(toolCall.arguments || {}).length === 0
       });
 
-      const toolExecutionStatus: MCPToolExecutionStatus = {
-        id: uuidv4(),
-        toolName: toolCall.name,
-        status: 'pending',
-        arguments: toolCall.arguments,
-        startTime: new Date()
-      };
+      if (signal?.aborted) {
+        toolExecutionStatus.status = 'cancelled';
+        toolExecutionStatus.error = 'Cancelled by user';
+        toolExecutionStatus.endTime = new Date();
+        continue;
+      }
 
-      assistantMessage.toolCalls!.push(toolExecutionStatus);
+      // Check the user's approval policies for this tool call
+      const decision = await this.evaluateApprovalPolicy(socket, session, toolCall);
 
-      // Check if tool is already approved for this session
-      if (session.approvedTools.has(toolCall.name)) {
+      if (decision.action === 'ALLOW') {
         // Execute immediately
-        await this.executeToolWithStatus(socket, session, assistantMessage.id, toolExecutionStatus);
+        await this.executeToolWithStatus(socket, session, assistantMessage.id, toolExecutionStatus, {
+          deferCompletion: true
+        });
+      } else if (decision.action === 'DENY') {
+        toolExecutionStatus.status = 'error';
+        toolExecutionStatus.error = `Blocked by approval policy: ${decision.reason}`;
+        toolExecutionStatus.endTime = new Date();
+        socket.emit('chat:tool_denied', {
+          messageId: assistantMessage.id,
+          toolName: toolCall.name,
+          reason: toolExecutionStatus.error
+        });
       } else {
         // Request approval
-        await this.requestToolApproval(socket, session, assistantMessage.id, toolCall, toolExecutionStatus);
+        await this.requestToolApproval(socket, session, assistantMessage.id, toolCall, toolExecutionStatus, decision);
       }
     }
 
-    // If all tools were approved and executed, complete the message
-    const allCompleted = assistantMessage.toolCalls!.every(tc => 
-      tc.status === 'completed' || tc.status === 'error'
-    );
+    // If all tools were approved and executed, the model gets their results
+    if (assistantMessage.toolCalls!.every(isToolSettled)) {
+      await this.finishToolRound(socket, session, assistantMessage);
+    }
+  }
 
-    if (allCompleted) {
-      await this.completeMessage(socket, session, assistantMessage);
+  // Plan mode: show what would be sent to ServiceNow and wait for chat:plan_response
+  private async proposePlan(
+    socket: AuthenticatedSocket,
+    session: EnhancedChatSession,
+    assistantMessage: EnhancedChatMessage,
+    toolCalls: LLMToolCall[],
+    roundText: string
+  ): Promise<void> {
+    const availableTools = this.mcpClientManager.getAvailableTools();
+
+    const steps: PlanStep[] = toolCalls.map((toolCall, index) => ({
+      id: uuidv4(),
+      index,
+      toolName: toolCall.name,
+      toolDescription: this.getToolDescription(toolCall.name),
+      originalArguments: toolCall.arguments,
+      arguments: MCPParameterTransformer.transformParameters(toolCall.name, toolCall.arguments, session.lastUserMessage),
+      operation: classifyToolOperation(toolCall.name, availableTools.find(t => t.name === toolCall.name))
+    }));
+
+    const plan: ExecutionPlan = {
+      id: uuidv4(),
+      messageId: assistantMessage.id,
+      steps,
+      timestamp: new Date(),
+      projectId: session.projectId
+    };
+    session.pendingPlans.set(plan.id, plan);
+
+    const round = steps.map((step, index) => ({
+      call: toolCalls[index],
+      status: {
+        id: step.id,
+        toolName: step.toolName,
+        status: 'pending',
+        arguments: step.arguments
+      } as MCPToolExecutionStatus
+    }));
+    assistantMessage.toolCalls!.push(...round.map(({ status }) => status));
+    const turn = session.toolLoops.get(assistantMessage.id);
+    if (turn) {
+      turn.pendingRound = round;
+      turn.roundText = roundText;
     }
+
+    socket.emit('chat:plan_proposed', plan);
+
+    logger.info(`Plan proposed with ${steps.length} steps`, {
+      planId: plan.id,
+      messageId: assistantMessage.id,
+      writeSteps: steps.filter(step => step.operation === 'write').length
+    });
   }
 
   private async requestToolApproval(
@@ -341,24 +887,29 @@ export class EnhancedChatHandlerWithApproval {
     session: EnhancedChatSession,
     messageId: string,
     toolCall: MCPToolCall,
-    toolStatus: MCPToolExecutionStatus
+    toolStatus: MCPToolExecutionStatus,
+    decision?: ApprovalDecision
   ): Promise<void> {
     const approvalRequest: ToolApprovalRequest = {
-      id: uuidv4(),
+      // Shares the tool status id so the approved call is found exactly
+      id: toolStatus.id,
       messageId,
       toolName: toolCall.name,
       toolDescription: this.getToolDescription(toolCall.name),
       toolArguments: toolCall.arguments,
-      timestamp: new Date()
+      timestamp: new Date(),
+      projectId: session.projectId,
+      timeoutMs: this.approvalTimeoutMs,
+      policyReason: decision?.policy ? decision.reason : undefined
     };
 
     // Store pending approval
     session.pendingApprovals.set(approvalRequest.id, approvalRequest);
 
-    // Set timeout for approval (30 seconds)
+    // Set timeout for approval
     const timeout = setTimeout(() => {
       this.handleApprovalTimeout(socket, session, approvalRequest.id);
-    }, 30000);
+    }, this.approvalTimeoutMs);
     
     this.toolApprovalTimeouts.set(approvalRequest.id, timeout);
 
@@ -372,6 +923,113 @@ export class EnhancedChatHandlerWithApproval {
     });
   }
 
+  /**
+   * sampling/createMessage from a server whose tool this message is running:
+   * the user approves it like a tool call, the session's model answers without
+   * tools, and the tokens are recorded against the user.
+   */
+  private async handleSamplingRequest(
+    socket: AuthenticatedSocket,
+    session: EnhancedChatSession,
+    messageId: string,
+    request: MCPSamplingRequest
+  ): Promise<CreateMessageResult> {
+    const exceeded = await tokenUsageService.findExceededQuota(socket.user!.userId, socket.user!.role);
+    if (exceeded) {
+      throw new McpError(ErrorCode.InvalidRequest, `The user's ${exceeded.period.toLowerCase()} token quota is used up`);
+    }
+
+    const approved = await this.requestSamplingApproval(socket, session, messageId, request);
+    if (!approved) {
+      throw new McpError(ErrorCode.InvalidRequest, 'The user declined the sampling request');
+    }
+
+    const usageContext: UsageContext = {
+      userId: socket.user!.userId,
+      model: session.model,
+      projectId: session.projectId,
+      chatSessionId: session.dbSessionId,
+      messageId,
+      source: 'SAMPLING',
+      server: request.server,
+      toolName: request.toolName
+    };
+
+    let response: LLMResponse;
+    try {
+      response = await session.llmService.generateResponse(toSamplingMessages(request.params), undefined, {
+        signal: session.abortControllers.get(messageId)?.signal,
+        maxTokens: request.params.maxTokens,
+        temperature: request.params.temperature,
+        withoutTools: true
+      });
+    } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        await tokenUsageService.recordUsage(usageContext, error.usage);
+      }
+      throw error;
+    }
+
+    logger.info(`MCP server ${request.server} sampled ${session.model}`, {
+      toolName: request.toolName,
+      messageId,
+      usage: response.usage
+    });
+    await tokenUsageService.recordUsage(usageContext, response.usage);
+
+    return toSamplingResult(response, session.model);
+  }
+
+  private requestSamplingApproval(
+    socket: AuthenticatedSocket,
+    session: EnhancedChatSession,
+    messageId: string,
+    request: MCPSamplingRequest
+  ): Promise<boolean> {
+    const approvalRequest: ToolApprovalRequest = {
+      id: uuidv4(),
+      kind: 'sampling',
+      messageId,
+      toolName: `${request.server}:sampling`,
+      toolDescription: `${request.toolName} asks ${session.model} for a completion of up to ${request.params.maxTokens} tokens`,
+      toolArguments: {
+        systemPrompt: request.params.systemPrompt,
+        messages: request.params.messages.map(message => ({
+          role: message.role,
+          text: message.content.type === 'text' ? message.content.text : `[${message.content.type}]`
+        })),
+        maxTokens: request.params.maxTokens
+      },
+      timestamp: new Date(),
+      projectId: session.projectId,
+      timeoutMs: this.approvalTimeoutMs
+    };
+
+    return new Promise(resolve => {
+      this.samplingApprovals.set(approvalRequest.id, resolve);
+      session.pendingApprovals.set(approvalRequest.id, approvalRequest);
+      this.toolApprovalTimeouts.set(approvalRequest.id, setTimeout(() => {
+        this.handleApprovalTimeout(socket, session, approvalRequest.id);
+      }, this.approvalTimeoutMs));
+
+      socket.emit('tool:approval_required', approvalRequest);
+      logger.info(`Sampling approval requested by ${request.server}`, {
+        approvalId: approvalRequest.id,
+        messageId,
+        toolName: request.toolName
+      });
+    });
+  }
+
+  // No-op for ordinary tool approvals
+  private settleSamplingApproval(approvalId: string, approved: boolean): void {
+    const resolve = this.samplingApprovals.get(approvalId);
+    if (resolve) {
+      this.samplingApprovals.delete(approvalId);
+      resolve(approved);
+    }
+  }
+
   private async executeApprovedTool(
     socket: AuthenticatedSocket,
     session: EnhancedChatSession,
@@ -394,7 +1052,7 @@ export class EnhancedChatHandlerWithApproval {
       return;
     }
 
-    const toolStatus = message.toolCalls.find(tc => tc.toolName === approval.toolName);
+    const toolStatus = message.toolCalls.find(tc => tc.id === approval.id);
     if (!toolStatus) {
       logger.error('Could not find tool status for approved tool');
       return;
@@ -407,7 +1065,8 @@ export class EnhancedChatHandlerWithApproval {
     socket: AuthenticatedSocket,
     session: EnhancedChatSession,
     messageId: string,
-    toolStatus: MCPToolExecutionStatus
+    toolStatus: MCPToolExecutionStatus,
+    options: { skipTransform?: boolean; deferCompletion?: boolean } = {}
   ): Promise<void> {
     const operationKey = `tool:${toolStatus.toolName}`;
     
@@ -416,12 +1075,32 @@ export class EnhancedChatHandlerWithApproval {
       const error = `Tool ${toolStatus.toolName} is currently unavailable due to repeated failures`;
       toolStatus.status = 'error';
       toolStatus.error = error;
+      toolStatus.endTime = new Date();
       
       socket.emit('chat:tool_error', {
         messageId,
         toolName: toolStatus.toolName,
         error
       });
+      await this.settleToolCall(socket, session, messageId, options);
+      return;
+    }
+
+    // The LLM only sees enabled servers, but stored plans and replays can still name others
+    const serverName = mcpServerRegistry.resolveServer(toolStatus.toolName);
+    if (!mcpServerRegistry.isServerEnabledForProject(serverName, session.mcpSettings)) {
+      const error = `MCP server ${serverName} is disabled for this project`;
+      toolStatus.status = 'error';
+      toolStatus.error = error;
+      toolStatus.endTime = new Date();
+
+      socket.emit('chat:tool_error', {
+        messageId,
+        toolName: toolStatus.toolName,
+        error
+      });
+      // Settled like any failed call, the model still has to hear about it
+      await this.settleToolCall(socket, session, messageId, options);
       return;
     }
 
@@ -442,7 +1121,8 @@ export class EnhancedChatHandlerWithApproval {
         hasArguments: !!(toolStatus.arguments && Object.keys(toolStatus.arguments).length > 0)
       });
       
-      const result = await RetryManager.retry(async () => {
+      // Server logs go to the admin panel and the execution record, not into the chat
+      const { serverLogs, ...result } = await RetryManager.retry(async () => {
         const toolCall: MCPToolCall = {
           name: toolStatus.toolName,
           arguments: toolStatus.arguments
@@ -457,7 +1137,20 @@ export class EnhancedChatHandlerWithApproval {
         console.log(`🔧 [TOOL-EXECUTION] Executing ${toolCall.name} with user message context`);
         console.log(`🔧 [FIX-VERIFICATION] Passing user message to MCP client for emergency extraction: ACTIVE`);
         
-        const mcpResult = await this.mcpClientManager.executeTool(toolCall, messageId, session.lastUserMessage);
+        const mcpResult = await this.mcpClientManager.executeTool(toolCall, messageId, session.lastUserMessage, {
+          skipTransform: options.skipTransform,
+          userId: socket.user?.userId,
+          signal: session.abortControllers.get(messageId)?.signal,
+          onProgress: (progress) => {
+            socket.emit('chat:tool_progress', {
+              messageId,
+              toolName: toolStatus.toolName,
+              progress: toProgressPercent(progress),
+              message: progress.message
+            });
+          },
+          onSamplingRequest: (request) => this.handleSamplingRequest(socket, session, messageId, request)
+        });
         logger.debug('Tool execution completed', {
           toolName: toolStatus.toolName,
           isError: mcpResult.isError
@@ -479,7 +1172,10 @@ export class EnhancedChatHandlerWithApproval {
       toolStatus.executionTime = toolStatus.endTime.getTime() - toolStatus.startTime!.getTime();
 
       if (result.isError) {
-        this.errorRecovery.recordFailure(operationKey);
+        // Bad arguments are the model's mistake, not a sign the tool is failing
+        if (!result.validationErrors) {
+          this.errorRecovery.recordFailure(operationKey);
+        }
         socket.emit('chat:tool_error', {
           messageId,
           toolName: toolStatus.toolName,
@@ -502,15 +1198,27 @@ export class EnhancedChatHandlerWithApproval {
           arguments: JSON.stringify(toolStatus.arguments),
           result: JSON.stringify(result),
           status: result.isError ? ToolExecutionStatus.FAILED : ToolExecutionStatus.COMPLETED,
-          error: result.isError ? result.content?.[0]?.text : undefined
+          error: result.isError ? result.content?.[0]?.text : undefined,
+          metadata: result.validationErrors || result.cached || serverLogs
+            ? {
+              ...(result.validationErrors ? { validationErrors: result.validationErrors } : {}),
+              ...(result.cached ? { cached: true, cachedAt: result.cachedAt } : {}),
+              ...(serverLogs ? { serverLogs: asJsonValue(serverLogs) } : {})
+            }
+            : undefined
         }
       });
 
     } catch (error) {
       const mcpError = handleError(error, `Tool execution: ${toolStatus.toolName}`);
-      this.errorRecovery.recordFailure(operationKey);
+      const stoppedStatus = mcpError instanceof OperationCancelledError
+        ? 'cancelled'
+        : mcpError instanceof ToolTimeoutError ? 'timeout' : undefined;
+      if (stoppedStatus !== 'cancelled') {
+        this.errorRecovery.recordFailure(operationKey);
+      }
       
-      toolStatus.status = 'error';
+      toolStatus.status = stoppedStatus || 'error';
       toolStatus.error = mcpError.message;
       toolStatus.endTime = new Date();
 
@@ -518,6 +1226,7 @@ export class EnhancedChatHandlerWithApproval {
         messageId,
         toolName: toolStatus.toolName,
         error: toolStatus.error,
+        status: stoppedStatus,
         retryable: mcpError.retryable,
         retryCount: this.errorRecovery.getFailureCount(operationKey)
       });
@@ -529,7 +1238,9 @@ export class EnhancedChatHandlerWithApproval {
             messageId,
             toolName: toolStatus.toolName,
             arguments: JSON.stringify(toolStatus.arguments),
-            status: ToolExecutionStatus.FAILED,
+            status: stoppedStatus === 'cancelled'
+              ? ToolExecutionStatus.CANCELLED
+              : stoppedStatus === 'timeout' ? ToolExecutionStatus.TIMEOUT : ToolExecutionStatus.FAILED,
             error: toolStatus.error
           }
         });
@@ -538,16 +1249,29 @@ export class EnhancedChatHandlerWithApproval {
       }
     }
 
-    // CRITICAL FIX: Check if all tools in the message are completed
+    await this.settleToolCall(socket, session, messageId, options);
+  }
+
+  // Every path out of executeToolWithStatus ends here, or the tool loop waits forever
+  private async settleToolCall(
+    socket: AuthenticatedSocket,
+    session: EnhancedChatSession,
+    messageId: string,
+    options: { deferCompletion?: boolean }
+  ): Promise<void> {
+    // Plans complete the message themselves once every step has run
+    if (options.deferCompletion) {
+      return;
+    }
+
+    // The last tool of the round to settle hands the results to the model
     const message = session.messages.find(m => m.id === messageId);
     if (message && message.toolCalls) {
-      const allCompleted = message.toolCalls.every(tc => 
-        tc.status === 'completed' || tc.status === 'error'
-      );
+      const allCompleted = message.toolCalls.every(isToolSettled);
       
       if (allCompleted) {
-        logger.info('All tools completed, calling completeMessage', { messageId });
-        await this.completeMessage(socket, session, message);
+        logger.info('All tools settled, continuing the tool loop', { messageId });
+        await this.finishToolRound(socket, session, message);
       }
     }
   }
@@ -557,10 +1281,16 @@ export class EnhancedChatHandlerWithApproval {
     session: EnhancedChatSession,
     assistantMessage: EnhancedChatMessage
   ): Promise<void> {
+    session.abortControllers.delete(assistantMessage.id);
+    session.toolLoops.delete(assistantMessage.id);
+
     // Update message in database
     await prisma.message.update({
       where: { id: assistantMessage.id },
-      data: { content: assistantMessage.content }
+      data: {
+        content: assistantMessage.content,
+        ...(assistantMessage.sources && { sources: assistantMessage.sources })
+      }
     });
 
     // Message was already added to session in generateEnhancedResponse, just update content
@@ -594,6 +1324,7 @@ export class EnhancedChatHandlerWithApproval {
     if (approval) {
       session.pendingApprovals.delete(approvalId);
       this.toolApprovalTimeouts.delete(approvalId);
+      this.settleSamplingApproval(approvalId, false);
 
       socket.emit('chat:tool_denied', {
         messageId: approval.messageId,
@@ -602,36 +1333,144 @@ export class EnhancedChatHandlerWithApproval {
       });
 
       logger.warn(`Tool approval timeout for ${approval.toolName}`, { approvalId });
+
+      if (approval.kind !== 'sampling') {
+        this.continueResponseWithoutTool(socket, session, approval, 'Approval timed out').catch(error => {
+          logger.error('Failed to continue after approval timeout:', error);
+        });
+      }
     }
   }
 
   private async continueResponseWithoutTool(
     socket: AuthenticatedSocket,
     session: EnhancedChatSession,
-    messageId: string
+    approval: ToolApprovalRequest,
+    reason: string
   ): Promise<void> {
-    // Find the message and mark tool as denied
-    const message = session.messages.find(m => m.id === messageId);
-    if (message && message.toolCalls) {
-      message.toolCalls.forEach(tc => {
-        if (tc.status === 'pending') {
-          tc.status = 'error';
-          tc.error = 'User denied permission';
-        }
-      });
+    const message = session.messages.find(m => m.id === approval.messageId);
+    const toolStatus = message?.toolCalls?.find(tc => tc.id === approval.id);
+    if (!message || !toolStatus || toolStatus.status !== 'pending') {
+      return;
     }
 
-    // Complete the message without the denied tool
-    if (message) {
-      await this.completeMessage(socket, session, message);
+    toolStatus.status = 'error';
+    toolStatus.error = reason;
+    toolStatus.endTime = new Date();
+
+    // The model hears about the refusal along with the rest of the round
+    if (message.toolCalls!.every(isToolSettled)) {
+      await this.finishToolRound(socket, session, message);
     }
   }
 
-  private buildLLMContext(session: EnhancedChatSession): LLMMessage[] {
-    return session.context.messages.map(msg => ({
+  private buildLLMContext(session: EnhancedChatSession, retrieval: RetrievalResult | null = null): LLMMessage[] {
+    const systemPrompt = buildSystemPrompt({
+      instanceUrl: process.env.SERVICENOW_INSTANCE_URL,
+      userTimezone: 'UTC',
+      // The same tools the LLM service was given, so the budget doesn't reserve room for disabled servers
+      availableTools: mcpServerRegistry.filterToolsForProject(this.mcpClientManager.getAvailableTools(), session.mcpSettings)
+    });
+
+    // Drop the oldest turns once the history would overflow the model's context window
+    const historyBudget = modelRegistry.getHistoryTokenBudget(
+      session.model,
+      estimateTokens(systemPrompt) + estimateTokens(retrieval?.promptSection || '')
+    );
+    const messages: LLMMessage[] = fitMessagesToBudget(session.context.messages, historyBudget).map(msg => ({
       role: msg.role,
-      content: msg.content
+      content: msg.role === 'assistant'
+        ? this.withToolCallNotes(msg as unknown as EnhancedChatMessage)
+        : msg.content
     }));
+
+    // The LLM service builds the default system prompt; only override it to add documents
+    if (retrieval?.promptSection) {
+      messages.unshift({
+        role: 'system',
+        content: `${systemPrompt}\n\n${retrieval.promptSection}`
+      });
+    }
+
+    return messages;
+  }
+
+  // Tool results only go back to the model within their own turn. Later turns still have to know
+  // which calls never finished
+  private withToolCallNotes(message: EnhancedChatMessage): string {
+    const notes = (message.toolCalls || [])
+      .map(tc => {
+        if (tc.status === 'timeout') {
+          return `${tc.toolName} timed out and was cancelled (${tc.error}). It may still have made changes in ServiceNow, check before calling it again.`;
+        }
+        if (tc.status === 'cancelled') {
+          return `${tc.toolName} was cancelled by the user before it finished.`;
+        }
+        return undefined;
+      })
+      .filter(Boolean);
+
+    return notes.length > 0
+      ? [message.content, ...notes].join('\n\n')
+      : message.content;
+  }
+
+  private startCancellableTurn(session: EnhancedChatSession, messageId: string): AbortController {
+    const abortController = new AbortController();
+    session.abortControllers.set(messageId, abortController);
+    return abortController;
+  }
+
+  private async retrieveProjectContext(
+    projectId: string,
+    userId: string,
+    query: string
+  ): Promise<RetrievalResult | null> {
+    try {
+      return await retrievalService.retrieveProjectContext(projectId, userId, query);
+    } catch (error) {
+      logger.error('Failed to retrieve project documents:', error);
+      // Don't throw - answer without document grounding
+      return null;
+    }
+  }
+
+  private async loadProjectMcpSettings(projectId: string): Promise<ProjectMCPSettings | undefined> {
+    try {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { settings: true }
+      });
+      return (project?.settings as ProjectMCPSettings) || undefined;
+    } catch (error) {
+      logger.error('Failed to load project MCP settings:', error);
+      return undefined;
+    }
+  }
+
+  private async evaluateApprovalPolicy(
+    socket: AuthenticatedSocket,
+    session: EnhancedChatSession,
+    toolCall: MCPToolCall
+  ): Promise<ApprovalDecision> {
+    try {
+      const decision = await toolApprovalPolicyService.evaluate(
+        socket.user!.userId,
+        toolCall.name,
+        toolCall.arguments,
+        session.projectId
+      );
+
+      logger.info(`Approval policy decision for ${toolCall.name}: ${decision.action}`, {
+        policyId: decision.policy?.id,
+        reason: decision.reason
+      });
+
+      return decision;
+    } catch (error) {
+      logger.error('Failed to evaluate approval policies, asking the user:', error);
+      return { action: 'ASK', reason: 'Approval policies unavailable' };
+    }
   }
 
   private getToolDescription(toolName: string): string {
@@ -640,8 +1479,8 @@ export class EnhancedChatHandlerWithApproval {
     return tool?.description || 'No description available';
   }
 
-  private async createSession(model: string, userId: string): Promise<EnhancedChatSession> {
-    const llmService = new AnthropicService(model);
+  private async createSession(model: string, userId: string, projectId?: string): Promise<EnhancedChatSession> {
+    const llmService = createLLMService(model);
     
     // Set available tools with enhanced system prompt
     const mcpTools = this.mcpClientManager.getAvailableTools();
@@ -658,8 +1497,9 @@ export class EnhancedChatHandlerWithApproval {
       data: {
         userId,
         model,
-        contextLimit: this.getContextLimit(model),
-        title: 'New Chat'
+        contextLimit: modelRegistry.getContextLimit(model),
+        title: 'New Chat',
+        projectId
       }
     });
 
@@ -682,18 +1522,19 @@ export class EnhancedChatHandlerWithApproval {
         sessionStartTime: new Date()
       },
       pendingApprovals: new Map(),
-      approvedTools: new Set()
+      pendingPlans: new Map(),
+      abortControllers: new Map(),
+      toolLoops: new Map(),
+      projectId
     };
   }
 
-  private getContextLimit(model: string): number {
-    if (model.startsWith('claude-')) return 200000;
-    return 4000; // default
-  }
-
   cleanup(socketId: string): void {
     const session = this.sessions.get(socketId);
     if (session) {
+      // Nobody is left to see the answer
+      session.abortControllers.forEach(abortController => abortController.abort());
+
       // Clear any pending approval timeouts
       session.pendingApprovals.forEach((_, approvalId) => {
         const timeout = this.toolApprovalTimeouts.get(approvalId);
@@ -701,6 +1542,7 @@ export class EnhancedChatHandlerWithApproval {
           clearTimeout(timeout);
           this.toolApprovalTimeouts.delete(approvalId);
         }
+        this.settleSamplingApproval(approvalId, false);
       });
     }
     this.sessions.delete(socketId);
@@ -1,37 +1,38 @@
 import { Server, Socket } from 'socket.io';
-import { getEnhancedMCPClient } from '../mcp/enhanced-mcp-client';
+import { getEnhancedMCPClient, ToolExecutionOptions } from '../mcp/enhanced-mcp-client';
 import { queueToolExecution } from '../queues/tool-execution-queue';
 import { queueMessageProcessing } from '../queues/message-processing-queue';
 import { createLogger } from '../utils/logger';
 import { PrismaClient } from '@prisma/client';
 import { MCPParameterTransformer } from '../mcp/mcp-parameter-transformer';
+import { parameterRules } from '../mcp/parameter-rules';
 import { mcpDebugLogger } from '../utils/mcp-debug-logger';
-import { AnthropicService } from '../llm/anthropic-service';
-import { OpenAIService } from '../llm/openai-service';
+import { createLLMService } from '../llm/llm-factory';
 import { LLMService, LLMMessage } from '../llm/llm-interface';
 import { EnhancedChatHandlerWithApproval } from './enhanced-chat-handler-with-approval';
+import { AuthenticatedSocket } from '../middleware/socketAuth';
 
 const logger = createLogger();
 const prisma = new PrismaClient();
 
-// Function to create appropriate LLM service based on model
-function createLLMService(model: string): LLMService {
-  if (model.includes('claude')) {
-    return new AnthropicService(model);
-  } else if (model.includes('gpt') || model.includes('o4')) {
-    return new OpenAIService(model);
-  } else {
-    // Default to Claude for unknown models
-    return new AnthropicService('claude-sonnet-4-20250514');
-  }
-}
-
-interface SocketWithUser extends Socket {
+// The socket auth middleware in app-enhanced attaches the user to the socket itself
+export interface SocketWithUser extends Socket {
   userId: string;
   userEmail: string;
   userRole: string;
 }
 
+// The approval handler reads the user from socket.user, as the socket auth middleware sets it
+function asAuthenticatedSocket(socket: SocketWithUser): AuthenticatedSocket {
+  const authenticated: AuthenticatedSocket = socket;
+  authenticated.user = {
+    userId: socket.userId,
+    email: socket.userEmail,
+    role: socket.userRole
+  };
+  return authenticated;
+}
+
 interface ChatMessage {
   message: string;
   model: string;
@@ -66,8 +67,24 @@ class MCPClientAdapter {
     return this.enhancedClient.getAvailableTools();
   }
   
-  async executeTool(toolCall: any, messageId?: string) {
-    return this.enhancedClient.executeTool(toolCall, messageId);
+  async executeTool(toolCall: any, messageId?: string, userMessage?: string, options: ToolExecutionOptions = {}) {
+    return this.enhancedClient.executeTool(toolCall, messageId, userMessage, options);
+  }
+
+  async listResources() {
+    return this.enhancedClient.listResources();
+  }
+
+  async readResource(server: string, uri: string) {
+    return this.enhancedClient.readResource(server, uri);
+  }
+
+  async listPrompts() {
+    return this.enhancedClient.listPrompts();
+  }
+
+  async getPrompt(name: string, args?: Record<string, string>) {
+    return this.enhancedClient.getPrompt(name, args);
   }
   
   isConnected() {
@@ -96,15 +113,7 @@ export function setupEnhancedChatHandlers(io: Server, socket: SocketWithUser) {
     });
     
     try {
-      // Convert socket format to match what the handler expects
-      const socketWithUser = socket as any;
-      socketWithUser.user = {
-        userId: socket.userId,
-        email: socket.userEmail,
-        role: socket.userRole
-      };
-      
-      await enhancedHandler.handleMessage(socketWithUser, data);
+      await enhancedHandler.handleMessage(asAuthenticatedSocket(socket), data);
       logger.debug('Enhanced handler completed successfully', { userId: socket.userId });
     } catch (error) {
       logger.error('Enhanced handler failed:', error);
@@ -117,14 +126,7 @@ export function setupEnhancedChatHandlers(io: Server, socket: SocketWithUser) {
     console.log('🔧 [ENHANCED-HANDLER] Received tool:approval_response event');
     
     try {
-      const socketWithUser = socket as any;
-      socketWithUser.user = {
-        userId: socket.userId,
-        email: socket.userEmail,
-        role: socket.userRole
-      };
-      
-      await enhancedHandler.handleToolApproval(socketWithUser, data);
+      await enhancedHandler.handleToolApproval(asAuthenticatedSocket(socket), data);
     } catch (error) {
       console.error('🔧 [ENHANCED-HANDLER] Tool approval failed:', error);
       logger.error('Tool approval failed:', error);
@@ -132,6 +134,26 @@ export function setupEnhancedChatHandlers(io: Server, socket: SocketWithUser) {
     }
   });
 
+  // Handle plan mode responses (approve, edit or drop proposed steps)
+  socket.on('chat:plan_response', async (data) => {
+    try {
+      await enhancedHandler.handlePlanResponse(asAuthenticatedSocket(socket), data);
+    } catch (error) {
+      logger.error('Plan execution failed:', error);
+      socket.emit('error', { message: 'Failed to process plan response' });
+    }
+  });
+
+  // Stop button: abort the LLM stream and any running tools for the response
+  socket.on('chat:cancel', async (data) => {
+    try {
+      await enhancedHandler.handleCancel(asAuthenticatedSocket(socket), data || {});
+    } catch (error) {
+      logger.error('Cancelling response failed:', error);
+      socket.emit('error', { message: 'Failed to cancel response' });
+    }
+  });
+
   // Handle disconnection
   socket.on('disconnect', () => {
     console.log('🔌 [ENHANCED-HANDLER] Client disconnected');
@@ -659,16 +681,6 @@ async function streamEnhancedResponse({
 }
 
 // Helper functions
-function getContextLimit(model: string): number {
-  const limits: Record<string, number> = {
-    'gpt-4': 8192,
-    'gpt-3.5-turbo': 4096,
-    'claude-3-sonnet': 200000,
-    'claude-3-opus': 200000,
-  };
-  return limits[model] || 4096;
-}
-
 function selectToolsForMessage(message: string, availableTools: any[]): any[] {
   const toolsToUse = [];
   const messageLower = message.toLowerCase();
@@ -682,16 +694,13 @@ function selectToolsForMessage(message: string, availableTools: any[]): any[] {
     if (catalogTool) {
       logger.info('[TOOL-SELECTION] Selected catalog item creation tool');
       
-      // Extract the catalog item name from the message
-      const itemName = MCPParameterTransformer.extractCatalogItemName(message) || 'New Catalog Item';
-      const category = message.match(/in\s+([^\s]+)\s*$/i)?.[1] || 'General';
+      // The catalog-item rule finds the name and category in the message and writes the command
+      const catalogCall = parameterRules.apply(catalogTool.name, {}, message);
       
       toolsToUse.push({
         name: catalogTool.name,
-        arguments: {
-          command: `Create a catalog item called '${itemName}' in ${category}`
-        },
-        itemName: itemName, // Store for use in subsequent tools
+        arguments: catalogCall.arguments,
+        itemName: catalogCall.fields.name, // Store for use in subsequent tools
       });
       
       // Check if user also wants variables
@@ -0,0 +1,60 @@
+import { Server, Socket } from 'socket.io';
+import { isMCPLogLevel, mcpServerLogs } from '../mcp/mcp-server-logs';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+
+// Server logs can carry instance data, so only admins ever join this room
+export const MCP_SERVER_LOGS_ROOM = 'admin:mcp-server-logs';
+
+/**
+ * The developer tools panel's "Server logs" tab: a snapshot on subscribe,
+ * then live entries through the room, plus the logging/setLevel control.
+ */
+export function setupServerLogHandlers(socket: Socket, isAdmin: boolean): void {
+  socket.on('dev:subscribe-server-logs', () => {
+    if (!isAdmin) {
+      socket.emit('dev:server-logs-error', { error: 'Server logs are only available to administrators' });
+      return;
+    }
+
+    socket.join(MCP_SERVER_LOGS_ROOM);
+    socket.emit('dev:server-logs', {
+      entries: mcpServerLogs.getRecent(),
+      level: mcpServerLogs.getLevel()
+    });
+  });
+
+  socket.on('dev:unsubscribe-server-logs', () => {
+    socket.leave(MCP_SERVER_LOGS_ROOM);
+  });
+
+  socket.on('dev:set-server-log-level', async (data: { level?: unknown }) => {
+    if (!isAdmin) {
+      socket.emit('dev:server-logs-error', { error: 'Server logs are only available to administrators' });
+      return;
+    }
+    if (!isMCPLogLevel(data?.level)) {
+      socket.emit('dev:server-logs-error', { error: `Unknown log level: ${String(data?.level)}` });
+      return;
+    }
+
+    try {
+      const sessions = await mcpServerLogs.setLevel(data.level);
+      socket.to(MCP_SERVER_LOGS_ROOM).emit('dev:server-log-level', { level: data.level, sessions });
+      socket.emit('dev:server-log-level', { level: data.level, sessions });
+    } catch (error) {
+      logger.error('Failed to set MCP server log level:', error);
+      socket.emit('dev:server-logs-error', {
+        error: error instanceof Error ? error.message : 'Failed to set log level'
+      });
+    }
+  });
+}
+
+// Call once per socket.io server
+export function forwardServerLogs(io: Server): void {
+  mcpServerLogs.on('log', entry => {
+    io.to(MCP_SERVER_LOGS_ROOM).emit('dev:server-log', entry);
+  });
+}
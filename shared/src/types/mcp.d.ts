@@ -19,6 +19,14 @@ export interface MCPToolResult {
         image?: any;
     }>;
     isError?: boolean;
+    validationErrors?: Array<{
+        path: string;
+        message: string;
+        keyword: string;
+    }>;
+    cached?: boolean;
+    cachedAt?: string;
+    serverLogs?: MCPServerLogEntry[];
 }
 export interface MCPCapabilities {
     tools?: {
@@ -54,16 +62,45 @@ export interface ToolApprovalRequest {
     toolDescription?: string;
     toolArguments: any;
     timestamp: Date;
+    projectId?: string;
+    timeoutMs?: number;
+    policyReason?: string;
+    kind?: 'tool' | 'sampling';
 }
 export interface ToolApprovalResponse {
     id: string;
     approved: boolean;
     alwaysAllow?: boolean;
+    remember?: 'project' | 'user';
+}
+export interface PlanStep {
+    id: string;
+    index: number;
+    toolName: string;
+    toolDescription?: string;
+    originalArguments: any;
+    arguments: any;
+    operation: 'read' | 'write';
+}
+export interface ExecutionPlan {
+    id: string;
+    messageId: string;
+    steps: PlanStep[];
+    timestamp: Date;
+    projectId?: string;
+}
+export interface PlanResponse {
+    planId: string;
+    approved: boolean;
+    steps?: Array<{
+        id: string;
+        arguments?: any;
+    }>;
 }
 export interface ToolExecutionStatus {
     id: string;
     toolName: string;
-    status: 'pending' | 'approved' | 'denied' | 'executing' | 'completed' | 'error';
+    status: 'pending' | 'approved' | 'denied' | 'executing' | 'completed' | 'error' | 'cancelled' | 'timeout';
     arguments: any;
     result?: MCPToolResult;
     error?: string;
@@ -84,4 +121,57 @@ export interface ConversationContext {
     approvedTools: Set<string>;
     sessionStartTime: Date;
 }
+export interface MCPResource {
+    server: string;
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+export interface MCPResourceContent {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+}
+export interface ResourceReference {
+    server: string;
+    uri: string;
+    name?: string;
+}
+export interface MCPPromptArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+}
+export interface MCPPrompt {
+    name: string;
+    server: string;
+    title?: string;
+    description?: string;
+    arguments?: MCPPromptArgument[];
+}
+export interface MCPPromptMessage {
+    role: 'user' | 'assistant';
+    text: string;
+}
+export interface MCPPromptResult {
+    description?: string;
+    messages: MCPPromptMessage[];
+}
+export type MCPLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+export interface MCPServerLogEntry {
+    id: string;
+    timestamp: string;
+    server: string;
+    connectionId: string;
+    level: MCPLogLevel;
+    logger?: string;
+    data: unknown;
+    toolExecution?: {
+        id?: string;
+        toolName: string;
+        messageId?: string;
+    };
+}
 //# sourceMappingURL=mcp.d.ts.map
\ No newline at end of file
@@ -21,6 +21,17 @@ export interface MCPToolResult {
     image?: any;
   }>;
   isError?: boolean;
+  // Arguments that failed the tool's inputSchema; the server was not called
+  validationErrors?: Array<{
+    path: string;
+    message: string;
+    keyword: string;
+  }>;
+  // Served from the server's read-through cache of read-only tool results
+  cached?: boolean;
+  cachedAt?: string;
+  // notifications/message the server logged during the call; kept off the chat events, stored with the ToolExecution
+  serverLogs?: MCPServerLogEntry[];
 }
 
 export interface MCPCapabilities {
@@ -60,18 +71,52 @@ export interface ToolApprovalRequest {
   toolDescription?: string;
   toolArguments: any;
   timestamp: Date;
+  projectId?: string;
+  timeoutMs?: number;
+  policyReason?: string;
+  // 'sampling' asks to let an MCP server use the chat's model mid-call; never remembered as a policy
+  kind?: 'tool' | 'sampling';
 }
 
 export interface ToolApprovalResponse {
   id: string;
   approved: boolean;
   alwaysAllow?: boolean;
+  // Persist the approval as an allow policy for the project or for all of the user's chats
+  remember?: 'project' | 'user';
+}
+
+// A tool call proposed in plan mode, shown to the user before anything runs
+export interface PlanStep {
+  id: string;
+  index: number;
+  toolName: string;
+  toolDescription?: string;
+  // What the model asked for, and what will actually be sent after parameter transformation
+  originalArguments: any;
+  arguments: any;
+  operation: 'read' | 'write';
+}
+
+export interface ExecutionPlan {
+  id: string;
+  messageId: string;
+  steps: PlanStep[];
+  timestamp: Date;
+  projectId?: string;
+}
+
+export interface PlanResponse {
+  planId: string;
+  approved: boolean;
+  // Steps to run, in order, with any edited arguments; omitted steps are dropped
+  steps?: Array<{ id: string; arguments?: any }>;
 }
 
 export interface ToolExecutionStatus {
   id: string;
   toolName: string;
-  status: 'pending' | 'approved' | 'denied' | 'executing' | 'completed' | 'error';
+  status: 'pending' | 'approved' | 'denied' | 'executing' | 'completed' | 'error' | 'cancelled' | 'timeout';
   arguments: any;
   result?: MCPToolResult;
   error?: string;
@@ -92,4 +137,73 @@ export interface ConversationContext {
   toolExecutions: ToolExecutionStatus[];
   approvedTools: Set<string>;
   sessionStartTime: Date;
-}
\ No newline at end of file
+}
+
+// Resources and prompts offered by MCP servers, alongside their tools
+
+export interface MCPResource {
+  server: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  // Base64 data for binary resources
+  blob?: string;
+}
+
+// A resource the user attached to a chat turn
+export interface ResourceReference {
+  server: string;
+  uri: string;
+  name?: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  // Namespaced as "<server>:<prompt>" like tools
+  name: string;
+  server: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+// Syslog severities used by MCP logging, least to most severe
+export type MCPLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+export interface MCPServerLogEntry {
+  id: string;
+  timestamp: string;
+  server: string;
+  connectionId: string;
+  level: MCPLogLevel;
+  logger?: string;
+  data: unknown;
+  // The tool call the connection was running when the entry arrived
+  toolExecution?: {
+    id?: string;
+    toolName: string;
+    messageId?: string;
+  };
+}
@@ -22,6 +22,21 @@ export interface ChatMessage {
   isStreaming?: boolean;
   isThinking?: boolean;
   currentTool?: string;
+  sources?: MessageSource[];
+}
+
+// Project document excerpt the assistant was grounded on
+export interface MessageSource {
+  index: number;
+  projectId: string;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  chunkIndex: number;
+  page?: number;
+  section?: string;
+  score: number;
+  excerpt: string;
 }
 
 // Client to Server Events
@@ -31,6 +46,9 @@ export interface ClientToServerEvents {
     message: string;
     model: string;
     sessionId?: string;
+    projectId?: string;
+    planMode?: boolean; // Propose tool calls as a plan instead of running them
+    resources?: Array<{ server: string; uri: string; name?: string }>; // MCP resources attached as context
   }) => void;
 
   // Tool retry events
@@ -47,6 +65,11 @@ export interface ClientToServerEvents {
     messageId: string;
   }) => void;
 
+  // Stop the response in progress: the LLM stream, running tools and pending approvals
+  'chat:cancel': (data: {
+    messageId?: string; // Every response in progress on this socket when omitted
+  }) => void;
+
   // Connection events
   'disconnect': () => void;
   'connect': () => void;
@@ -78,7 +101,8 @@ export interface ServerToClientEvents {
   'chat:tool_progress': (data: {
     messageId: string;
     toolName: string;
-    progress: number; // 0-100
+    progress?: number; // 0-100, absent when the MCP server doesn't report a total
+    message?: string;
   }) => void;
 
   'chat:tool_complete': (data: {
@@ -92,6 +116,7 @@ export interface ServerToClientEvents {
     messageId: string;
     toolName: string;
     error: string;
+    status?: 'cancelled' | 'timeout'; // Set when the tool was stopped rather than failing
   }) => void;
 
   // Text streaming events
@@ -100,6 +125,13 @@ export interface ServerToClientEvents {
     chunk: string;
   }) => void;
 
+  // An MCP server changed its tool list (notifications/tools/list_changed)
+  'tools:updated': (data: {
+    tools: Array<{ name: string; description?: string }>;
+    count: number;
+    updatedAt: string;
+  }) => void;
+
   // Error events
   'chat:error': (data: {
     message: string;